@@ -1,20 +1,36 @@
-import { useState, useEffect } from 'react';
-import { useAstroAuth } from './hooks/useAstroAuth';
-import { AstroShivaAPI } from './services/astroApi';
+import { useState, useCallback } from 'react';
+import type { ReactNode } from 'react';
+import { useAppStateMachine } from './hooks/useAppStateMachine';
+import type { AuthProvider } from './services/authProvider';
 import { OnboardingForm } from './components/OnboardingForm';
+import { OnboardingProgress } from './components/OnboardingProgress';
 import { ChatInterface } from './components/ChatInterface';
+import { ProfileEditor } from './components/ProfileEditor';
 import { StarBackground } from './components/StarBackground';
 import { GlassCard } from './components/GlassCard';
 import { Button } from '@/components/ui/button';
-import { Sparkles, Moon, Stars, Lock } from 'lucide-react';
-
-function AuthScreen() {
-  const handleSignIn = () => {
-    // Generate unique guest ID for authentication
-    const guestId = `guest_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-    localStorage.setItem('astroGuestId', guestId);
-    localStorage.setItem('convexAuthToken', guestId); // For backward compatibility
-    window.location.reload();
+import { Sparkles, Moon, Stars, Lock, AlertCircle, RefreshCw } from 'lucide-react';
+
+interface AuthScreenProps {
+  providerKind: AuthProvider['kind'];
+  message?: string;
+  onSignIn: () => Promise<unknown>;
+}
+
+function AuthScreen({ providerKind, message, onSignIn }: AuthScreenProps) {
+  const [signingIn, setSigningIn] = useState(false);
+  const [signInError, setSignInError] = useState<string | null>(message ?? null);
+
+  const handleSignIn = async () => {
+    setSigningIn(true);
+    setSignInError(null);
+    try {
+      await onSignIn();
+    } catch (err) {
+      console.error('[AuthScreen] Sign-in failed:', err);
+      setSignInError('Sign-in failed. Please try again.');
+      setSigningIn(false);
+    }
   };
 
   return (
@@ -67,9 +83,16 @@ function AuthScreen() {
             Your journey to self-discovery begins here.
           </p>
           
+          {signInError && (
+            <div className="mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-300 text-sm">
+              {signInError}
+            </div>
+          )}
+
           {/* Sign In Button */}
           <Button
             onClick={handleSignIn}
+            disabled={signingIn}
             className="w-full mystic-button bg-gradient-to-r from-mystic-purple to-mystic-blue hover:from-mystic-purple-light hover:to-mystic-blue-light border border-mystic-gold/30 text-white font-display tracking-wider py-6 text-lg transition-all duration-300 hover:shadow-[0_0_30px_rgba(212,175,55,0.4)]"
           >
             <Lock className="mr-2 h-5 w-5" />
@@ -78,7 +101,7 @@ function AuthScreen() {
           
           {/* Footer text */}
           <p className="mt-6 text-sm text-muted-foreground/60">
-            Secure authentication via Convex
+            {providerKind === 'guest' ? 'Continue as a guest seeker' : 'Secure authentication via Convex'}
           </p>
         </GlassCard>
         
@@ -116,54 +139,140 @@ function LoadingScreen() {
   );
 }
 
+interface StatusScreenProps {
+  title: string;
+  message: string;
+  children: ReactNode;
+}
+
+function StatusScreen({ title, message, children }: StatusScreenProps) {
+  return (
+    <div className="min-h-screen cosmic-gradient flex items-center justify-center p-4 relative">
+      <StarBackground />
+      
+      <div className="relative z-10 w-full max-w-md">
+        <GlassCard>
+          <h2 className="flex items-center gap-2 text-xl font-display text-red-400 mb-2">
+            <AlertCircle className="w-5 h-5" />
+            {title}
+          </h2>
+          <p className="text-muted-foreground mb-6">{message}</p>
+          <div className="space-y-3">{children}</div>
+        </GlassCard>
+      </div>
+    </div>
+  );
+}
+
 function App() {
-  const { status, isLoading, isAuthenticated, token, error } = useAstroAuth();
-  const [api, setApi] = useState<AstroShivaAPI | null>(null);
-  const [bypassOnboarding, _setBypassOnboarding] = useState(false);
-  const [bypassChat, setBypassChat] = useState(false);
-
-  useEffect(() => {
-    if (isAuthenticated && token) {
-      const apiClient = new AstroShivaAPI(token);
-      setApi(apiClient);
-    }
-  }, [isAuthenticated, token]);
+  const { state, send, api, provider, signIn } = useAppStateMachine();
 
-  if (isLoading) {
-    return <LoadingScreen />;
-  }
+  const handleProcessingComplete = useCallback(() => send({ type: 'PROCESSING_COMPLETED' }), [send]);
+  const handleProcessingFailed = useCallback(
+    (reason?: string) => send({ type: 'PROCESSING_FAILED', reason }),
+    [send]
+  );
 
-  if (!isAuthenticated) {
-    return <AuthScreen />;
-  }
+  switch (state.status) {
+    case 'checking-profile':
+      return <LoadingScreen />;
 
-  // Show onboarding form even if API fails (for UI testing)
-  if (status === 'onboarding' || (error && !bypassOnboarding && !bypassChat)) {
-    return api || error ? (
-      <div className="min-h-screen cosmic-gradient relative">
-        <StarBackground />
-        <div className="relative z-10">
-          <OnboardingForm 
-            api={api || new AstroShivaAPI(token || '')} 
-            onSuccess={() => setBypassChat(true)} 
-          />
+    case 'unauthenticated':
+      return <AuthScreen providerKind={provider.kind} message={state.message} onSignIn={signIn} />;
+
+    case 'onboarding':
+      return (
+        <div className="min-h-screen cosmic-gradient relative">
+          <StarBackground />
+          <div className="relative z-10">
+            <OnboardingForm 
+              api={api} 
+              onSubmitted={() => send({ type: 'ONBOARDING_SUBMITTED' })}
+              onSuccess={() => send({ type: 'ONBOARDING_COMPLETED' })} 
+            />
+          </div>
         </div>
-      </div>
-    ) : null;
-  }
+      );
+
+    case 'processing':
+      return (
+        <OnboardingProgress
+          api={api}
+          onComplete={handleProcessingComplete}
+          onFail={handleProcessingFailed}
+        />
+      );
+
+    case 'ready':
+      return (
+        <div className="min-h-screen cosmic-gradient relative">
+          <StarBackground />
+          <div className="relative z-10 h-screen">
+            <ChatInterface
+              api={api}
+              userContext={state.profile}
+              onOpenProfile={() => send({ type: 'EDIT_PROFILE' })}
+            />
+          </div>
+        </div>
+      );
 
-  if ((status === 'ready' && api) || bypassChat) {
-    return (
-      <div className="min-h-screen cosmic-gradient relative">
-        <StarBackground />
-        <div className="relative z-10 h-screen">
-          <ChatInterface api={api || new AstroShivaAPI(token || '')} />
+    case 'editing-profile':
+      return (
+        <div className="min-h-screen cosmic-gradient relative">
+          <StarBackground />
+          <div className="relative z-10">
+            <ProfileEditor
+              api={api}
+              profile={state.profile}
+              onCancel={() => send({ type: 'EDIT_CANCELLED' })}
+              onSaved={(recalculating) => send({ type: 'PROFILE_SAVED', recalculating })}
+            />
+          </div>
         </div>
-      </div>
-    );
-  }
+      );
 
-  return null;
+    case 'failed':
+      return (
+        <StatusScreen title="Astrological Data Missing" message={state.reason}>
+          <p className="text-sm text-muted-foreground">
+            This can happen if:
+          </p>
+          <ul className="text-sm text-muted-foreground list-disc list-inside space-y-1">
+            <li>Onboarding was interrupted</li>
+            <li>The astrological calculation timed out</li>
+            <li>Your session expired</li>
+          </ul>
+          <Button
+            onClick={() => send({ type: 'START_ONBOARDING' })}
+            className="w-full mystic-button"
+          >
+            <Sparkles className="mr-2 h-4 w-4" />
+            Complete Onboarding
+          </Button>
+          <Button
+            onClick={() => send({ type: 'RETRY' })}
+            variant="outline"
+            className="w-full"
+          >
+            Try Again
+          </Button>
+        </StatusScreen>
+      );
+
+    case 'error':
+      return (
+        <StatusScreen title="The Stars Are Out of Reach" message={state.message}>
+          <Button
+            onClick={() => send({ type: 'RETRY' })}
+            className="w-full mystic-button"
+          >
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Try Again
+          </Button>
+        </StatusScreen>
+      );
+  }
 }
 
 export default function RootApp() {
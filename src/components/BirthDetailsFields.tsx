@@ -0,0 +1,212 @@
+import type { BirthDetailsForm } from '../hooks/useBirthDetailsForm';
+import { PlaceAutocomplete } from './PlaceAutocomplete';
+import { FieldErrorMessage } from './FieldErrorMessage';
+import { describeMoment } from '@/lib/birthMoment';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { cn } from '@/lib/utils';
+import { Calendar, Clock, MapPin, Compass, Globe, AlertTriangle } from 'lucide-react';
+
+interface Props {
+  form: BirthDetailsForm;
+}
+
+/**
+ * BirthDetailsFields
+ *
+ * Date, time, place, coordinates and timezone inputs with inline errors and
+ * the chooser for ambiguous or skipped clock times. Used by onboarding and
+ * profile editing; the surrounding form owns submission.
+ */
+export function BirthDetailsFields({ form }: Props) {
+  const {
+    formData,
+    fieldErrors,
+    pickedPlace,
+    unresolvedMoment,
+    chosenMoment,
+    preview,
+    updateFields,
+    typePlace,
+    selectPlace,
+    chooseMoment,
+    errorProps,
+  } = form;
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Date of Birth */}
+        <div className="space-y-2">
+          <Label htmlFor="dateOfBirth" className="text-foreground/90 flex items-center gap-2">
+            <Calendar className="w-4 h-4 text-mystic-gold" />
+            Date of Birth <span className="text-mystic-gold">*</span>
+          </Label>
+          <Input
+            id="dateOfBirth"
+            type="date"
+            value={formData.dateOfBirth}
+            onChange={(e) => updateFields({ dateOfBirth: e.target.value })}
+            required
+            {...errorProps('dateOfBirth')}
+            className="mystic-input h-12 text-foreground"
+          />
+          <FieldErrorMessage id="dateOfBirth-error" error={fieldErrors.dateOfBirth} />
+        </div>
+
+        {/* Time of Birth */}
+        <div className="space-y-2">
+          <Label htmlFor="timeOfBirth" className="text-foreground/90 flex items-center gap-2">
+            <Clock className="w-4 h-4 text-mystic-gold" />
+            Time of Birth <span className="text-mystic-gold">*</span>
+          </Label>
+          <Input
+            id="timeOfBirth"
+            type="time"
+            value={formData.timeOfBirth}
+            onChange={(e) => updateFields({ timeOfBirth: e.target.value })}
+            required
+            {...errorProps('timeOfBirth')}
+            className="mystic-input h-12 text-foreground"
+          />
+          {fieldErrors.timeOfBirth ? (
+            <FieldErrorMessage id="timeOfBirth-error" error={fieldErrors.timeOfBirth} />
+          ) : (
+            <p className="text-xs text-muted-foreground">Use 24-hour format (HH:mm)</p>
+          )}
+        </div>
+      </div>
+
+      {/* Place of Birth */}
+      <div className="space-y-2">
+        <Label htmlFor="place" className="text-foreground/90 flex items-center gap-2">
+          <MapPin className="w-4 h-4 text-mystic-gold" />
+          Place of Birth <span className="text-mystic-gold">*</span>
+        </Label>
+        <PlaceAutocomplete
+          id="place"
+          value={formData.place}
+          onChange={typePlace}
+          onSelect={selectPlace}
+          placeholder="Start typing a city, e.g. Pune"
+          required
+          {...errorProps('place')}
+          className="mystic-input h-12 text-foreground placeholder:text-muted-foreground/50"
+        />
+        <FieldErrorMessage id="place-error" error={fieldErrors.place} />
+        {pickedPlace ? (
+          <p className="text-xs text-muted-foreground">
+            Coordinates and timezone filled from {pickedPlace.name}. You can still adjust them below.
+          </p>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Pick a suggestion to fill coordinates and timezone, or enter them yourself below.
+          </p>
+        )}
+      </div>
+
+      <Separator className="bg-mystic-gold/20" />
+
+      {/* Optional Coordinates */}
+      <div className="space-y-4">
+        <Label className="text-foreground/90 flex items-center gap-2">
+          <Compass className="w-4 h-4 text-mystic-gold" />
+          Coordinates (Optional)
+        </Label>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="latitude" className="text-sm text-muted-foreground">Latitude</Label>
+            <Input
+              id="latitude"
+              type="number"
+              step="0.0001"
+              value={formData.latitude || ''}
+              onChange={(e) => updateFields({ latitude: e.target.value ? parseFloat(e.target.value) : undefined })}
+              placeholder="e.g., 40.7128"
+              {...errorProps('latitude')}
+              className="mystic-input h-10 text-foreground placeholder:text-muted-foreground/50"
+            />
+            <FieldErrorMessage id="latitude-error" error={fieldErrors.latitude} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="longitude" className="text-sm text-muted-foreground">Longitude</Label>
+            <Input
+              id="longitude"
+              type="number"
+              step="0.0001"
+              value={formData.longitude || ''}
+              onChange={(e) => updateFields({ longitude: e.target.value ? parseFloat(e.target.value) : undefined })}
+              placeholder="e.g., -74.0060"
+              {...errorProps('longitude')}
+              className="mystic-input h-10 text-foreground placeholder:text-muted-foreground/50"
+            />
+            <FieldErrorMessage id="longitude-error" error={fieldErrors.longitude} />
+          </div>
+        </div>
+        {/* Timezone Field */}
+        <div className="space-y-2 pt-2">
+          <Label htmlFor="timezone" className="text-sm text-muted-foreground flex items-center gap-2">
+            <Globe className="w-4 h-4 text-mystic-gold" />
+            Timezone
+          </Label>
+          <Input
+            id="timezone"
+            type="text"
+            value={formData.timezone || ''}
+            onChange={(e) => updateFields({ timezone: e.target.value })}
+            placeholder="e.g., America/New_York or UTC+5:30"
+            {...errorProps('timezone')}
+            className="mystic-input h-10 text-foreground placeholder:text-muted-foreground/50"
+          />
+          {fieldErrors.timezone ? (
+            <FieldErrorMessage id="timezone-error" error={fieldErrors.timezone} />
+          ) : preview?.kind === 'exact' ? (
+            <p className="text-xs text-muted-foreground">
+              At your time of birth this zone was UTC{preview.moment.utcOffset}
+              {preview.moment.isDst && ' (daylight saving time)'}.
+            </p>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              Filled from your birth place. Use IANA format (e.g., Asia/Kolkata) or UTC offset.
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Ambiguous or skipped clock time */}
+      {unresolvedMoment && (
+        <div className="p-4 rounded-lg bg-amber-500/10 border border-amber-500/30 space-y-3">
+          <p className="text-sm text-amber-200 flex items-start gap-2">
+            <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+            {unresolvedMoment.kind === 'ambiguous'
+              ? `Clocks were turned back that night, so ${formData.timeOfBirth} happened twice. Which one was it?`
+              : `Clocks were turned forward that night, so ${formData.timeOfBirth} never appeared on the clock. Which time was meant?`}
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {unresolvedMoment.candidates.map((candidate, i) => (
+              <Button
+                key={candidate.utc}
+                type="button"
+                variant="outline"
+                onClick={() => chooseMoment(candidate)}
+                aria-pressed={chosenMoment?.utc === candidate.utc}
+                className={cn(
+                  'h-auto py-2 flex-col items-start text-left',
+                  chosenMoment?.utc === candidate.utc && 'border-mystic-gold bg-mystic-gold/15'
+                )}
+              >
+                <span className="text-sm">
+                  {unresolvedMoment.kind === 'ambiguous' ? (i === 0 ? 'First' : 'Second') : (i === 0 ? 'Earlier' : 'Later')}
+                  {' '}&middot; {describeMoment(candidate)}
+                </span>
+                <span className="text-xs text-muted-foreground">{candidate.utc.slice(0, 16).replace('T', ' ')} UTC</span>
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,430 @@
+import { useState, type ReactNode } from 'react';
+import {
+  SIGNS,
+  formatDegree,
+  normalizeLongitude,
+  planetInfo,
+  type BirthChart,
+  type PlanetPosition,
+} from '@/lib/birthChart';
+import { cn } from '@/lib/utils';
+
+export type ChartStyle = 'north' | 'south' | 'western';
+
+interface Props {
+  chart: BirthChart;
+  style: ChartStyle;
+  /** Transiting planets drawn over the chart, housed in it */
+  transits?: PlanetPosition[];
+  /** Shown in the middle of the South Indian grid */
+  title?: string;
+  className?: string;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface HoveredPlanet extends Point {
+  position: PlanetPosition;
+  transit: boolean;
+}
+
+/** A planet as drawn: natal, or transiting over the natal chart */
+interface ChartPlanet {
+  position: PlanetPosition;
+  transit: boolean;
+}
+
+type ShowTooltip = (hovered: HoveredPlanet | null) => void;
+
+const SIZE = 400;
+const LINE_HEIGHT = 15;
+
+/** Label anchor of each North Indian house (index 0 = house 1), counter-clockwise from the top diamond */
+const NORTH_HOUSE_CENTERS: Point[] = [
+  { x: 200, y: 100 }, { x: 100, y: 36 }, { x: 36, y: 100 }, { x: 100, y: 200 },
+  { x: 36, y: 300 }, { x: 100, y: 364 }, { x: 200, y: 300 }, { x: 300, y: 364 },
+  { x: 364, y: 300 }, { x: 300, y: 200 }, { x: 364, y: 100 }, { x: 300, y: 36 },
+];
+
+/** Where each North Indian house shows its sign number, next to its inner corner */
+const NORTH_SIGN_LABELS: Point[] = [
+  { x: 200, y: 182 }, { x: 100, y: 84 }, { x: 84, y: 104 }, { x: 182, y: 204 },
+  { x: 84, y: 304 }, { x: 100, y: 324 }, { x: 200, y: 228 }, { x: 300, y: 324 },
+  { x: 316, y: 304 }, { x: 218, y: 204 }, { x: 316, y: 104 }, { x: 300, y: 84 },
+];
+
+/** South Indian grid cell (column, row) of each sign; the signs stay put and Pisces sits top-left */
+const SOUTH_SIGN_CELLS: [number, number][] = [
+  [1, 0], [2, 0], [3, 0], [3, 1], [3, 2], [3, 3],
+  [2, 3], [1, 3], [0, 3], [0, 2], [0, 1], [0, 0],
+];
+
+const isNode = (position: PlanetPosition) => position.planet === 'Rahu' || position.planet === 'Ketu';
+
+/**
+ * ChartDiagram
+ *
+ * SVG birth chart in one of three layouts:
+ * - North Indian: fixed houses in a diamond, house 1 at the top, each
+ *   house numbered with its sign
+ * - South Indian: fixed signs in a 4×4 grid, the ascendant's sign marked
+ * - Western: a wheel with the ascendant on the left and houses running
+ *   counter-clockwise (drawn from the chart's sidereal longitudes)
+ *
+ * Planets show a tooltip with their exact placement on hover or focus.
+ * Transits, when given, are drawn in blue among the natal planets (on an
+ * inner ring of the wheel).
+ */
+export function ChartDiagram({ chart, style, transits = [], title, className }: Props) {
+  const [hovered, setHovered] = useState<HoveredPlanet | null>(null);
+  const planets: ChartPlanet[] = [
+    ...chart.planets.map((position) => ({ position, transit: false })),
+    ...transits.map((position) => ({ position, transit: true })),
+  ];
+
+  return (
+    <div className={cn('relative w-full max-w-md mx-auto', className)} onMouseLeave={() => setHovered(null)}>
+      <svg
+        viewBox={`0 0 ${SIZE} ${SIZE}`}
+        className="w-full h-auto font-body select-none"
+        role="img"
+        aria-label={`Birth chart, ${style === 'north' ? 'North Indian' : style === 'south' ? 'South Indian' : 'Western'} style`}
+      >
+        {style === 'north' && renderNorth(chart, planets, setHovered)}
+        {style === 'south' && renderSouth(chart, planets, title, setHovered)}
+        {style === 'western' && renderWestern(chart, planets, setHovered)}
+      </svg>
+
+      {hovered && (
+        <div
+          className="absolute z-10 pointer-events-none -translate-x-1/2 -translate-y-full glass-card rounded-lg px-3 py-2 text-xs text-foreground whitespace-nowrap shadow-lg"
+          style={{ left: `${(hovered.x / SIZE) * 100}%`, top: `${((hovered.y - 10) / SIZE) * 100}%` }}
+        >
+          <PlanetTooltip position={hovered.position} transit={hovered.transit} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PlanetTooltip({ position, transit }: { position: PlanetPosition; transit: boolean }) {
+  const sign = SIGNS[position.sign];
+  return (
+    <>
+      <p className={cn('font-semibold', transit ? 'text-mystic-blue-light' : 'text-mystic-gold')}>
+        {transit ? `Transiting ${position.planet}` : position.planet}
+        {position.retrograde && !isNode(position) && <span className="text-mystic-rose-light"> · Retrograde</span>}
+      </p>
+      <p>
+        {formatDegree(position.degree)} {sign.name} ({sign.sanskrit})
+      </p>
+      <p className="text-muted-foreground">
+        House {position.house} · {position.nakshatra.name} pada {position.nakshatra.pada} (lord {position.nakshatra.lord})
+      </p>
+    </>
+  );
+}
+
+// ============================================================================
+// Shared pieces
+// ============================================================================
+
+function planetLabel(position: PlanetPosition, withDegree: boolean): string {
+  const retrograde = position.retrograde && !isNode(position) ? '℞' : '';
+  const label = `${planetInfo(position.planet).abbreviation}${retrograde}`;
+  return withDegree ? `${label} ${Math.floor(position.degree)}°` : label;
+}
+
+/**
+ * Stack labels around a center; more than four go in two columns
+ */
+function stackPoints(count: number, center: Point, columnGap = 46): Point[] {
+  const columns = count > 4 ? 2 : 1;
+  const rows = Math.ceil(count / columns);
+  return Array.from({ length: count }, (_, index) => {
+    const column = columns === 1 ? 0 : index % 2;
+    const row = columns === 1 ? index : Math.floor(index / 2);
+    return {
+      x: center.x + (columns === 1 ? 0 : (column - 0.5) * columnGap),
+      y: center.y + (row - (rows - 1) / 2) * LINE_HEIGHT + 4,
+    };
+  });
+}
+
+function PlanetText({
+  planet: { position, transit },
+  at,
+  onHover,
+  compact = false,
+}: {
+  planet: ChartPlanet;
+  at: Point;
+  onHover: ShowTooltip;
+  /** Name only, where space is tight */
+  compact?: boolean;
+}) {
+  const show = () => onHover({ position, transit, x: at.x, y: at.y - 8 });
+  return (
+    <text
+      x={at.x}
+      y={at.y}
+      textAnchor="middle"
+      tabIndex={0}
+      onMouseEnter={show}
+      onFocus={show}
+      onBlur={() => onHover(null)}
+      className={cn(
+        'text-[13px] cursor-default outline-none focus:underline',
+        transit ? 'fill-mystic-blue-light' : position.retrograde && !isNode(position) ? 'fill-mystic-rose-light' : 'fill-foreground'
+      )}
+    >
+      <title>{`${transit ? 'Transiting ' : ''}${position.planet}: ${formatDegree(position.degree)} ${SIGNS[position.sign].name}`}</title>
+      {planetLabel(position, !compact)}
+    </text>
+  );
+}
+
+/**
+ * The ascendant marker plus the planets in one house or sign
+ */
+function renderGroup(
+  key: string,
+  center: Point,
+  planets: ChartPlanet[],
+  withAscendant: boolean,
+  onHover: ShowTooltip
+): ReactNode {
+  const points = stackPoints(planets.length + (withAscendant ? 1 : 0), center);
+  return (
+    <g key={key}>
+      {withAscendant && (
+        <text x={points[0].x} y={points[0].y} textAnchor="middle" className="text-[13px] fill-mystic-gold font-semibold">
+          Asc
+        </text>
+      )}
+      {planets.map((planet, index) => (
+        <PlanetText
+          key={planetKey(planet)}
+          planet={planet}
+          at={points[index + (withAscendant ? 1 : 0)]}
+          onHover={onHover}
+        />
+      ))}
+    </g>
+  );
+}
+
+function planetsInSign(planets: ChartPlanet[], sign: number): ChartPlanet[] {
+  return planets.filter(({ position }) => position.sign === sign);
+}
+
+function planetKey({ position, transit }: ChartPlanet): string {
+  return `${transit ? 'transit' : 'natal'}-${position.planet}`;
+}
+
+// ============================================================================
+// North Indian
+// ============================================================================
+
+function renderNorth(chart: BirthChart, planets: ChartPlanet[], onHover: ShowTooltip): ReactNode {
+  const lines = 'stroke-mystic-gold/50';
+  return (
+    <>
+      <rect x={1} y={1} width={SIZE - 2} height={SIZE - 2} fill="none" strokeWidth={1.5} className={lines} />
+      <path d={`M0 0L${SIZE} ${SIZE}M${SIZE} 0L0 ${SIZE}`} strokeWidth={1} className={lines} />
+      <path d={`M200 0L${SIZE} 200L200 ${SIZE}L0 200Z`} fill="none" strokeWidth={1} className={lines} />
+
+      {NORTH_HOUSE_CENTERS.map((center, index) => {
+        // Houses are whole signs counted from the ascendant's sign
+        const sign = (chart.ascendant.sign + index) % 12;
+        const label = NORTH_SIGN_LABELS[index];
+        return (
+          <g key={index}>
+            <text x={label.x} y={label.y} textAnchor="middle" className="text-[11px] fill-muted-foreground">
+              {sign + 1}
+            </text>
+            {renderGroup(`house-${index}`, center, planetsInSign(planets, sign), index === 0, onHover)}
+          </g>
+        );
+      })}
+    </>
+  );
+}
+
+// ============================================================================
+// South Indian
+// ============================================================================
+
+function renderSouth(chart: BirthChart, planets: ChartPlanet[], title: string | undefined, onHover: ShowTooltip): ReactNode {
+  const cell = SIZE / 4;
+  return (
+    <>
+      {SOUTH_SIGN_CELLS.map(([column, row], sign) => {
+        const x = column * cell;
+        const y = row * cell;
+        const isAscendant = sign === chart.ascendant.sign;
+        return (
+          <g key={sign}>
+            <rect
+              x={x + 0.5}
+              y={y + 0.5}
+              width={cell - 1}
+              height={cell - 1}
+              fill="none"
+              strokeWidth={1}
+              className={isAscendant ? 'stroke-mystic-gold' : 'stroke-mystic-gold/40'}
+            />
+            {isAscendant && <path d={`M${x} ${y + 24}L${x + 24} ${y}`} strokeWidth={1.5} className="stroke-mystic-gold" />}
+            <text x={x + cell - 6} y={y + 14} textAnchor="end" className="text-[10px] fill-muted-foreground">
+              {SIGNS[sign].abbreviation}
+            </text>
+            {renderGroup(`sign-${sign}`, { x: x + cell / 2, y: y + cell / 2 + 4 }, planetsInSign(planets, sign), isAscendant, onHover)}
+          </g>
+        );
+      })}
+      <text x={SIZE / 2} y={SIZE / 2 - 4} textAnchor="middle" className="text-lg font-display fill-mystic-gold">
+        {title ?? 'Rasi'}
+      </text>
+      {chart.ayanamsa && (
+        <text x={SIZE / 2} y={SIZE / 2 + 16} textAnchor="middle" className="text-[11px] fill-muted-foreground capitalize">
+          {chart.ayanamsa} ayanamsa
+        </text>
+      )}
+    </>
+  );
+}
+
+// ============================================================================
+// Western Wheel
+// ============================================================================
+
+const WHEEL = { outer: 192, signs: 162, planets: 138, transits: 96, houses: 62, center: SIZE / 2 };
+const MIN_LABEL_GAP = 10;
+
+/**
+ * Radius for each planet on a ring, nudging crowded planets inward so
+ * their labels don't overlap
+ */
+function placeOnRing(planets: ChartPlanet[], radius: number, step: number, maxLevel: number) {
+  const placed: { planet: ChartPlanet; radius: number }[] = [];
+  [...planets]
+    .sort((a, b) => a.position.longitude - b.position.longitude)
+    .forEach((planet) => {
+      let level = 0;
+      while (
+        placed.some(
+          (other) =>
+            other.radius === radius - level * step &&
+            Math.abs(normalizeLongitude(other.planet.position.longitude - planet.position.longitude + 180) - 180) <
+              MIN_LABEL_GAP
+        )
+      ) {
+        level++;
+      }
+      placed.push({ planet, radius: radius - Math.min(level, maxLevel) * step });
+    });
+  return placed;
+}
+
+function renderWestern(chart: BirthChart, planets: ChartPlanet[], onHover: ShowTooltip): ReactNode {
+  const ascendant = chart.ascendant.longitude;
+  // Ascendant on the left, longitudes increasing counter-clockwise
+  const pointAt = (longitude: number, radius: number): Point => {
+    const angle = ((180 + longitude - ascendant) * Math.PI) / 180;
+    return { x: WHEEL.center + radius * Math.cos(angle), y: WHEEL.center - radius * Math.sin(angle) };
+  };
+  const spoke = (longitude: number, from: number, to: number) => {
+    const a = pointAt(longitude, from);
+    const b = pointAt(longitude, to);
+    return `M${a.x.toFixed(1)} ${a.y.toFixed(1)}L${b.x.toFixed(1)} ${b.y.toFixed(1)}`;
+  };
+
+  // Transits take the inner ring, leaving the natal planets less room to spread inward
+  const natal = planets.filter((planet) => !planet.transit);
+  const transits = planets.filter((planet) => planet.transit);
+  const placed = [
+    ...placeOnRing(natal, WHEEL.planets, 20, transits.length > 0 ? 1 : 3),
+    ...placeOnRing(transits, WHEEL.transits, 16, 1),
+  ];
+
+  return (
+    <>
+      <circle cx={WHEEL.center} cy={WHEEL.center} r={WHEEL.outer} fill="none" strokeWidth={1.5} className="stroke-mystic-gold/60" />
+      <circle cx={WHEEL.center} cy={WHEEL.center} r={WHEEL.signs} fill="none" strokeWidth={1} className="stroke-mystic-gold/40" />
+      <circle cx={WHEEL.center} cy={WHEEL.center} r={WHEEL.houses} fill="none" strokeWidth={1} className="stroke-mystic-gold/30" />
+
+      {SIGNS.map((sign, index) => {
+        const label = pointAt(index * 30 + 15, (WHEEL.outer + WHEEL.signs) / 2);
+        return (
+          <g key={sign.name}>
+            <path d={spoke(index * 30, WHEEL.signs, WHEEL.outer)} strokeWidth={1} className="stroke-mystic-gold/40" />
+            <text x={label.x} y={label.y + 4} textAnchor="middle" className="text-[11px] fill-mystic-gold/80">
+              {sign.abbreviation}
+            </text>
+          </g>
+        );
+      })}
+
+      {chart.houses.map((cusp, index) => {
+        const next = chart.houses[(index + 1) % 12].longitude;
+        const middle = cusp.longitude + normalizeLongitude(next - cusp.longitude) / 2;
+        const label = pointAt(middle, WHEEL.houses - 14);
+        return (
+          <g key={cusp.house}>
+            <path
+              d={spoke(cusp.longitude, index === 0 ? 0 : WHEEL.houses, WHEEL.signs)}
+              strokeWidth={index % 3 === 0 ? 1.5 : 0.75}
+              className={index === 0 ? 'stroke-mystic-gold' : 'stroke-mystic-gold/30'}
+            />
+            <text x={label.x} y={label.y + 4} textAnchor="middle" className="text-[10px] fill-muted-foreground">
+              {cusp.house}
+            </text>
+          </g>
+        );
+      })}
+
+      {(() => {
+        const label = pointAt(ascendant, WHEEL.outer - 40);
+        return (
+          <text x={label.x + 4} y={label.y - 6} className="text-[12px] fill-mystic-gold font-semibold">
+            Asc
+          </text>
+        );
+      })()}
+
+      {transits.length > 0 && (
+        <circle
+          cx={WHEEL.center}
+          cy={WHEEL.center}
+          r={WHEEL.transits + 14}
+          fill="none"
+          strokeWidth={0.75}
+          strokeDasharray="3 4"
+          className="stroke-mystic-blue-light/40"
+        />
+      )}
+
+      {placed.map(({ planet, radius }) => {
+        const { position, transit } = planet;
+        const at = pointAt(position.longitude, radius);
+        return (
+          <g key={planetKey(planet)}>
+            {transit ? (
+              <path
+                d={spoke(position.longitude, WHEEL.houses, WHEEL.houses + 6)}
+                strokeWidth={1.5}
+                className="stroke-mystic-blue-light"
+              />
+            ) : (
+              <path d={spoke(position.longitude, WHEEL.signs - 6, WHEEL.signs)} strokeWidth={1.5} className="stroke-mystic-gold" />
+            )}
+            <PlanetText planet={planet} at={{ x: at.x, y: at.y + 4 }} onHover={onHover} compact />
+          </g>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { ChartDiagram, type ChartStyle } from './ChartDiagram';
+import { DashaTimeline } from './DashaTimeline';
+import { TransitView } from './TransitView';
+import { SIGNS, formatDegree, type BirthChart } from '@/lib/birthChart';
+import { dashaQuestion, type DashaPeriod } from '@/lib/dasha';
+import { VARGAS, vargaChart, vargaInfo, type VargaId } from '@/lib/vargas';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+import { Orbit, X } from 'lucide-react';
+
+interface Props {
+  /** Null while the chart is still being calculated or couldn't be read */
+  chart: BirthChart | null;
+  /** Null when the birth instant isn't known */
+  dashas?: DashaPeriod[] | null;
+  name?: string;
+  /** Send a question about the chart to the chat */
+  onAsk?: (question: string) => void;
+  onClose: () => void;
+}
+
+type View = 'chart' | 'dasha' | 'transits';
+
+const VIEWS: { value: View; label: string }[] = [
+  { value: 'chart', label: 'Chart' },
+  { value: 'dasha', label: 'Dasha' },
+  { value: 'transits', label: 'Transits' },
+];
+
+const STYLES: { value: ChartStyle; label: string }[] = [
+  { value: 'north', label: 'North Indian' },
+  { value: 'south', label: 'South Indian' },
+  { value: 'western', label: 'Western' },
+];
+
+/**
+ * ChartPanel
+ *
+ * Slide-over showing the user's birth chart, switchable between North
+ * Indian, South Indian and Western layouts and between the divisional
+ * charts, with a table of the placements below it; the Vimshottari
+ * dasha timeline; and transits over the chart for any date.
+ */
+export function ChartPanel({ chart, dashas, name, onAsk, onClose }: Props) {
+  const [view, setView] = useState<View>('chart');
+  const [style, setStyle] = useState<ChartStyle>('north');
+  const [varga, setVarga] = useState<VargaId>('D1');
+
+  const shown = chart && vargaChart(chart, varga);
+  const { name: vargaName, signifies } = vargaInfo(varga);
+  // Degrees and nakshatras are only meaningful in the birth chart itself
+  const natal = varga === 'D1';
+
+  return (
+    <aside className="glass-card border-l border-mystic-gold/20 w-[28rem] max-w-[95vw] h-full flex flex-col">
+      <div className="px-4 py-4 flex items-center justify-between border-b border-mystic-gold/20 shrink-0">
+        <h2 className="font-display text-lg text-gradient-gold flex items-center gap-2">
+          <Orbit className="w-5 h-5 text-mystic-gold" />
+          {name ? `${name}'s Chart` : 'Birth Chart'}
+        </h2>
+        <Button variant="ghost" size="icon" onClick={onClose} className="text-muted-foreground hover:text-mystic-gold">
+          <X className="w-5 h-5" />
+        </Button>
+      </div>
+
+      {shown ? (
+        <ScrollArea className="flex-1">
+          <div className="px-4 py-4 space-y-4">
+            <div className="flex gap-4 border-b border-mystic-gold/15">
+              {VIEWS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setView(option.value)}
+                  className={cn(
+                    '-mb-px pb-2 text-sm font-display border-b-2 transition-colors',
+                    view === option.value
+                      ? 'border-mystic-gold text-mystic-gold'
+                      : 'border-transparent text-muted-foreground hover:text-foreground'
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {view !== 'dasha' && (
+              <div className="flex gap-1 p-1 rounded-lg bg-cosmic-900/40 border border-mystic-gold/15">
+                {STYLES.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => setStyle(option.value)}
+                    className={cn(
+                      'flex-1 px-2 py-1.5 rounded-md text-sm font-body transition-colors',
+                      style === option.value
+                        ? 'bg-mystic-gold/20 text-mystic-gold'
+                        : 'text-muted-foreground hover:text-foreground'
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {view === 'chart' && (
+              <>
+                <div className="grid grid-cols-6 gap-1">
+                  {VARGAS.map((option) => (
+                    <button
+                      key={option.id}
+                      type="button"
+                      onClick={() => setVarga(option.id)}
+                      title={`${option.name}: ${option.signifies}`}
+                      className={cn(
+                        'px-1 py-1 rounded-md text-xs font-body border transition-colors',
+                        varga === option.id
+                          ? 'bg-mystic-gold/20 border-mystic-gold/40 text-mystic-gold'
+                          : 'border-mystic-gold/10 text-muted-foreground hover:text-foreground'
+                      )}
+                    >
+                      {option.id}
+                    </button>
+                  ))}
+                </div>
+
+                <p className="text-xs text-muted-foreground text-center font-body">
+                  <span className="text-mystic-gold">{vargaName} ({varga})</span> · {signifies}
+                </p>
+
+                <ChartDiagram chart={shown} style={style} title={natal ? undefined : `${vargaName} ${varga}`} />
+
+                <p className="text-sm text-muted-foreground text-center font-body">
+                  {natal ? (
+                    <>
+                      Ascendant {formatDegree(shown.ascendant.degree)} {SIGNS[shown.ascendant.sign].name} ·{' '}
+                      {shown.ascendant.nakshatra.name} pada {shown.ascendant.nakshatra.pada}
+                    </>
+                  ) : (
+                    <>Ascendant {SIGNS[shown.ascendant.sign].name}</>
+                  )}
+                  {shown.ayanamsa && <span className="capitalize"> · {shown.ayanamsa}</span>}
+                </p>
+
+                <table className="w-full text-sm font-body">
+                  <thead>
+                    <tr className="text-left text-mystic-gold border-b border-mystic-gold/20">
+                      <th className="py-1.5 pr-2 font-semibold">Planet</th>
+                      <th className="py-1.5 pr-2 font-semibold">{natal ? 'Position' : 'Sign'}</th>
+                      {natal && <th className="py-1.5 pr-2 font-semibold">Nakshatra</th>}
+                      <th className="py-1.5 font-semibold text-right">House</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {shown.planets.map((position) => (
+                      <tr key={position.planet} className="border-b border-mystic-gold/10 last:border-b-0">
+                        <td className="py-1.5 pr-2 text-foreground">
+                          {position.planet}
+                          {position.retrograde && position.planet !== 'Rahu' && position.planet !== 'Ketu' && (
+                            <span className="ml-1 text-mystic-rose-light" title="Retrograde">℞</span>
+                          )}
+                        </td>
+                        <td className="py-1.5 pr-2 text-muted-foreground">
+                          {natal && `${formatDegree(position.degree)} `}
+                          {SIGNS[position.sign].name}
+                        </td>
+                        {natal && (
+                          <td className="py-1.5 pr-2 text-muted-foreground">
+                            {position.nakshatra.name} {position.nakshatra.pada}
+                          </td>
+                        )}
+                        <td className="py-1.5 text-right text-muted-foreground">{position.house}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
+
+            {view === 'transits' && chart && <TransitView natal={chart} style={style} onAsk={onAsk} />}
+
+            {view === 'dasha' &&
+              (dashas ? (
+                <DashaTimeline periods={dashas} onAsk={onAsk && ((period) => onAsk(dashaQuestion(period)))} />
+              ) : (
+                <p className="text-sm text-muted-foreground text-center italic font-body py-8">
+                  Dashas need your exact time of birth. Add it to your birth details to see them.
+                </p>
+              ))}
+          </div>
+        </ScrollArea>
+      ) : (
+        <div className="flex-1 flex items-center justify-center px-6">
+          <p className="text-sm text-muted-foreground text-center italic font-body">
+            Your birth chart isn't available yet. It appears here once your astrological profile has been calculated.
+          </p>
+        </div>
+      )}
+    </aside>
+  );
+}
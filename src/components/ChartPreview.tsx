@@ -0,0 +1,58 @@
+import { useMemo } from 'react';
+import { ChartDiagram } from './ChartDiagram';
+import { computeBirthChart } from '@/lib/ephemeris';
+import { SIGNS, formatDegree } from '@/lib/birthChart';
+import { cn } from '@/lib/utils';
+import { Orbit } from 'lucide-react';
+
+interface Props {
+  /** Resolved birth moment, ISO 8601 UTC */
+  utc: string;
+  latitude: number;
+  longitude: number;
+  className?: string;
+}
+
+/**
+ * ChartPreview
+ *
+ * Instant birth chart drawn on the device while the form is being filled
+ * in, so a mistyped time or place shows up before submitting. The stored
+ * chart is still calculated by the backend.
+ */
+export function ChartPreview({ utc, latitude, longitude, className }: Props) {
+  const chart = useMemo(() => {
+    try {
+      return computeBirthChart({ instant: utc, latitude, longitude });
+    } catch {
+      return null;
+    }
+  }, [utc, latitude, longitude]);
+
+  if (!chart) return null;
+
+  const moon = chart.planets.find((position) => position.planet === 'Moon');
+
+  return (
+    <div className={cn('rounded-lg border border-mystic-gold/20 bg-cosmic-900/30 p-4 space-y-3', className)}>
+      <h3 className="font-display text-sm text-mystic-gold flex items-center gap-2">
+        <Orbit className="w-4 h-4" />
+        Chart Preview
+      </h3>
+
+      <ChartDiagram chart={chart} style="north" className="max-w-xs mx-auto" />
+
+      <p className="text-sm text-muted-foreground text-center font-body">
+        {SIGNS[chart.ascendant.sign].name} rising ({formatDegree(chart.ascendant.degree)})
+        {moon && (
+          <>
+            {' '}· Moon in {SIGNS[moon.sign].name}, {moon.nakshatra.name} pada {moon.nakshatra.pada}
+          </>
+        )}
+      </p>
+      <p className="text-xs text-muted-foreground/70 text-center italic font-body">
+        Approximate, calculated on this device (Lahiri ayanamsa). Your full chart is prepared after you submit.
+      </p>
+    </div>
+  );
+}
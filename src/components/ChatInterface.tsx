@@ -1,37 +1,128 @@
-import { useState, useRef, useEffect } from 'react';
-import { AstroShivaAPI, UserProfile } from '../services/astroApi';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import {
+  AstroShivaAPI,
+  NetworkError,
+  TimeoutError,
+  type ApiError,
+  type ChatCitation,
+  type ChatMessage,
+  type ChatUsage,
+  type UserProfile,
+} from '../services/httpApi';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { SessionHistoryPanel } from './SessionHistoryPanel';
+import { MarkdownContent } from './MarkdownContent';
+import { ChartPanel } from './ChartPanel';
+import { parseBirthChart } from '@/lib/birthChart';
+import { chartDasha } from '@/lib/dasha';
+import { resolveBirthMoment } from '@/lib/birthMoment';
+import { useChatOutbox, type DeliveryResult } from '../hooks/useChatOutbox';
+import { createDraftId, isInConversation, type OutboxConversation, type OutboxEntry } from '../services/chatOutbox';
+import { TranscriptStore, reconcileTranscript, type StoredMessage } from '../services/transcriptStore';
 import { 
   Send, 
   Sparkles, 
   Moon, 
   User, 
-  MoreHorizontal,
-  Loader2
+  History,
+  SquarePen,
+  UserRound,
+  Loader2,
+  Square,
+  Compass,
+  ExternalLink,
+  Clock,
+  AlertCircle,
+  RotateCcw,
+  X,
+  WifiOff,
+  Copy,
+  Check,
+  RefreshCw,
+  Pencil,
+  Trash2,
+  Orbit
 } from 'lucide-react';
 
 interface Props {
   api: AstroShivaAPI;
   userContext?: UserProfile | null;
+  /** Open the profile screen to view or correct birth details */
+  onOpenProfile?: () => void;
 }
 
 interface Message {
+  /** Server-assigned id, once the stream reports it */
+  id?: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp?: Date;
+  citations?: ChatCitation[];
+  usage?: ChatUsage;
+  /** Shown on this device only (welcome, error notices); never sent as history */
+  local?: boolean;
 }
 
-export function ChatInterface({ api, userContext }: Props) {
+/** idle → waiting (request open) → streaming (tokens arriving); fallback = blocking /chat/send */
+type ReplyStatus = 'idle' | 'waiting' | 'streaming' | 'fallback';
+
+interface StreamOutcome {
+  received: boolean;
+  error: ApiError | null;
+}
+
+/** Outcome of the blocking fallback; `offline` when it never reached the server */
+type BlockingOutcome = 'answered' | 'offline';
+
+/** Saves while tokens stream in are batched; other changes save right away */
+const STREAMING_SAVE_DELAY = 1000;
+
+function toStoredMessage({ timestamp, ...msg }: Message): StoredMessage {
+  return { ...msg, timestamp: timestamp?.getTime() };
+}
+
+function fromStoredMessage({ timestamp, ...msg }: StoredMessage): Message {
+  return { ...msg, timestamp: timestamp !== undefined ? new Date(timestamp) : undefined };
+}
+
+/** The turns a new session needs to pick up a conversation; undefined when there are none */
+function toHistory(conversation: Message[]): ChatMessage[] | undefined {
+  const history = conversation
+    .filter(msg => !msg.local)
+    .map(({ role, content, timestamp }) => ({ role, content, timestamp: timestamp?.getTime() }));
+  return history.length > 0 ? history : undefined;
+}
+
+/**
+ * UTC instant of birth from a profile: the stored instant, or else resolved
+ * from the local date, time and zone (the earlier reading when ambiguous)
+ */
+function birthInstantOf(profile: UserProfile | null | undefined): Date | null {
+  if (profile?.birthInstant) return new Date(profile.birthInstant);
+  if (!profile?.dateOfBirth || !profile.timeOfBirth || !profile.timezone) return null;
+  try {
+    const resolution = resolveBirthMoment({
+      date: profile.dateOfBirth.slice(0, 10),
+      time: profile.timeOfBirth,
+      timeZone: profile.timezone,
+    });
+    return new Date(resolution.kind === 'exact' ? resolution.moment.utc : resolution.candidates[0].utc);
+  } catch {
+    return null;
+  }
+}
+
+export function ChatInterface({ api, userContext, onOpenProfile }: Props) {
   // Generate personalized welcome message based on user's astrological data
   const generateWelcomeMessage = (): string => {
-    if (!userContext?.astroData) {
+    if (!userContext?.astroProfile) {
       return 'Welcome, seeker. I am your Vedic astrology guide. Ask me about your planetary positions, doshas, career path, relationships, or any aspect of your cosmic journey.';
     }
 
-    const { summary, ascendant, moonSign } = userContext.astroData;
+    const { astroSummary: summary, ascendant, moonSign } = userContext.astroProfile;
     const name = userContext.name || 'Seeker';
     
     return `Welcome, ${name}! 🌟 I am your Vedic astrology guide. I've analyzed your birth chart and see you have ${ascendant || 'a powerful'} ascendant with ${moonSign || 'significant'} lunar influences. ${summary ? `Your chart reveals: ${summary}` : ''}
@@ -39,17 +130,32 @@ export function ChatInterface({ api, userContext }: Props) {
 Ask me about specific divisional charts (like D10 for career), planetary transits, dasha periods, or any aspect of your cosmic journey. I'm here to guide you with personalized insights based on your unique astrological blueprint.`;
   };
 
-  const [messages, setMessages] = useState<Message[]>([
+  const createWelcomeMessages = (): Message[] => [
     { 
       role: 'assistant', 
       content: generateWelcomeMessage(),
-      timestamp: new Date()
+      timestamp: new Date(),
+      local: true
     }
-  ]);
+  ];
+
+  const [messages, setMessages] = useState<Message[]>(createWelcomeMessages);
   const [input, setInput] = useState('');
   const [sessionId, setSessionId] = useState<string | null>(null);
-  const [loading, setLoading] = useState(false);
+  const [replyStatus, setReplyStatus] = useState<ReplyStatus>('idle');
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [chartOpen, setChartOpen] = useState(false);
+  const [openingSession, setOpeningSession] = useState(false);
+  const [restored, setRestored] = useState(false);
+  const [editing, setEditing] = useState<{ index: number; text: string } | null>(null);
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Set synchronously, unlike replyStatus, so outbox replays never overlap a send
+  const deliveringRef = useRef(false);
+
+  const loading = replyStatus !== 'idle';
+  const canStop = replyStatus === 'waiting' || replyStatus === 'streaming';
 
   // Auto-scroll to bottom
   useEffect(() => {
@@ -58,50 +164,456 @@ Ask me about specific divisional charts (like D10 for career), planetary transit
     }
   }, [messages]);
 
-  const sendMessage = async () => {
-    if (!input.trim() || loading) return;
+  // Abort any in-flight stream on unmount
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, []);
 
-    const userMessage: Message = { 
-      role: 'user', 
-      content: input,
-      timestamp: new Date()
+  const chart = useMemo(() => parseBirthChart(userContext?.astroProfile?.chart), [userContext]);
+  const dashas = useMemo(() => {
+    const birth = birthInstantOf(userContext);
+    return chart && birth && !Number.isNaN(birth.getTime()) ? chartDasha(chart, birth) : null;
+  }, [chart, userContext]);
+
+  const ownerId = userContext?.id ?? 'anonymous';
+  const transcripts = useMemo(() => new TranscriptStore(ownerId), [ownerId]);
+  // Names the conversation on screen while it has no session, so queued messages find it
+  const [draftId, setDraftId] = useState<string | null>(() => transcripts.getActiveDraftId() ?? createDraftId());
+
+  // Restore the conversation from before the reload, then catch up with the server copy
+  useEffect(() => {
+    let cancelled = false;
+
+    const restore = async () => {
+      let saved = null;
+      try {
+        saved = await transcripts.loadActive();
+      } catch (err) {
+        console.warn('[ChatInterface] Could not restore the last conversation:', err);
+      }
+      if (cancelled) return;
+      setRestored(true);
+      if (!saved) return;
+
+      const local = saved.messages.map(fromStoredMessage);
+      setMessages(local);
+      setSessionId(saved.sessionId);
+      if (!saved.sessionId) return;
+
+      try {
+        const result = await api.getChatSession(saved.sessionId);
+        if (cancelled || !result.success || !result.data) return;
+        const merged = reconcileTranscript(saved.messages, result.data.messages);
+        // Unless the user has moved on in the meantime
+        setMessages(prev => (prev === local ? merged.map(fromStoredMessage) : prev));
+      } catch (err) {
+        console.warn('[ChatInterface] Keeping the local copy; server session unavailable:', err);
+      }
+    };
+
+    restore();
+    return () => {
+      cancelled = true;
+    };
+  }, [transcripts, api]);
+
+  // Persist the conversation on screen
+  useEffect(() => {
+    if (!restored) return;
+    transcripts.setActiveSessionId(sessionId);
+    transcripts.setActiveDraftId(draftId);
+    // A fresh welcome screen has nothing worth keeping
+    if (!messages.some(msg => msg.role === 'user')) return;
+
+    const timer = setTimeout(() => {
+      transcripts.save(sessionId, messages.map(toStoredMessage)).catch((err) => {
+        console.warn('[ChatInterface] Could not save the conversation locally:', err);
+      });
+    }, replyStatus === 'streaming' ? STREAMING_SAVE_DELAY : 0);
+    return () => clearTimeout(timer);
+  }, [restored, messages, sessionId, draftId, replyStatus, transcripts]);
+
+  /**
+   * Stream the reply token by token into a new assistant message.
+   * Structured parts (ids, citations, usage) are applied as they arrive;
+   * ones that precede the first token wait for its message bubble.
+   * Resolves once the stream ends, reporting whether any text arrived.
+   */
+  const streamReply = async (
+    text: string,
+    session: string | null,
+    history?: ChatMessage[]
+  ): Promise<StreamOutcome> => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const outcome: StreamOutcome = { received: false, error: null };
+    const pendingUpdates: ((msg: Message) => Message)[] = [];
+
+    const updateReply = (update: (msg: Message) => Message) => {
+      if (!outcome.received) {
+        pendingUpdates.push(update);
+        return;
+      }
+      setMessages(prev => [...prev.slice(0, -1), update(prev[prev.length - 1])]);
+    };
+
+    await api.streamChat(text, session || undefined, {
+      signal: controller.signal,
+      history,
+      onMessage: (chunk) => {
+        if (outcome.received) {
+          updateReply(msg => ({ ...msg, content: msg.content + chunk }));
+          return;
+        }
+        outcome.received = true;
+        setReplyStatus('streaming');
+        const reply = pendingUpdates.reduce<Message>(
+          (msg, update) => update(msg),
+          { role: 'assistant', content: chunk, timestamp: new Date() }
+        );
+        setMessages(prev => [...prev, reply]);
+      },
+      onMetadata: ({ sessionId: id, messageId }) => {
+        // Adopt the session as soon as the server assigns it, so a follow-up
+        // sent before this reply ends still lands in the same session
+        if (id) setSessionId(id);
+        if (messageId) updateReply(msg => ({ ...msg, id: messageId }));
+      },
+      onCitations: (citations) => {
+        updateReply(msg => ({ ...msg, citations: [...(msg.citations ?? []), ...citations] }));
+      },
+      onUsage: (usage) => {
+        updateReply(msg => ({ ...msg, usage }));
+      },
+      onError: (error) => {
+        outcome.error = error;
+      },
+    });
+
+    abortControllerRef.current = null;
+    return outcome;
+  };
+
+  /**
+   * Blocking fallback via /chat/send, used when the stream endpoint fails
+   * before any of the reply arrived
+   */
+  const sendBlocking = async (
+    text: string,
+    session: string | null,
+    history?: ChatMessage[]
+  ): Promise<BlockingOutcome> => {
+    setReplyStatus('fallback');
+    const addReply = (reply: Message) => {
+      setMessages(prev => [...prev, reply]);
     };
-    setMessages(prev => [...prev, userMessage]);
-    setInput('');
-    setLoading(true);
 
     try {
-      const result = await api.sendMessage(input, sessionId || undefined);
+      const result = await api.sendMessage(text, session || undefined, { history });
       
-      if (result.success) {
-        const aiMessage: Message = { 
+      if (result.success && result.data) {
+        addReply({ 
           role: 'assistant', 
           content: result.data.response,
           timestamp: new Date()
-        };
-        setMessages(prev => [...prev, aiMessage]);
+        });
         
         if (result.data.sessionId) {
           setSessionId(result.data.sessionId);
         }
       } else {
-        setMessages(prev => [...prev, { 
+        addReply({ 
           role: 'assistant', 
           content: 'I apologize, but I encountered an error interpreting the cosmic energies. Please try again.',
-          timestamp: new Date()
-        }]);
+          timestamp: new Date(),
+          local: true
+        });
       }
     } catch (err) {
-      setMessages(prev => [...prev, { 
+      // Nothing arrived at all: the caller queues the question instead
+      if (err instanceof NetworkError || err instanceof TimeoutError) {
+        return 'offline';
+      }
+      addReply({ 
         role: 'assistant', 
         content: 'The cosmic connection has been disrupted. Please check your connection and try again.',
-        timestamp: new Date()
+        timestamp: new Date(),
+        local: true
+      });
+    }
+    return 'answered';
+  };
+
+  /**
+   * Show the question and get its reply: stream first, blocking fallback
+   * second when nothing streamed. Resolves `offline` (question removed
+   * again) when neither reached the server. Without a session, the conversation so far goes
+   * along as history so a branched-off conversation keeps its context.
+   */
+  const deliver = async (
+    text: string,
+    conversation: Message[],
+    session: string | null
+  ): Promise<'delivered' | 'offline'> => {
+    const history = session ? undefined : toHistory(conversation);
+    const userMessage: Message = { 
+      role: 'user', 
+      content: text,
+      timestamp: new Date()
+    };
+    setMessages(prev => [...prev, userMessage]);
+    setReplyStatus('waiting');
+    deliveringRef.current = true;
+
+    try {
+      const { received, error } = await streamReply(text, session, history);
+
+      // Stopped by the user: keep whatever arrived so far
+      if (error?.code === 'ABORTED') return 'delivered';
+
+      // Part of the reply arrived, so the server already has the question (and
+      // streamChat has tried resuming): asking again would answer it twice
+      if (error && received) {
+        console.warn('[ChatInterface] Stream failed mid-reply:', error);
+        setMessages(prev => [...prev, {
+          role: 'assistant',
+          content: 'The connection dropped before this reply finished. Regenerate it to get the full answer.',
+          timestamp: new Date(),
+          local: true
+        }]);
+        return 'delivered';
+      }
+
+      if (error) {
+        console.warn('[ChatInterface] Stream failed, falling back to /chat/send:', error);
+        if (await sendBlocking(text, session, history) === 'offline') {
+          setMessages(prev => prev.filter(msg => msg !== userMessage));
+          return 'offline';
+        }
+      }
+      return 'delivered';
+    } finally {
+      deliveringRef.current = false;
+      setReplyStatus('idle');
+    }
+  };
+
+  /**
+   * Replay a queued message, provided it was written in the conversation on screen
+   */
+  const deliverQueued = async (entry: OutboxEntry): Promise<DeliveryResult> => {
+    if (deliveringRef.current || openingSession) return 'busy';
+    if (!isInConversation(entry, { sessionId, draftId })) return 'skipped';
+    return deliver(entry.text, messages, sessionId);
+  };
+
+  const outbox = useChatOutbox({
+    ownerId,
+    probeUrl: `${api.baseUrl}/health`,
+    deliver: deliverQueued,
+  });
+  const { assignSession } = outbox;
+
+  // Queued messages shown in (and replayed into) the conversation on screen
+  const queuedHere = outbox.entries.filter(entry => isInConversation(entry, { sessionId, draftId }));
+
+  // Once the server names the draft, its queued messages belong to that session
+  useEffect(() => {
+    if (!sessionId || !draftId) return;
+    assignSession(draftId, sessionId).catch((err) => {
+      console.warn('[ChatInterface] Could not move queued messages to the new session:', err);
+    });
+  }, [sessionId, draftId, assignSession]);
+
+  /**
+   * Queued messages of a draft cannot be sent once it is left, as the draft
+   * goes with it: hand them back through the input box
+   */
+  const leaveDraft = () => {
+    if (sessionId !== null) return;
+    const stranded = queuedHere.filter(entry => entry.status !== 'sending');
+    if (stranded.length === 0) return;
+    setInput(current => [current, ...stranded.map(entry => entry.text)].filter(Boolean).join('\n\n'));
+    Promise.all(stranded.map(entry => outbox.cancel(entry.id))).catch((err) => {
+      console.warn('[ChatInterface] Could not drop the queued messages of the draft:', err);
+    });
+  };
+
+  /**
+   * Continue the conversation from `base` in a new session. The server's
+   * copy of a session only ever grows, so changing its past means leaving
+   * it as it was and branching off; the next message carries `base` as
+   * history. Returns the branch's draft id.
+   */
+  const branch = (base: Message[]): string => {
+    const draft = createDraftId();
+    leaveDraft();
+    setSessionId(null);
+    setDraftId(draft);
+    setMessages(base);
+    return draft;
+  };
+
+  /**
+   * Send a question, queueing it when the server can't be reached. With
+   * `base`, the question continues a branch from those messages instead.
+   * If it can be neither sent nor queued, it goes back into the input.
+   */
+  const submit = async (text: string, base?: Message[]) => {
+    const conversation: OutboxConversation = base
+      ? { sessionId: null, draftId: branch(base) }
+      : { sessionId, draftId };
+
+    try {
+      // Known to be offline, or older messages still waiting: queue behind them
+      const waiting = outbox.entries.some(entry => isInConversation(entry, conversation) && entry.status !== 'failed');
+      if (!outbox.connected || waiting) {
+        await outbox.enqueue(text, conversation);
+        await outbox.flush();
+        return;
+      }
+
+      if (await deliver(text, base ?? messages, conversation.sessionId) === 'offline') {
+        await outbox.enqueue(text, conversation, 'Could not reach the server');
+        return;
+      }
+      await outbox.flush();
+    } catch (err) {
+      console.error('[ChatInterface] Could not send or queue the message:', err);
+      setInput(current => current || text);
+      setMessages(prev => [...prev, {
+        role: 'assistant',
+        content: 'Your message could not be sent or saved for later. It is back in the message box; please try again.',
+        timestamp: new Date(),
+        local: true
       }]);
+    }
+  };
+
+  const sendMessage = async () => {
+    if (!input.trim() || loading) return;
+
+    const text = input;
+    setInput('');
+    await submit(text);
+  };
+
+  /** A question sent from the chart viewer, e.g. about a dasha period */
+  const askFromChart = async (question: string) => {
+    if (loading) return;
+    setChartOpen(false);
+    await submit(question);
+  };
+
+  const copyMessage = async (index: number) => {
+    try {
+      await navigator.clipboard.writeText(messages[index].content);
+      setCopiedIndex(index);
+      setTimeout(() => setCopiedIndex(current => (current === index ? null : current)), 2000);
+    } catch (err) {
+      console.warn('[ChatInterface] Could not copy the message:', err);
+    }
+  };
+
+  /**
+   * Ask the last question again, branching off just before it
+   */
+  const regenerate = async () => {
+    const question = messages.map(msg => msg.role).lastIndexOf('user');
+    if (loading || question === -1) return;
+    await submit(messages[question].content, messages.slice(0, question));
+  };
+
+  /**
+   * Resend an edited question, branching off just before the original
+   */
+  const resendEdited = async () => {
+    if (!editing || !editing.text.trim() || loading) return;
+    const { index, text } = editing;
+    setEditing(null);
+    await submit(text, messages.slice(0, index));
+  };
+
+  const deleteMessage = (index: number) => {
+    if (loading) return;
+    const remaining = messages.filter((_, i) => i !== index);
+    if (messages[index].local) {
+      // Never reached the server, so the session is unaffected
+      setMessages(remaining);
+    } else {
+      branch(remaining);
+    }
+    setEditing(null);
+  };
+
+  const stopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  /**
+   * Reopen a past session: load its messages and continue it
+   */
+  const openSession = async (id: string) => {
+    stopGeneration();
+    setHistoryOpen(false);
+    setEditing(null);
+    setOpeningSession(true);
+
+    const local = await transcripts.load(id).catch(() => null);
+
+    try {
+      const result = await api.getChatSession(id);
+      if (result.success && result.data) {
+        leaveDraft();
+        setMessages(reconcileTranscript(local?.messages ?? [], result.data.messages).map(fromStoredMessage));
+        setSessionId(result.data.id);
+        setDraftId(null);
+      }
+    } catch (err) {
+      console.error('[ChatInterface] Error opening session:', err);
+      if (local) {
+        // Offline or gone from the server: the copy on this device will do
+        leaveDraft();
+        setMessages(local.messages.map(fromStoredMessage));
+        setSessionId(id);
+        setDraftId(null);
+      } else {
+        setMessages(prev => [...prev, { 
+          role: 'assistant', 
+          content: 'I could not retrieve that conversation from the cosmic records. Please try again.',
+          timestamp: new Date(),
+          local: true
+        }]);
+      }
     } finally {
-      setLoading(false);
+      setOpeningSession(false);
     }
   };
 
+  const resetConversation = () => {
+    stopGeneration();
+    setHistoryOpen(false);
+    setSessionId(null);
+    setDraftId(createDraftId());
+    setMessages(createWelcomeMessages());
+    setEditing(null);
+    transcripts.discardDraft().catch((err) => {
+      console.warn('[ChatInterface] Could not discard the draft conversation:', err);
+    });
+  };
+
+  const startNewSession = () => {
+    leaveDraft();
+    resetConversation();
+  };
+
+  const clearLocalHistory = async () => {
+    await Promise.all([transcripts.clear(), outbox.clear()]);
+    resetConversation();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -115,10 +627,48 @@ Ask me about specific divisional charts (like D10 for career), planetary transit
   };
 
   return (
-    <div className="h-screen flex flex-col">
+    <div className="h-screen flex flex-col relative">
+      {/* Session History */}
+      {historyOpen && (
+        <div className="absolute inset-0 z-20 flex">
+          <SessionHistoryPanel
+            api={api}
+            activeSessionId={sessionId}
+            onSelectSession={openSession}
+            onNewSession={startNewSession}
+            onClearLocalHistory={clearLocalHistory}
+            onClose={() => setHistoryOpen(false)}
+          />
+          <div className="flex-1 bg-black/40" onClick={() => setHistoryOpen(false)} />
+        </div>
+      )}
+
+      {/* Birth Chart */}
+      {chartOpen && (
+        <div className="absolute inset-0 z-20 flex">
+          <div className="flex-1 bg-black/40" onClick={() => setChartOpen(false)} />
+          <ChartPanel
+            chart={chart}
+            dashas={dashas}
+            name={userContext?.name}
+            onAsk={askFromChart}
+            onClose={() => setChartOpen(false)}
+          />
+        </div>
+      )}
+
       {/* Header */}
       <header className="glass-card border-b border-mystic-gold/20 px-6 py-4 flex items-center justify-between shrink-0">
         <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setHistoryOpen(true)}
+            title="Past sessions"
+            className="text-muted-foreground hover:text-mystic-gold"
+          >
+            <History className="w-5 h-5" />
+          </Button>
           <div className="w-12 h-12 rounded-full bg-gradient-to-br from-mystic-purple to-mystic-blue flex items-center justify-center animate-pulse-glow">
             <Moon className="w-6 h-6 text-mystic-gold" />
           </div>
@@ -127,13 +677,41 @@ Ask me about specific divisional charts (like D10 for career), planetary transit
               Astro Shiva
             </h1>
             <p className="text-xs text-muted-foreground font-body">
-              {sessionId ? `Session: ${sessionId.slice(0, 8)}...` : 'New Session'}
+              {openingSession ? 'Opening session...' : sessionId ? `Session: ${sessionId.slice(0, 8)}...` : 'New Session'}
             </p>
           </div>
         </div>
-        <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-mystic-gold">
-          <MoreHorizontal className="w-5 h-5" />
-        </Button>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={startNewSession}
+            title="New session"
+            className="text-muted-foreground hover:text-mystic-gold"
+          >
+            <SquarePen className="w-5 h-5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setChartOpen(true)}
+            title="Birth chart"
+            className="text-muted-foreground hover:text-mystic-gold"
+          >
+            <Orbit className="w-5 h-5" />
+          </Button>
+          {onOpenProfile && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onOpenProfile}
+              title="Profile & birth details"
+              className="text-muted-foreground hover:text-mystic-gold"
+            >
+              <UserRound className="w-5 h-5" />
+            </Button>
+          )}
+        </div>
       </header>
 
       {/* Messages Area */}
@@ -142,7 +720,7 @@ Ask me about specific divisional charts (like D10 for career), planetary transit
           {messages.map((msg, i) => (
             <div
               key={i}
-              className={`flex gap-4 ${msg.role === 'user' ? 'flex-row-reverse' : ''} animate-in fade-in slide-in-from-bottom-2 duration-300`}
+              className={`group flex gap-4 ${msg.role === 'user' ? 'flex-row-reverse' : ''} animate-in fade-in slide-in-from-bottom-2 duration-300`}
               style={{ animationDelay: `${i * 50}ms` }}
             >
               {/* Avatar */}
@@ -165,19 +743,132 @@ Ask me about specific divisional charts (like D10 for career), planetary transit
                       : 'message-bubble-assistant text-foreground rounded-bl-md'
                   }`}
                 >
-                  <p className="leading-relaxed whitespace-pre-wrap font-body">
-                    {msg.content}
-                  </p>
+                  {editing?.index === i ? (
+                    <div className="flex flex-col gap-2 min-w-[16rem]">
+                      <textarea
+                        value={editing.text}
+                        onChange={(e) => setEditing({ index: i, text: e.target.value })}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' && !e.shiftKey) {
+                            e.preventDefault();
+                            resendEdited();
+                          } else if (e.key === 'Escape') {
+                            setEditing(null);
+                          }
+                        }}
+                        rows={3}
+                        autoFocus
+                        className="w-full bg-cosmic-900/40 border border-white/20 rounded-lg px-3 py-2 text-white font-body leading-relaxed resize-y focus:outline-none focus:border-mystic-gold/50"
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => setEditing(null)} className="text-white/80 hover:text-white">
+                          Cancel
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={resendEdited}
+                          disabled={!editing.text.trim() || loading}
+                          className="bg-mystic-gold/90 hover:bg-mystic-gold text-cosmic-900"
+                        >
+                          Send
+                        </Button>
+                      </div>
+                    </div>
+                  ) : msg.role === 'assistant' ? (
+                    <MarkdownContent
+                      content={msg.content}
+                      streaming={replyStatus === 'streaming' && i === messages.length - 1}
+                    />
+                  ) : (
+                    <p className="leading-relaxed whitespace-pre-wrap font-body">
+                      {msg.content}
+                    </p>
+                  )}
+                  {msg.citations && msg.citations.length > 0 && (
+                    <div className="mt-3 pt-3 border-t border-mystic-gold/15 flex flex-wrap gap-2">
+                      {msg.citations.map((citation, j) => {
+                        const Icon = citation.kind === 'chart' ? Compass : ExternalLink;
+                        const chip = (
+                          <>
+                            <Icon className="w-3 h-3 shrink-0" />
+                            {citation.label}
+                          </>
+                        );
+                        const chipClass = 'inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-mystic-gold/10 border border-mystic-gold/20 text-mystic-gold/90';
+                        return citation.url ? (
+                          <a
+                            key={j}
+                            href={citation.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className={`${chipClass} hover:bg-mystic-gold/20`}
+                          >
+                            {chip}
+                          </a>
+                        ) : (
+                          <span key={j} className={chipClass} title={citation.ref}>
+                            {chip}
+                          </span>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+                <div className={`flex items-center gap-2 mt-1 px-1 ${msg.role === 'user' ? 'flex-row-reverse' : ''}`}>
+                  <span className="text-xs text-muted-foreground">
+                    {formatTime(msg.timestamp)}
+                    {msg.usage?.totalTokens !== undefined && ` · ${msg.usage.totalTokens} tokens`}
+                  </span>
+                  {/* Actions */}
+                  {editing?.index !== i && !(loading && i === messages.length - 1) && (
+                    <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                      <button
+                        type="button"
+                        onClick={() => copyMessage(i)}
+                        title="Copy"
+                        className="p-1 rounded text-muted-foreground hover:text-mystic-gold"
+                      >
+                        {copiedIndex === i ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+                      </button>
+                      {msg.role === 'assistant' && i === messages.length - 1 && i > 0 && !loading && (
+                        <button
+                          type="button"
+                          onClick={regenerate}
+                          title="Regenerate answer"
+                          className="p-1 rounded text-muted-foreground hover:text-mystic-gold"
+                        >
+                          <RefreshCw className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                      {msg.role === 'user' && !loading && (
+                        <button
+                          type="button"
+                          onClick={() => setEditing({ index: i, text: msg.content })}
+                          title="Edit and resend"
+                          className="p-1 rounded text-muted-foreground hover:text-mystic-gold"
+                        >
+                          <Pencil className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                      {!loading && (
+                        <button
+                          type="button"
+                          onClick={() => deleteMessage(i)}
+                          title={msg.local ? 'Delete' : 'Delete (continues in a new session)'}
+                          className="p-1 rounded text-muted-foreground hover:text-red-300"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                    </div>
+                  )}
                 </div>
-                <span className="text-xs text-muted-foreground mt-1 px-1">
-                  {formatTime(msg.timestamp)}
-                </span>
               </div>
             </div>
           ))}
 
           {/* Loading Indicator */}
-          {loading && (
+          {(replyStatus === 'waiting' || replyStatus === 'fallback') && (
             <div className="flex gap-4 animate-in fade-in duration-300">
               <Avatar className="w-10 h-10 shrink-0 bg-gradient-to-br from-mystic-purple to-mystic-blue border border-mystic-gold/30">
                 <AvatarFallback>
@@ -194,12 +885,80 @@ Ask me about specific divisional charts (like D10 for career), planetary transit
               </div>
             </div>
           )}
+
+          {/* Queued Messages */}
+          {queuedHere.map((entry) => (
+            <div key={entry.id} className="flex gap-4 flex-row-reverse animate-in fade-in duration-300">
+              <Avatar className="w-10 h-10 shrink-0 bg-gradient-to-br from-mystic-gold/30 to-mystic-gold/10 border border-mystic-gold/30">
+                <AvatarFallback className="text-foreground">
+                  <User className="w-5 h-5 text-mystic-gold" />
+                </AvatarFallback>
+              </Avatar>
+              <div className="flex flex-col items-end max-w-[80%]">
+                <div
+                  className={`px-5 py-3 rounded-2xl rounded-br-md message-bubble-user text-white ${
+                    entry.status === 'failed' ? 'opacity-70 border border-red-500/40' : 'opacity-60'
+                  }`}
+                >
+                  <p className="leading-relaxed whitespace-pre-wrap font-body">
+                    {entry.text}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 text-xs mt-1 px-1">
+                  {entry.status === 'pending' && (
+                    <span className="flex items-center gap-1 text-muted-foreground">
+                      <Clock className="w-3 h-3" />
+                      Waiting for connection
+                    </span>
+                  )}
+                  {entry.status === 'sending' && (
+                    <span className="flex items-center gap-1 text-muted-foreground">
+                      <Loader2 className="w-3 h-3 animate-spin" />
+                      Sending...
+                    </span>
+                  )}
+                  {entry.status === 'failed' && (
+                    <>
+                      <span className="flex items-center gap-1 text-red-300" title={entry.lastError}>
+                        <AlertCircle className="w-3 h-3" />
+                        Not sent
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => outbox.retry(entry.id)}
+                        className="flex items-center gap-1 text-mystic-gold/80 hover:text-mystic-gold"
+                      >
+                        <RotateCcw className="w-3 h-3" />
+                        Retry
+                      </button>
+                    </>
+                  )}
+                  {entry.status !== 'sending' && (
+                    <button
+                      type="button"
+                      onClick={() => outbox.cancel(entry.id)}
+                      className="flex items-center gap-1 text-muted-foreground hover:text-red-300"
+                    >
+                      <X className="w-3 h-3" />
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
         </div>
       </ScrollArea>
 
       {/* Input Area */}
       <div className="glass-card border-t border-mystic-gold/20 px-4 md:px-8 py-4 shrink-0">
         <div className="max-w-4xl mx-auto">
+          {!outbox.connected && (
+            <div className="mb-3 px-4 py-2 rounded-lg bg-amber-500/10 border border-amber-500/30 text-amber-200 text-sm flex items-center gap-2">
+              <WifiOff className="w-4 h-4 shrink-0" />
+              The stars are out of reach. Your messages will be sent when the connection returns.
+            </div>
+          )}
           <div className="flex gap-3 items-end">
             <div className="flex-1 relative">
               <Input
@@ -207,21 +966,31 @@ Ask me about specific divisional charts (like D10 for career), planetary transit
                 onChange={(e) => setInput(e.target.value)}
                 onKeyPress={handleKeyPress}
                 placeholder="Ask about your astrology, career, relationships, or life path..."
-                disabled={loading}
+                disabled={loading || openingSession}
                 className="mystic-input min-h-[56px] py-4 pr-12 text-foreground placeholder:text-muted-foreground/50 resize-none"
               />
             </div>
-            <Button
-              onClick={sendMessage}
-              disabled={loading || !input.trim()}
-              className="mystic-button h-14 w-14 rounded-full bg-gradient-to-r from-mystic-purple to-mystic-blue hover:from-mystic-purple-light hover:to-mystic-blue-light border border-mystic-gold/30 transition-all duration-300 hover:shadow-[0_0_20px_rgba(212,175,55,0.4)] disabled:opacity-50 shrink-0"
-            >
-              {loading ? (
-                <Loader2 className="w-5 h-5 animate-spin" />
-              ) : (
-                <Send className="w-5 h-5" />
-              )}
-            </Button>
+            {canStop ? (
+              <Button
+                onClick={stopGeneration}
+                title="Stop generating"
+                className="mystic-button h-14 w-14 rounded-full bg-gradient-to-r from-mystic-purple to-mystic-blue hover:from-mystic-purple-light hover:to-mystic-blue-light border border-mystic-gold/30 transition-all duration-300 hover:shadow-[0_0_20px_rgba(212,175,55,0.4)] shrink-0"
+              >
+                <Square className="w-4 h-4 fill-current" />
+              </Button>
+            ) : (
+              <Button
+                onClick={sendMessage}
+                disabled={loading || !input.trim()}
+                className="mystic-button h-14 w-14 rounded-full bg-gradient-to-r from-mystic-purple to-mystic-blue hover:from-mystic-purple-light hover:to-mystic-blue-light border border-mystic-gold/30 transition-all duration-300 hover:shadow-[0_0_20px_rgba(212,175,55,0.4)] disabled:opacity-50 shrink-0"
+              >
+                {loading ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                  <Send className="w-5 h-5" />
+                )}
+              </Button>
+            )}
           </div>
           <p className="text-xs text-center text-muted-foreground/50 mt-3 font-body">
             Astro Shiva provides guidance based on Vedic astrology principles
@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import {
+  activePeriods,
+  dashaLabel,
+  formatDashaDate,
+  DASHA_LEVEL_NAMES,
+  type DashaPeriod,
+} from '@/lib/dasha';
+import { planetInfo } from '@/lib/birthChart';
+import { cn } from '@/lib/utils';
+import { ChevronRight, MessageCircle } from 'lucide-react';
+
+interface Props {
+  /** Mahadashas, as returned by vimshottariDasha */
+  periods: DashaPeriod[];
+  /** Ask the chat about a period */
+  onAsk?: (period: DashaPeriod) => void;
+}
+
+/**
+ * DashaTimeline
+ *
+ * Vimshottari dashas as a bar of Mahadashas spanning the whole cycle, with
+ * the selected Mahadasha's Antardashas listed below it and each
+ * Antardasha opening onto its Pratyantardashas. The periods running today
+ * are highlighted, and any period can be sent to the chat as a question.
+ */
+export function DashaTimeline({ periods, onAsk }: Props) {
+  const [now] = useState(() => new Date());
+  const active = activePeriods(periods, now);
+  const [selected, setSelected] = useState<DashaPeriod | undefined>(active[0] ?? periods[0]);
+  const [expanded, setExpanded] = useState<DashaPeriod | null>(active[1] ?? null);
+
+  if (periods.length === 0 || !selected) return null;
+
+  const cycleStart = periods[0].start.getTime();
+  const cycleLength = periods[periods.length - 1].end.getTime() - cycleStart;
+  const isActive = (period: DashaPeriod) => active.includes(period);
+
+  return (
+    <div className="space-y-4 font-body">
+      {/* Mahadasha bar */}
+      <div>
+        <div className="relative flex h-10 rounded-lg overflow-hidden border border-mystic-gold/20">
+          {periods.map((period) => (
+            <button
+              key={period.lord}
+              type="button"
+              onClick={() => {
+                setSelected(period);
+                setExpanded(null);
+              }}
+              title={`${period.lord} ${DASHA_LEVEL_NAMES.maha}: ${formatDashaDate(period.start)} – ${formatDashaDate(period.end)}`}
+              style={{ flexGrow: period.end.getTime() - period.start.getTime() }}
+              className={cn(
+                'basis-0 min-w-0 text-xs border-r border-mystic-gold/15 last:border-r-0 transition-colors',
+                period === selected
+                  ? 'bg-mystic-gold/25 text-mystic-gold'
+                  : isActive(period)
+                    ? 'bg-mystic-purple/40 text-foreground'
+                    : 'bg-cosmic-900/40 text-muted-foreground hover:bg-mystic-gold/10'
+              )}
+            >
+              {planetInfo(period.lord).abbreviation}
+            </button>
+          ))}
+          {now.getTime() > cycleStart && now.getTime() < cycleStart + cycleLength && (
+            <div
+              className="absolute inset-y-0 w-0.5 bg-mystic-gold pointer-events-none"
+              style={{ left: `${((now.getTime() - cycleStart) / cycleLength) * 100}%` }}
+              title="Today"
+            />
+          )}
+        </div>
+        <div className="flex justify-between mt-1 text-[11px] text-muted-foreground/70">
+          <span>{periods[0].start.getFullYear()}</span>
+          <span>{periods[periods.length - 1].end.getFullYear()}</span>
+        </div>
+      </div>
+
+      {active.length > 0 && (
+        <p className="text-sm text-muted-foreground text-center">
+          Running now: <span className="text-mystic-gold">{dashaLabel(active[active.length - 1])}</span>
+        </p>
+      )}
+
+      {/* Selected Mahadasha */}
+      <div className="rounded-lg border border-mystic-gold/15 bg-cosmic-900/30">
+        <PeriodRow period={selected} active={isActive(selected)} onAsk={onAsk} heading />
+        <ul className="border-t border-mystic-gold/10">
+          {selected.children.map((antar) => (
+            <li key={antar.lord} className="border-b border-mystic-gold/10 last:border-b-0">
+              <PeriodRow
+                period={antar}
+                active={isActive(antar)}
+                onAsk={onAsk}
+                open={expanded === antar}
+                onToggle={() => setExpanded(current => (current === antar ? null : antar))}
+              />
+              {expanded === antar && (
+                <ul className="pl-6 pb-1">
+                  {antar.children.map((pratyantar) => (
+                    <li key={pratyantar.lord}>
+                      <PeriodRow period={pratyantar} active={isActive(pratyantar)} onAsk={onAsk} />
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+interface PeriodRowProps {
+  period: DashaPeriod;
+  active: boolean;
+  onAsk?: (period: DashaPeriod) => void;
+  heading?: boolean;
+  open?: boolean;
+  onToggle?: () => void;
+}
+
+function PeriodRow({ period, active, onAsk, heading = false, open = false, onToggle }: PeriodRowProps) {
+  const label = (
+    <>
+      {onToggle && <ChevronRight className={cn('w-3.5 h-3.5 shrink-0 transition-transform', open && 'rotate-90')} />}
+      <span className={cn('truncate', heading ? 'font-display text-mystic-gold' : active ? 'text-mystic-gold' : 'text-foreground')}>
+        {heading ? `${period.lord} ${DASHA_LEVEL_NAMES.maha}` : period.lord}
+      </span>
+      {active && !heading && <span className="w-1.5 h-1.5 rounded-full bg-mystic-gold shrink-0" title="Running now" />}
+    </>
+  );
+
+  return (
+    <div className={cn('flex items-center gap-2 px-3 py-1.5 text-sm', active && !heading && 'bg-mystic-gold/5')}>
+      {onToggle ? (
+        <button type="button" onClick={onToggle} className="flex items-center gap-1.5 min-w-0 flex-1 text-left">
+          {label}
+        </button>
+      ) : (
+        <div className="flex items-center gap-1.5 min-w-0 flex-1">{label}</div>
+      )}
+      <span className="text-xs text-muted-foreground whitespace-nowrap">
+        {formatDashaDate(period.start)} – {formatDashaDate(period.end)}
+      </span>
+      {onAsk && (
+        <button
+          type="button"
+          onClick={() => onAsk(period)}
+          title={`Ask about ${dashaLabel(period)}`}
+          className="p-1 rounded text-muted-foreground hover:text-mystic-gold transition-colors shrink-0"
+        >
+          <MessageCircle className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import type { FieldError } from '@/lib/validation';
+
+interface Props {
+  /** id referenced by the input's aria-describedby */
+  id: string;
+  error?: FieldError;
+}
+
+/**
+ * FieldErrorMessage
+ *
+ * Inline validation message under a form field. Renders nothing when the
+ * field is valid.
+ */
+export function FieldErrorMessage({ id, error }: Props) {
+  if (!error) return null;
+
+  return (
+    <p id={id} role="alert" className="text-xs text-red-300">
+      {error.message}
+    </p>
+  );
+}
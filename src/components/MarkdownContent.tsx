@@ -0,0 +1,174 @@
+import { Fragment, memo, useMemo, type ReactNode } from 'react';
+import { parseMarkdown, splitBlocks, type BlockNode, type InlineNode } from '@/lib/markdown';
+import { cn } from '@/lib/utils';
+
+interface Props {
+  content: string;
+  /** Still receiving tokens: render half-written syntax gracefully */
+  streaming?: boolean;
+  className?: string;
+}
+
+const HEADING_CLASSES: Record<number, string> = {
+  1: 'text-xl',
+  2: 'text-lg',
+  3: 'text-base',
+};
+
+/**
+ * MarkdownContent
+ *
+ * Renders an assistant reply written in markdown. The text is parsed into a
+ * tree and built from React elements, so nothing in it is ever injected as
+ * HTML. Each top-level block is memoized on its source: while a reply
+ * streams in, only the block being written re-renders.
+ */
+export function MarkdownContent({ content, streaming = false, className }: Props) {
+  const blocks = useMemo(() => splitBlocks(content), [content]);
+
+  return (
+    <div className={cn('space-y-3 leading-relaxed font-body break-words', className)}>
+      {blocks.map((source, i) => (
+        <MarkdownBlock key={i} source={source} partial={streaming && i === blocks.length - 1} />
+      ))}
+    </div>
+  );
+}
+
+const MarkdownBlock = memo(function MarkdownBlock({ source, partial }: { source: string; partial: boolean }) {
+  const nodes = useMemo(() => parseMarkdown(source, { partial }), [source, partial]);
+  return <>{renderBlocks(nodes)}</>;
+});
+
+function renderBlocks(nodes: BlockNode[]): ReactNode[] {
+  return nodes.map((node, i) => renderBlock(node, i));
+}
+
+function renderBlock(node: BlockNode, key: number): ReactNode {
+  switch (node.type) {
+    case 'heading': {
+      const Tag = `h${Math.min(node.level, 6)}` as 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6';
+      return (
+        <Tag key={key} className={cn('font-display text-mystic-gold', HEADING_CLASSES[node.level] ?? 'text-sm')}>
+          {renderInline(node.children)}
+        </Tag>
+      );
+    }
+
+    case 'paragraph':
+      return <p key={key}>{renderInline(node.children)}</p>;
+
+    case 'code':
+      return (
+        <pre
+          key={key}
+          className="bg-cosmic-900/60 border border-mystic-gold/15 rounded-lg px-4 py-3 overflow-x-auto text-sm"
+          data-language={node.language ?? undefined}
+        >
+          <code className="font-mono">{node.text}</code>
+        </pre>
+      );
+
+    case 'blockquote':
+      return (
+        <blockquote key={key} className="border-l-2 border-mystic-gold/40 pl-4 italic text-muted-foreground space-y-2">
+          {renderBlocks(node.children)}
+        </blockquote>
+      );
+
+    case 'list': {
+      const items = node.items.map((item, i) => (
+        <li key={i} className="pl-1 space-y-2">
+          {/* A tight item is a single paragraph; render it without the block wrapper */}
+          {item.length === 1 && item[0].type === 'paragraph' ? renderInline(item[0].children) : renderBlocks(item)}
+        </li>
+      ));
+      return node.ordered ? (
+        <ol key={key} start={node.start} className="list-decimal pl-6 space-y-1 marker:text-mystic-gold/70">
+          {items}
+        </ol>
+      ) : (
+        <ul key={key} className="list-disc pl-6 space-y-1 marker:text-mystic-gold/70">
+          {items}
+        </ul>
+      );
+    }
+
+    case 'table':
+      return (
+        <div key={key} className="overflow-x-auto rounded-lg border border-mystic-gold/15">
+          <table className="w-full border-collapse text-sm">
+            <thead className="bg-mystic-gold/10">
+              <tr>
+                {node.header.map((cell, i) => (
+                  <th
+                    key={i}
+                    style={{ textAlign: node.align[i] ?? undefined }}
+                    className="px-3 py-2 text-left font-semibold text-mystic-gold border-b border-mystic-gold/20"
+                  >
+                    {renderInline(cell)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {node.rows.map((row, i) => (
+                <tr key={i} className="border-b border-mystic-gold/10 last:border-b-0">
+                  {row.map((cell, j) => (
+                    <td key={j} style={{ textAlign: node.align[j] ?? undefined }} className="px-3 py-1.5 align-top">
+                      {renderInline(cell)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+
+    case 'rule':
+      return <hr key={key} className="border-mystic-gold/20" />;
+  }
+}
+
+function renderInline(nodes: InlineNode[], inLink = false): ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'break':
+        return <br key={i} />;
+      case 'strong':
+        return (
+          <strong key={i} className="font-semibold text-foreground">
+            {renderInline(node.children, inLink)}
+          </strong>
+        );
+      case 'emphasis':
+        return <em key={i}>{renderInline(node.children, inLink)}</em>;
+      case 'strikethrough':
+        return <del key={i}>{renderInline(node.children, inLink)}</del>;
+      case 'code':
+        return (
+          <code key={i} className="px-1.5 py-0.5 rounded bg-cosmic-900/50 font-mono text-[0.9em] text-mystic-gold-light">
+            {node.text}
+          </code>
+        );
+      case 'link':
+        // Links can't nest; a URL inside a link label stays text
+        return inLink ? (
+          <Fragment key={i}>{renderInline(node.children, true)}</Fragment>
+        ) : (
+          <a
+            key={i}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-mystic-gold underline underline-offset-2 hover:text-mystic-gold-light"
+          >
+            {renderInline(node.children, true)}
+          </a>
+        );
+    }
+  });
+}
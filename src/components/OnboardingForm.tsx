@@ -1,27 +1,34 @@
 import { useState } from 'react';
-import { AstroShivaAPI, type OnboardingData } from '../services/astroApi';
+import { AstroShivaAPI } from '../services/httpApi';
+import { useBirthDetailsForm } from '../hooks/useBirthDetailsForm';
 import { GlassCard } from './GlassCard';
+import { BirthDetailsFields } from './BirthDetailsFields';
+import { ChartPreview } from './ChartPreview';
+import { FieldErrorMessage } from './FieldErrorMessage';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Separator } from '@/components/ui/separator';
-import { Sparkles, User, Calendar, Clock, MapPin, Compass, Loader2, Globe } from 'lucide-react';
+import { Sparkles, User, Loader2 } from 'lucide-react';
 
 interface Props {
   api: AstroShivaAPI;
+  /** Chart calculation was accepted and continues in the background */
+  onSubmitted: () => void;
+  /** Chart is already calculated and stored */
   onSuccess: () => void;
 }
 
 type LoadingState = 'idle' | 'submitting' | 'calculating' | 'waking-server' | 'storing';
 
-export function OnboardingForm({ api, onSuccess }: Props) {
-  const [formData, setFormData] = useState<OnboardingData>({
+export function OnboardingForm({ api, onSubmitted, onSuccess }: Props) {
+  const form = useBirthDetailsForm({
     name: '',
     dateOfBirth: '',
     timeOfBirth: '',
     place: '',
-    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+    timezone: ''
   });
+  const { formData, fieldErrors, updateFields, errorProps, preview } = form;
   const [loadingState, setLoadingState] = useState<LoadingState>('idle');
   const [error, setError] = useState<string | null>(null);
   const [isRetryable, setIsRetryable] = useState(false);
@@ -30,22 +37,26 @@ export function OnboardingForm({ api, onSuccess }: Props) {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setLoadingState('submitting');
     setError(null);
     setIsRetryable(false);
 
-    try {
-      const formattedData = {
-        ...formData,
-        dateOfBirth: formData.dateOfBirth
-          ? new Date(formData.dateOfBirth).toISOString()
-          : ''
-      };
+    const formattedData = form.prepare();
+    if (!formattedData) return;
+
+    setLoadingState('submitting');
 
-      // STEP 1: Submit to backend (blocking - waits for Python API + Convex storage)
+    try {
+      // STEP 1: Submit to backend
       setLoadingState('calculating');
       const result = await api.onboard(formattedData);
 
+      if (result.success && result.data?.status === 'processing') {
+        // Calculation continues asynchronously - hand off to status polling
+        setLoadingState('idle');
+        onSubmitted();
+        return;
+      }
+
       if (result.success && result.data?.status === 'completed') {
         // STEP 2: Verify data exists in Convex before transitioning
         setLoadingState('storing');
@@ -54,7 +65,7 @@ export function OnboardingForm({ api, onSuccess }: Props) {
         const verificationResult = await api.getProfile();
         if (verificationResult.success && 
             verificationResult.data?.status === 'completed' &&
-            verificationResult.data?.astroData) {
+            verificationResult.data?.astroProfile) {
           console.log('[Onboarding] Verification successful - astrological data confirmed in Convex');
           setLoadingState('idle');
           onSuccess();
@@ -84,9 +95,9 @@ export function OnboardingForm({ api, onSuccess }: Props) {
         }
         setLoadingState('idle');
       }
-    } catch (err: any) {
+    } catch (err) {
       console.error('Onboarding error:', err);
-      setError(err?.message || 'Failed to submit onboarding data. Please check your connection and try again.');
+      setError(err instanceof Error && err.message ? err.message : 'Failed to submit onboarding data. Please check your connection and try again.');
       setIsRetryable(true);
       setLoadingState('idle');
     }
@@ -115,7 +126,7 @@ export function OnboardingForm({ api, onSuccess }: Props) {
             </div>
           )}
 
-          <form onSubmit={handleSubmit} className="space-y-6">
+          <form onSubmit={handleSubmit} noValidate className="space-y-6">
             {/* Name Field */}
             <div className="space-y-2">
               <Label htmlFor="name" className="text-foreground/90 flex items-center gap-2">
@@ -126,125 +137,20 @@ export function OnboardingForm({ api, onSuccess }: Props) {
                 id="name"
                 type="text"
                 value={formData.name}
-                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                onChange={(e) => updateFields({ name: e.target.value })}
                 placeholder="Enter your full name"
                 required
-                minLength={2}
-                maxLength={100}
-                className="mystic-input h-12 text-foreground placeholder:text-muted-foreground/50"
-              />
-            </div>
-
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              {/* Date of Birth */}
-              <div className="space-y-2">
-                <Label htmlFor="dateOfBirth" className="text-foreground/90 flex items-center gap-2">
-                  <Calendar className="w-4 h-4 text-mystic-gold" />
-                  Date of Birth <span className="text-mystic-gold">*</span>
-                </Label>
-                <Input
-                  id="dateOfBirth"
-                  type="date"
-                  value={formData.dateOfBirth}
-                  onChange={(e) => setFormData({ ...formData, dateOfBirth: e.target.value })}
-                  required
-                  className="mystic-input h-12 text-foreground"
-                />
-              </div>
-
-              {/* Time of Birth */}
-              <div className="space-y-2">
-                <Label htmlFor="timeOfBirth" className="text-foreground/90 flex items-center gap-2">
-                  <Clock className="w-4 h-4 text-mystic-gold" />
-                  Time of Birth <span className="text-mystic-gold">*</span>
-                </Label>
-                <Input
-                  id="timeOfBirth"
-                  type="time"
-                  value={formData.timeOfBirth}
-                  onChange={(e) => setFormData({ ...formData, timeOfBirth: e.target.value })}
-                  required
-                  className="mystic-input h-12 text-foreground"
-                />
-                <p className="text-xs text-muted-foreground">Use 24-hour format (HH:mm)</p>
-              </div>
-            </div>
-
-            {/* Place of Birth */}
-            <div className="space-y-2">
-              <Label htmlFor="place" className="text-foreground/90 flex items-center gap-2">
-                <MapPin className="w-4 h-4 text-mystic-gold" />
-                Place of Birth <span className="text-mystic-gold">*</span>
-              </Label>
-              <Input
-                id="place"
-                type="text"
-                value={formData.place}
-                onChange={(e) => setFormData({ ...formData, place: e.target.value })}
-                placeholder="City, Country"
-                required
-                minLength={2}
+                {...errorProps('name')}
                 className="mystic-input h-12 text-foreground placeholder:text-muted-foreground/50"
               />
+              <FieldErrorMessage id="name-error" error={fieldErrors.name} />
             </div>
 
-            <Separator className="bg-mystic-gold/20" />
+            <BirthDetailsFields form={form} />
 
-            {/* Optional Coordinates */}
-            <div className="space-y-4">
-              <Label className="text-foreground/90 flex items-center gap-2">
-                <Compass className="w-4 h-4 text-mystic-gold" />
-                Coordinates (Optional)
-              </Label>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="latitude" className="text-sm text-muted-foreground">Latitude</Label>
-                  <Input
-                    id="latitude"
-                    type="number"
-                    step="0.0001"
-                    value={formData.latitude || ''}
-                    onChange={(e) => setFormData({ ...formData, latitude: e.target.value ? parseFloat(e.target.value) : undefined })}
-                    placeholder="e.g., 40.7128"
-                    min={-90}
-                    max={90}
-                    className="mystic-input h-10 text-foreground placeholder:text-muted-foreground/50"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="longitude" className="text-sm text-muted-foreground">Longitude</Label>
-                  <Input
-                    id="longitude"
-                    type="number"
-                    step="0.0001"
-                    value={formData.longitude || ''}
-                    onChange={(e) => setFormData({ ...formData, longitude: e.target.value ? parseFloat(e.target.value) : undefined })}
-                    placeholder="e.g., -74.0060"
-                    min={-180}
-                    max={180}
-                    className="mystic-input h-10 text-foreground placeholder:text-muted-foreground/50"
-                  />
-                </div>
-              </div>
-              {/* Timezone Field */}
-              <div className="space-y-2 pt-2">
-                <Label htmlFor="timezone" className="text-sm text-muted-foreground flex items-center gap-2">
-                  <Globe className="w-4 h-4 text-mystic-gold" />
-                  Timezone
-                </Label>
-                <Input
-                  id="timezone"
-                  type="text"
-                  value={formData.timezone || ''}
-                  onChange={(e) => setFormData({ ...formData, timezone: e.target.value })}
-                  placeholder="e.g., America/New_York or UTC+5:30"
-                  className="mystic-input h-10 text-foreground placeholder:text-muted-foreground/50"
-                />
-                <p className="text-xs text-muted-foreground">
-                  Defaults to your browser timezone. Use IANA format (e.g., Asia/Calcutta) or UTC offset.
-                </p>
-              </div>
-            </div>
+            {preview?.kind === 'exact' && formData.latitude !== undefined && formData.longitude !== undefined && (
+              <ChartPreview utc={preview.moment.utc} latitude={formData.latitude} longitude={formData.longitude} />
+            )}
 
             {/* Submit Button */}
             <Button
@@ -0,0 +1,116 @@
+import { useEffect, useCallback, useState } from 'react';
+import { AstroShivaAPI } from '../services/httpApi';
+import { useOnboardingPolling, type OnboardingStatus, type PollingError } from '../hooks/usePolling';
+import { GlassCard } from './GlassCard';
+import { StarBackground } from './StarBackground';
+import { Button } from '@/components/ui/button';
+import { Sparkles, RefreshCw } from 'lucide-react';
+
+interface Props {
+  api: AstroShivaAPI;
+  onComplete: () => void;
+  onFail: (reason?: string) => void;
+}
+
+/**
+ * OnboardingProgress
+ *
+ * Shown while the backend calculates the birth chart. Polls /users/profile
+ * until the status leaves `processing`, so a reload mid-calculation simply
+ * lands here again and resumes polling.
+ */
+export function OnboardingProgress({ api, onComplete, onFail }: Props) {
+  const [pollError, setPollError] = useState<string | null>(null);
+
+  const checkStatus = useCallback(async (): Promise<OnboardingStatus> => {
+    const res = await api.getProfile();
+    if (!res.success || !res.data) {
+      throw new Error(res.error?.message || 'Unable to read your profile status');
+    }
+    return res.data;
+  }, [api]);
+
+  const handleComplete = useCallback(() => onComplete(), [onComplete]);
+  const handleFail = useCallback(
+    (status: OnboardingStatus) => onFail(status.failureReason),
+    [onFail]
+  );
+  const handleError = useCallback((error: PollingError) => {
+    console.error('[OnboardingProgress] Polling stopped:', error);
+    setPollError(
+      error.code === 'MAX_POLLS_EXCEEDED'
+        ? 'Your chart is taking longer than usual to calculate.'
+        : 'We lost touch with the stars while checking on your chart.'
+    );
+  }, []);
+
+  const { start, stop, reset, progress } = useOnboardingPolling({
+    checkStatus,
+    onComplete: handleComplete,
+    onFail: handleFail,
+    onError: handleError,
+  });
+
+  useEffect(() => {
+    start();
+    return () => stop();
+  }, [start, stop]);
+
+  const keepWaiting = () => {
+    setPollError(null);
+    reset();
+    start();
+  };
+
+  const percent = Math.round(progress);
+
+  return (
+    <div className="min-h-screen cosmic-gradient flex flex-col items-center justify-center p-4 relative">
+      <StarBackground />
+
+      <div className="relative z-10 w-full max-w-md">
+        <GlassCard glow="purple" className="text-center">
+          <div className="relative mb-6 flex justify-center">
+            <div className="w-20 h-20 rounded-full border-2 border-mystic-gold/20 border-t-mystic-gold animate-spin" />
+            <div className="absolute inset-0 flex items-center justify-center">
+              <Sparkles size={32} className="text-mystic-gold/60" />
+            </div>
+          </div>
+          <h2 className="text-2xl font-display text-gradient-gold mb-2">
+            Calculating Your Birth Chart
+          </h2>
+          <p className="text-muted-foreground font-body italic mb-6">
+            The planets are being placed in their houses. This can take a couple of minutes.
+          </p>
+
+          {/* Estimated progress */}
+          <div
+            className="h-2 w-full rounded-full bg-mystic-gold/10 overflow-hidden mb-2"
+            role="progressbar"
+            aria-valuenow={percent}
+            aria-valuemin={0}
+            aria-valuemax={100}
+          >
+            <div
+              className="h-full bg-gradient-to-r from-mystic-purple to-mystic-gold transition-all duration-700"
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground mb-6">About {percent}% complete</p>
+
+          {pollError && (
+            <>
+              <div className="mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-300 text-sm">
+                {pollError}
+              </div>
+              <Button variant="outline" onClick={keepWaiting} className="w-full">
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Keep Waiting
+              </Button>
+            </>
+          )}
+        </GlassCard>
+      </div>
+    </div>
+  );
+}
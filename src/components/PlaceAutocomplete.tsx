@@ -0,0 +1,145 @@
+import { useState, useRef } from 'react';
+import { getGeocoder, formatPlace, type Geocoder, type GeoPlace } from '@/lib/geocoder';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { MapPin } from 'lucide-react';
+
+interface Props {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  onSelect: (place: GeoPlace) => void;
+  geocoder?: Geocoder;
+  placeholder?: string;
+  required?: boolean;
+  className?: string;
+  'aria-invalid'?: boolean;
+  'aria-describedby'?: string;
+}
+
+/**
+ * PlaceAutocomplete
+ *
+ * Text input with birth-place suggestions from the active geocoder.
+ * Picking a suggestion reports the full place (coordinates and timezone);
+ * free text is still accepted for places the geocoder does not know.
+ */
+export function PlaceAutocomplete({
+  id,
+  value,
+  onChange,
+  onSelect,
+  geocoder = getGeocoder(),
+  placeholder,
+  required,
+  className,
+  'aria-invalid': ariaInvalid,
+  'aria-describedby': ariaDescribedBy,
+}: Props) {
+  const [suggestions, setSuggestions] = useState<GeoPlace[]>([]);
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const searchIdRef = useRef(0);
+
+  const handleChange = (text: string) => {
+    onChange(text);
+
+    // Ignore results from searches superseded by later keystrokes
+    const searchId = ++searchIdRef.current;
+    geocoder
+      .search(text)
+      .then((results) => {
+        if (searchId !== searchIdRef.current) return;
+        setSuggestions(results);
+        setHighlighted(0);
+        setOpen(results.length > 0);
+      })
+      .catch((err) => {
+        console.error('[PlaceAutocomplete] Lookup failed:', err);
+      });
+  };
+
+  const select = (place: GeoPlace) => {
+    searchIdRef.current++;
+    setOpen(false);
+    setSuggestions([]);
+    onSelect(place);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((i) => (i + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((i) => (i - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      select(suggestions[highlighted]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  const listId = id ? `${id}-suggestions` : undefined;
+
+  return (
+    <div className="relative">
+      <Input
+        id={id}
+        type="text"
+        value={value}
+        onChange={(e) => handleChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setOpen(suggestions.length > 0)}
+        onBlur={() => setOpen(false)}
+        placeholder={placeholder}
+        required={required}
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={open}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-invalid={ariaInvalid}
+        aria-describedby={ariaDescribedBy}
+        className={className}
+      />
+
+      {open && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-20 mt-1 w-full glass-card rounded-lg border border-mystic-gold/20 py-1 max-h-72 overflow-auto"
+        >
+          {suggestions.map((place, i) => (
+            <li
+              key={place.id}
+              role="option"
+              aria-selected={i === highlighted}
+              // Select on mousedown so it lands before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                select(place);
+              }}
+              onMouseEnter={() => setHighlighted(i)}
+              className={cn(
+                'px-3 py-2 cursor-pointer flex items-start gap-2 text-sm',
+                i === highlighted && 'bg-mystic-gold/15'
+              )}
+            >
+              <MapPin className="w-4 h-4 mt-0.5 shrink-0 text-mystic-gold/70" />
+              <div className="min-w-0">
+                <p className="text-foreground truncate">{formatPlace(place)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {place.latitude.toFixed(4)}, {place.longitude.toFixed(4)} · {place.timezone}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
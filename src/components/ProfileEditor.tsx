@@ -0,0 +1,235 @@
+import { useState } from 'react';
+import {
+  AstroShivaAPI,
+  type BirthDetails,
+  type OnboardingData,
+  type ProfileUpdate,
+  type UserProfile,
+} from '../services/httpApi';
+import { useBirthDetailsForm } from '../hooks/useBirthDetailsForm';
+import { GlassCard } from './GlassCard';
+import { BirthDetailsFields } from './BirthDetailsFields';
+import { FieldErrorMessage } from './FieldErrorMessage';
+import { validateEmail, type FieldError } from '@/lib/validation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { ArrowLeft, Loader2, Mail, Save, Sparkles, User } from 'lucide-react';
+
+interface Props {
+  api: AstroShivaAPI;
+  profile: UserProfile;
+  onCancel: () => void;
+  /** Saved; `recalculating` when changed birth details restarted chart calculation */
+  onSaved: (recalculating: boolean) => void;
+}
+
+const BIRTH_FIELDS: (keyof BirthDetails)[] = [
+  'dateOfBirth',
+  'timeOfBirth',
+  'place',
+  'latitude',
+  'longitude',
+  'timezone',
+];
+
+/**
+ * Form values from a stored profile; the stored date is ISO midnight UTC
+ */
+function toFormData(profile: UserProfile): OnboardingData {
+  return {
+    name: profile.name,
+    dateOfBirth: profile.dateOfBirth?.slice(0, 10) ?? '',
+    timeOfBirth: profile.timeOfBirth ?? '',
+    place: profile.place ?? '',
+    latitude: profile.latitude,
+    longitude: profile.longitude,
+    timezone: profile.timezone ?? '',
+  };
+}
+
+/**
+ * ProfileEditor
+ *
+ * Shows the stored birth details and astro summary and lets the user
+ * correct them. Name and email save directly; changed birth details are
+ * sent with the resolved birth moment and restart chart calculation.
+ */
+export function ProfileEditor({ api, profile, onCancel, onSaved }: Props) {
+  const [initialData] = useState(() => toFormData(profile));
+  const form = useBirthDetailsForm(initialData);
+  const { formData, fieldErrors, updateFields, errorProps } = form;
+  const [email, setEmail] = useState(profile.email ?? '');
+  const [emailError, setEmailError] = useState<FieldError | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const birthChanged = BIRTH_FIELDS.some((field) => formData[field] !== initialData[field]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const emailCheck = validateEmail(email);
+    setEmailError(emailCheck);
+    const prepared = form.prepare();
+    if (!prepared || emailCheck) return;
+
+    const update: ProfileUpdate = { name: prepared.name };
+    if (email.trim() !== (profile.email ?? '')) update.email = email.trim();
+    if (birthChanged) {
+      Object.assign(update, {
+        dateOfBirth: prepared.dateOfBirth,
+        timeOfBirth: prepared.timeOfBirth,
+        place: prepared.place,
+        latitude: prepared.latitude,
+        longitude: prepared.longitude,
+        timezone: prepared.timezone,
+        birthInstant: prepared.birthInstant,
+        utcOffset: prepared.utcOffset,
+      } satisfies BirthDetails);
+    }
+
+    setSaving(true);
+    try {
+      const result = await api.updateProfile(update);
+      if (!result.success) {
+        setError(result.error?.message || 'Could not save your profile. Please try again.');
+        setSaving(false);
+        return;
+      }
+      onSaved(birthChanged || result.data?.status === 'processing');
+    } catch (err) {
+      console.error('[ProfileEditor] Save failed:', err);
+      setError(err instanceof Error && err.message ? err.message : 'Could not save your profile. Please try again.');
+      setSaving(false);
+    }
+  };
+
+  const astro = profile.astroProfile;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 md:p-8">
+      <div className="w-full max-w-2xl space-y-6">
+        <Button
+          variant="ghost"
+          onClick={onCancel}
+          disabled={saving}
+          className="text-muted-foreground hover:text-mystic-gold"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to chat
+        </Button>
+
+        {/* Astro Summary */}
+        {astro && (
+          <GlassCard glow="gold">
+            <h2 className="flex items-center gap-2 text-xl font-display text-gradient-gold mb-3">
+              <Sparkles className="w-5 h-5 text-mystic-gold" />
+              Your Chart
+            </h2>
+            {(astro.ascendant || astro.moonSign) && (
+              <div className="flex flex-wrap gap-4 mb-3 text-sm">
+                {astro.ascendant && (
+                  <span>
+                    <span className="text-muted-foreground">Ascendant:</span>{' '}
+                    <span className="text-mystic-gold">{astro.ascendant}</span>
+                  </span>
+                )}
+                {astro.moonSign && (
+                  <span>
+                    <span className="text-muted-foreground">Moon sign:</span>{' '}
+                    <span className="text-mystic-gold">{astro.moonSign}</span>
+                  </span>
+                )}
+              </div>
+            )}
+            {astro.astroSummary && (
+              <p className="text-sm text-muted-foreground leading-relaxed whitespace-pre-line">
+                {astro.astroSummary}
+              </p>
+            )}
+          </GlassCard>
+        )}
+
+        <GlassCard glow="purple">
+          <h1 className="text-2xl font-display font-bold text-gradient-gold mb-6">
+            Profile & Birth Details
+          </h1>
+
+          {error && (
+            <div className="mb-6 p-4 rounded-lg bg-red-500/10 border border-red-500/30 text-red-300 text-sm">
+              {error}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} noValidate className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <Label htmlFor="name" className="text-foreground/90 flex items-center gap-2">
+                  <User className="w-4 h-4 text-mystic-gold" />
+                  Full Name <span className="text-mystic-gold">*</span>
+                </Label>
+                <Input
+                  id="name"
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => updateFields({ name: e.target.value })}
+                  required
+                  {...errorProps('name')}
+                  className="mystic-input h-12 text-foreground placeholder:text-muted-foreground/50"
+                />
+                <FieldErrorMessage id="name-error" error={fieldErrors.name} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="email" className="text-foreground/90 flex items-center gap-2">
+                  <Mail className="w-4 h-4 text-mystic-gold" />
+                  Email
+                </Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => {
+                    setEmail(e.target.value);
+                    setEmailError(null);
+                  }}
+                  placeholder="you@example.com"
+                  aria-invalid={emailError ? true : undefined}
+                  aria-describedby={emailError ? 'email-error' : undefined}
+                  className="mystic-input h-12 text-foreground placeholder:text-muted-foreground/50"
+                />
+                <FieldErrorMessage id="email-error" error={emailError ?? undefined} />
+              </div>
+            </div>
+
+            <Separator className="bg-mystic-gold/20" />
+
+            <BirthDetailsFields form={form} />
+
+            {birthChanged && (
+              <p className="text-sm text-amber-200">
+                Changing birth details recalculates your chart. This can take a couple of minutes.
+              </p>
+            )}
+
+            <div className="flex gap-3">
+              <Button type="button" variant="outline" onClick={onCancel} disabled={saving} className="flex-1">
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving} className="flex-1 mystic-button">
+                {saving ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Save className="mr-2 h-4 w-4" />
+                )}
+                {birthChanged ? 'Save & Recalculate' : 'Save'}
+              </Button>
+            </div>
+          </form>
+        </GlassCard>
+      </div>
+    </div>
+  );
+}
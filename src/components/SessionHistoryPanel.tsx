@@ -0,0 +1,221 @@
+import { useState, useCallback, useMemo } from 'react';
+import { AstroShivaAPI, type ChatSessionSummary } from '../services/httpApi';
+import { useCachedResource } from '../hooks/useCachedResource';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+import { History, Plus, X, Loader2, MessageSquare, Trash2 } from 'lucide-react';
+
+interface Props {
+  api: AstroShivaAPI;
+  activeSessionId: string | null;
+  onSelectSession: (sessionId: string) => void;
+  onNewSession: () => void;
+  /** Forget the conversations saved on this device (server history is untouched) */
+  onClearLocalHistory?: () => Promise<void>;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 20;
+
+/**
+ * SessionHistoryPanel
+ *
+ * Slide-over list of past chat sessions backed by GET /chat/sessions.
+ * The first page comes from the response cache and refreshes whenever a
+ * chat invalidates it; later pages are fetched with limit/offset on demand.
+ * Lets the user reopen a session or start a new one, and clear the copies
+ * of their conversations kept on this device.
+ */
+export function SessionHistoryPanel({
+  api,
+  activeSessionId,
+  onSelectSession,
+  onNewSession,
+  onClearLocalHistory,
+  onClose,
+}: Props) {
+  const fetchFirstPage = useCallback(
+    (options: { revalidate: boolean }) => api.getChatSessions({ limit: PAGE_SIZE }, options),
+    [api]
+  );
+  const firstPage = useCachedResource(api, '/chat/sessions', fetchFirstPage);
+
+  const [olderSessions, setOlderSessions] = useState<ChatSessionSummary[]>([]);
+  const [olderHasMore, setOlderHasMore] = useState<boolean | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [moreError, setMoreError] = useState<string | null>(null);
+  const [confirmingClear, setConfirmingClear] = useState(false);
+  const [clearing, setClearing] = useState(false);
+
+  // A refreshed first page may now contain sessions already loaded below it
+  const sessions = useMemo(() => {
+    const first = firstPage.data?.sessions ?? [];
+    const seen = new Set(first.map((session) => session.id));
+    return [...first, ...olderSessions.filter((session) => !seen.has(session.id))];
+  }, [firstPage.data, olderSessions]);
+
+  const hasMore = olderHasMore ?? firstPage.data?.hasMore ?? false;
+  const loading = firstPage.loading || loadingMore;
+  const error = moreError ?? (firstPage.data ? null : firstPage.error);
+
+  const loadMore = async () => {
+    if (!firstPage.data) {
+      firstPage.refresh();
+      return;
+    }
+
+    setLoadingMore(true);
+    setMoreError(null);
+    try {
+      const result = await api.getChatSessions({ limit: PAGE_SIZE, offset: sessions.length });
+      if (result.success && result.data) {
+        const page = result.data.sessions;
+        setOlderSessions(prev => [...prev, ...page]);
+        setOlderHasMore(result.data.hasMore);
+      } else {
+        setMoreError(result.error?.message || 'Unable to load your past sessions.');
+      }
+    } catch (err) {
+      console.error('[SessionHistoryPanel] Error loading sessions:', err);
+      setMoreError('Unable to load your past sessions.');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const clearLocalHistory = async () => {
+    if (!onClearLocalHistory) return;
+    if (!confirmingClear) {
+      setConfirmingClear(true);
+      return;
+    }
+
+    setClearing(true);
+    try {
+      await onClearLocalHistory();
+    } catch (err) {
+      console.error('[SessionHistoryPanel] Error clearing local history:', err);
+    } finally {
+      setClearing(false);
+      setConfirmingClear(false);
+    }
+  };
+
+  const formatDate = (iso?: string) => {
+    if (!iso) return '';
+    return new Date(iso).toLocaleDateString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+  };
+
+  return (
+    <aside className="glass-card border-r border-mystic-gold/20 w-80 max-w-[85vw] h-full flex flex-col">
+      <div className="px-4 py-4 flex items-center justify-between border-b border-mystic-gold/20 shrink-0">
+        <h2 className="font-display text-lg text-gradient-gold flex items-center gap-2">
+          <History className="w-5 h-5 text-mystic-gold" />
+          Past Sessions
+        </h2>
+        <Button variant="ghost" size="icon" onClick={onClose} className="text-muted-foreground hover:text-mystic-gold">
+          <X className="w-5 h-5" />
+        </Button>
+      </div>
+
+      <div className="px-4 py-3 shrink-0">
+        <Button
+          onClick={onNewSession}
+          className="w-full mystic-button bg-gradient-to-r from-mystic-purple to-mystic-blue border border-mystic-gold/30 text-white"
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          New Session
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1 px-2 pb-4">
+        <div className="space-y-1">
+          {sessions.map((session) => (
+            <button
+              key={session.id}
+              onClick={() => onSelectSession(session.id)}
+              className={cn(
+                'w-full text-left px-3 py-3 rounded-lg transition-colors hover:bg-mystic-gold/10',
+                session.id === activeSessionId && 'bg-mystic-gold/15 border border-mystic-gold/30'
+              )}
+            >
+              <div className="flex items-start gap-2">
+                <MessageSquare className="w-4 h-4 mt-1 shrink-0 text-mystic-gold/70" />
+                <div className="min-w-0">
+                  <p className="text-sm text-foreground truncate font-body">
+                    {session.summary || `Session ${session.id.slice(0, 8)}`}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatDate(session.lastMessageAt || session.createdAt)} · {session.messageCount} messages
+                  </p>
+                </div>
+              </div>
+            </button>
+          ))}
+
+          {!loading && !error && sessions.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-6 italic">
+              No past sessions yet
+            </p>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-300 text-center py-4">{error}</p>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-mystic-gold" />
+            </div>
+          ) : (
+            (hasMore || error) && (
+              <Button variant="ghost" onClick={loadMore} className="w-full text-muted-foreground hover:text-mystic-gold">
+                {error ? 'Try Again' : 'Load more'}
+              </Button>
+            )
+          )}
+        </div>
+      </ScrollArea>
+
+      {onClearLocalHistory && (
+        <div className="px-4 py-3 border-t border-mystic-gold/20 shrink-0 space-y-2">
+          {confirmingClear && (
+            <p className="text-xs text-muted-foreground text-center">
+              Removes the conversations saved in this browser and any messages still waiting to be sent.
+              Your history on the server is kept.
+            </p>
+          )}
+          <div className="flex gap-2">
+            {confirmingClear && (
+              <Button
+                variant="ghost"
+                onClick={() => setConfirmingClear(false)}
+                disabled={clearing}
+                className="flex-1 text-muted-foreground"
+              >
+                Cancel
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              onClick={clearLocalHistory}
+              disabled={clearing}
+              className={cn(
+                'flex-1 text-muted-foreground hover:text-red-300',
+                confirmingClear && 'text-red-300 bg-red-500/10 hover:bg-red-500/20'
+              )}
+            >
+              {clearing ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Trash2 className="mr-2 h-4 w-4" />
+              )}
+              {confirmingClear ? 'Clear' : 'Clear local history'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,165 @@
+import { useMemo, useState } from 'react';
+import { ChartDiagram, type ChartStyle } from './ChartDiagram';
+import { SIGNS, formatDegree, type BirthChart } from '@/lib/birthChart';
+import { transitContext, transitSnapshot, type TransitTone } from '@/lib/transits';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, MessageCircle } from 'lucide-react';
+
+interface Props {
+  natal: BirthChart;
+  style: ChartStyle;
+  /** Send the transit summary to the chat */
+  onAsk?: (question: string) => void;
+}
+
+const DAY_MS = 86400000;
+/** Reach of the slider either side of today */
+const SCRUB_DAYS = 730;
+
+const TONE_CLASSES: Record<TransitTone, string> = {
+  challenging: 'bg-mystic-rose-light',
+  supportive: 'bg-mystic-gold',
+  mixed: 'bg-mystic-blue-light',
+};
+
+/** yyyy-mm-dd in local time, for the date input */
+function toDateInput(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * TransitView
+ *
+ * Today's sky over the natal chart: transiting planets drawn on the
+ * chart, where each one falls in the natal houses, and the significant
+ * transits. A scrubber moves the date by days or months, and the whole
+ * picture can be sent to the chat as a question.
+ */
+export function TransitView({ natal, style, onAsk }: Props) {
+  const [now] = useState(() => new Date());
+  const [offsetDays, setOffsetDays] = useState(0);
+
+  const time = now.getTime() + offsetDays * DAY_MS;
+  const snapshot = useMemo(() => transitSnapshot(natal, new Date(time)), [natal, time]);
+
+  const pickDate = (value: string) => {
+    const [year, month, day] = value.split('-').map(Number);
+    if (!year || !month || !day) return;
+    const picked = new Date(now);
+    picked.setFullYear(year, month - 1, day);
+    setOffsetDays(Math.round((picked.getTime() - now.getTime()) / DAY_MS));
+  };
+
+  const step = (days: number) => setOffsetDays((current) => current + days);
+
+  return (
+    <div className="space-y-4 font-body">
+      {/* Date scrubber */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="icon" onClick={() => step(-30)} title="Back a month" className="text-muted-foreground hover:text-mystic-gold">
+            <ChevronsLeft className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={() => step(-1)} title="Back a day" className="text-muted-foreground hover:text-mystic-gold">
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <input
+            type="date"
+            value={toDateInput(snapshot.date)}
+            min="1900-01-01"
+            max="2100-12-31"
+            onChange={(e) => pickDate(e.target.value)}
+            aria-label="Transit date"
+            className="flex-1 min-w-0 h-9 rounded-md bg-cosmic-900/40 border border-mystic-gold/20 px-2 text-sm text-foreground text-center [color-scheme:dark]"
+          />
+          <Button variant="ghost" size="icon" onClick={() => step(1)} title="Forward a day" className="text-muted-foreground hover:text-mystic-gold">
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={() => step(30)} title="Forward a month" className="text-muted-foreground hover:text-mystic-gold">
+            <ChevronsRight className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="flex items-center gap-3">
+          <input
+            type="range"
+            min={-SCRUB_DAYS}
+            max={SCRUB_DAYS}
+            value={Math.max(-SCRUB_DAYS, Math.min(SCRUB_DAYS, offsetDays))}
+            onChange={(e) => setOffsetDays(Number(e.target.value))}
+            aria-label="Scrub transit date"
+            className="flex-1 accent-mystic-gold"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setOffsetDays(0)}
+            disabled={offsetDays === 0}
+            className="border-mystic-gold/30 text-mystic-gold hover:bg-mystic-gold/10"
+          >
+            Today
+          </Button>
+        </div>
+      </div>
+
+      <ChartDiagram chart={natal} transits={snapshot.planets} style={style} title="Transits" />
+
+      <p className="flex items-center justify-center gap-4 text-xs text-muted-foreground">
+        <span><span className="text-foreground">Su</span> natal</span>
+        <span><span className="text-mystic-blue-light">Su</span> transiting</span>
+      </p>
+
+      {/* Significant transits */}
+      {snapshot.events.length > 0 && (
+        <ul className="space-y-2">
+          {snapshot.events.map((event) => (
+            <li key={event.id} className="rounded-lg border border-mystic-gold/15 bg-cosmic-900/30 px-3 py-2">
+              <p className="text-sm text-foreground flex items-center gap-2">
+                <span className={cn('w-2 h-2 rounded-full shrink-0', TONE_CLASSES[event.tone])} title={event.tone} />
+                {event.title}
+              </p>
+              <p className="text-xs text-muted-foreground mt-0.5">{event.detail}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-mystic-gold border-b border-mystic-gold/20">
+            <th className="py-1.5 pr-2 font-semibold">Transiting</th>
+            <th className="py-1.5 pr-2 font-semibold">Position</th>
+            <th className="py-1.5 font-semibold text-right">Natal house</th>
+          </tr>
+        </thead>
+        <tbody>
+          {snapshot.planets.map((position) => (
+            <tr key={position.planet} className="border-b border-mystic-gold/10 last:border-b-0">
+              <td className="py-1.5 pr-2 text-foreground">
+                {position.planet}
+                {position.retrograde && position.planet !== 'Rahu' && position.planet !== 'Ketu' && (
+                  <span className="ml-1 text-mystic-rose-light" title="Retrograde">℞</span>
+                )}
+              </td>
+              <td className="py-1.5 pr-2 text-muted-foreground">
+                {formatDegree(position.degree)} {SIGNS[position.sign].name}
+              </td>
+              <td className="py-1.5 text-right text-muted-foreground">{position.house}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {onAsk && (
+        <Button
+          onClick={() => onAsk(transitContext(snapshot))}
+          className="w-full bg-gradient-to-r from-mystic-purple to-mystic-blue hover:from-mystic-purple-light hover:to-mystic-blue-light border border-mystic-gold/30 text-white"
+        >
+          <MessageCircle className="w-4 h-4 mr-2" />
+          Ask about these transits
+        </Button>
+      )}
+    </div>
+  );
+}
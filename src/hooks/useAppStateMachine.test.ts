@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { checkProfileEvent } from './useAppStateMachine';
+import { HttpApiError, NetworkError, type ApiResponse, type UserProfile } from '../services/httpApi';
+
+const PROFILE: UserProfile = {
+  id: 'user_1',
+  name: 'Asha',
+  status: 'completed',
+  createdAt: '2024-01-01T00:00:00Z',
+};
+
+function provider(getToken: () => Promise<string | null>) {
+  return { getToken };
+}
+
+function api(getProfile: () => Promise<ApiResponse<UserProfile>>) {
+  return { getProfile };
+}
+
+describe('checkProfileEvent', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('loads the profile once there is a token', async () => {
+    const event = await checkProfileEvent(
+      provider(async () => 'token'),
+      api(async () => ({ success: true, data: PROFILE }))
+    );
+    expect(event).toEqual({ type: 'PROFILE_LOADED', profile: PROFILE });
+  });
+
+  it('signs out without a token, without asking for the profile', async () => {
+    const getProfile = vi.fn();
+    const event = await checkProfileEvent(provider(async () => null), api(getProfile));
+    expect(event).toEqual({ type: 'SIGNED_OUT' });
+    expect(getProfile).not.toHaveBeenCalled();
+  });
+
+  it('reports a failed token refresh instead of rejecting', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const event = await checkProfileEvent(
+      provider(async () => {
+        throw new TypeError('Failed to fetch');
+      }),
+      api(vi.fn())
+    );
+    expect(event.type).toBe('PROFILE_ERROR');
+  });
+
+  it.each([
+    [new HttpApiError('Unauthorized', 'UNAUTHORIZED', 401), 'AUTH_EXPIRED'],
+    [new HttpApiError('Not found', 'NOT_FOUND', 404), 'PROFILE_NOT_FOUND'],
+    [new HttpApiError('Unavailable', 'SERVER_ERROR', 503), 'PROFILE_ERROR'],
+    [new NetworkError(), 'PROFILE_ERROR'],
+  ])('maps a failed profile request (%s) to %s', async (error, type) => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const event = await checkProfileEvent(
+      provider(async () => 'token'),
+      api(async () => {
+        throw error;
+      })
+    );
+    expect(event.type).toBe(type);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * useAppStateMachine Hook
+ *
+ * Drives the app state machine from the outside world:
+ * - Auth provider sign-in/sign-out → SIGNED_IN / SIGNED_OUT
+ * - Entering checking-profile → fetch /users/profile and report the outcome
+ * - Sign-out → drop the API response cache
+ *
+ * Screens dispatch their own events (onboarding submitted, retry, ...)
+ * through `send`.
+ */
+
+import { useReducer, useEffect, useMemo, useCallback } from 'react';
+import { AstroShivaAPI, HttpApiError } from '../services/httpApi';
+import { getAuthProvider, type AuthProvider } from '../services/authProvider';
+import { transition, INITIAL_APP_STATE, type AppEvent } from '../lib/appStateMachine';
+
+/**
+ * Map a failed profile request to the event it represents
+ */
+function eventForProfileError(error: unknown): AppEvent {
+  if (error instanceof HttpApiError) {
+    if (error.statusCode === 401) return { type: 'AUTH_EXPIRED' };
+    if (error.statusCode === 404) return { type: 'PROFILE_NOT_FOUND' };
+    if (error.statusCode >= 500) {
+      return { type: 'PROFILE_ERROR', message: 'Server error. Please try again later.' };
+    }
+    if (error.statusCode > 0) {
+      return { type: 'PROFILE_ERROR', message: 'An unexpected error occurred.' };
+    }
+  }
+  return { type: 'PROFILE_ERROR', message: 'Failed to check user status. Please check your connection.' };
+}
+
+/**
+ * Resolve auth, then the profile status, as the event for checking-profile.
+ * Never rejects: a failed token refresh is reported like a failed profile
+ * request, so the app leaves the loading screen either way.
+ */
+export async function checkProfileEvent(
+  provider: Pick<AuthProvider, 'getToken'>,
+  api: Pick<AstroShivaAPI, 'getProfile'>
+): Promise<AppEvent> {
+  try {
+    const token = await provider.getToken();
+    if (!token) return { type: 'SIGNED_OUT' };
+
+    const res = await api.getProfile();
+    return res.success && res.data
+      ? { type: 'PROFILE_LOADED', profile: res.data }
+      : { type: 'PROFILE_NOT_FOUND' };
+  } catch (err) {
+    console.error('[useAppStateMachine] Profile check failed:', err);
+    return eventForProfileError(err);
+  }
+}
+
+export function useAppStateMachine(provider: AuthProvider = getAuthProvider()) {
+  const [state, send] = useReducer(transition, INITIAL_APP_STATE);
+
+  // The client asks the provider for a fresh token on every request
+  const api = useMemo(() => new AstroShivaAPI(provider), [provider]);
+
+  // Follow the provider's sign-in/sign-out; cached responses never outlive a user
+  useEffect(() => {
+    return provider.subscribe((user) => {
+      if (!user) api.clearCache();
+      send(user ? { type: 'SIGNED_IN' } : { type: 'SIGNED_OUT' });
+    });
+  }, [provider, api]);
+
+  // checking-profile: resolve auth, then the profile status
+  useEffect(() => {
+    if (state.status !== 'checking-profile') return;
+    let cancelled = false;
+
+    checkProfileEvent(provider, api).then((event) => {
+      if (!cancelled) send(event);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [state.status, api, provider]);
+
+  const signIn = useCallback(() => provider.signIn(), [provider]);
+  const signOut = useCallback(() => provider.signOut(), [provider]);
+
+  return { state, send, api, provider, signIn, signOut };
+}
+
+export default useAppStateMachine;
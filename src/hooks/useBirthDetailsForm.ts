@@ -0,0 +1,159 @@
+/**
+ * useBirthDetailsForm
+ *
+ * Form state shared by onboarding and profile editing: field values,
+ * inline validation errors, place selection and the choice between
+ * readings of an ambiguous or skipped birth time.
+ */
+
+import { useState } from 'react';
+import type { OnboardingData } from '../services/httpApi';
+import { formatPlace, type GeoPlace } from '@/lib/geocoder';
+import {
+  resolveBirthMoment,
+  BirthMomentError,
+  type BirthMomentResolution,
+  type ResolvedBirthMoment,
+} from '@/lib/birthMoment';
+import {
+  validateBirthDetails,
+  clearFieldError,
+  type FieldErrors,
+  type ValidationField,
+} from '@/lib/validation';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export type UnresolvedMoment = Exclude<BirthMomentResolution, { kind: 'exact' }>;
+
+export type BirthDetailsForm = ReturnType<typeof useBirthDetailsForm>;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const MOMENT_FIELDS: ValidationField[] = ['dateOfBirth', 'timeOfBirth', 'timezone'];
+
+/**
+ * Resolve the entered birth moment without throwing, for the live offset hint
+ */
+function previewMoment(data: OnboardingData): BirthMomentResolution | null {
+  if (!data.dateOfBirth || !data.timeOfBirth || !data.timezone) return null;
+  try {
+    return resolveBirthMoment({ date: data.dateOfBirth, time: data.timeOfBirth, timeZone: data.timezone });
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+export function useBirthDetailsForm(initialData: OnboardingData) {
+  const [formData, setFormData] = useState<OnboardingData>(initialData);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [pickedPlace, setPickedPlace] = useState<GeoPlace | null>(null);
+  const [unresolvedMoment, setUnresolvedMoment] = useState<UnresolvedMoment | null>(null);
+  const [chosenMoment, setChosenMoment] = useState<ResolvedBirthMoment | null>(null);
+
+  /**
+   * Apply field changes and drop their stale errors. Changing the date, time
+   * or zone also voids any earlier choice between ambiguous readings.
+   */
+  const updateFields = (changes: Partial<OnboardingData>) => {
+    setFormData((data) => ({ ...data, ...changes }));
+    setFieldErrors((errors) =>
+      (Object.keys(changes) as ValidationField[]).reduce(clearFieldError, errors)
+    );
+    if (MOMENT_FIELDS.some((field) => field in changes)) {
+      setUnresolvedMoment(null);
+      setChosenMoment(null);
+    }
+  };
+
+  /** Free-text place edits no longer match the picked suggestion */
+  const typePlace = (place: string) => {
+    updateFields({ place });
+    setPickedPlace(null);
+  };
+
+  const selectPlace = (place: GeoPlace) => {
+    setPickedPlace(place);
+    updateFields({
+      place: formatPlace(place),
+      latitude: place.latitude,
+      longitude: place.longitude,
+      timezone: place.timezone,
+    });
+  };
+
+  /** Props wiring an input to its inline error */
+  const errorProps = (field: ValidationField) => ({
+    'aria-invalid': fieldErrors[field] ? true : undefined,
+    'aria-describedby': fieldErrors[field] ? `${field}-error` : undefined,
+  });
+
+  /**
+   * Validate and normalize for submission. Returns null, with errors or the
+   * ambiguous-time chooser showing, when the form cannot be sent yet.
+   */
+  const prepare = (): OnboardingData | null => {
+    const validation = validateBirthDetails(formData);
+    setFieldErrors(validation.errors);
+    if (!validation.valid) return null;
+
+    let moment: ResolvedBirthMoment;
+    try {
+      const resolution = resolveBirthMoment({
+        date: formData.dateOfBirth,
+        time: formData.timeOfBirth,
+        timeZone: formData.timezone as string,
+      });
+
+      if (resolution.kind === 'exact') {
+        moment = resolution.moment;
+      } else if (chosenMoment && resolution.candidates.some((c) => c.utc === chosenMoment.utc)) {
+        moment = chosenMoment;
+      } else {
+        // Ask which reading of the clock time is meant before submitting
+        setUnresolvedMoment(resolution);
+        return null;
+      }
+    } catch (err) {
+      if (!(err instanceof BirthMomentError)) throw err;
+      setFieldErrors({ timezone: { field: 'timezone', code: 'UNKNOWN_TIMEZONE', message: err.message } });
+      return null;
+    }
+
+    // The calendar date travels as midnight UTC so no local offset can shift it;
+    // the exact instant and offset carry the time zone information
+    return {
+      ...formData,
+      name: formData.name.trim(),
+      place: formData.place.trim(),
+      dateOfBirth: `${moment.localDate}T00:00:00.000Z`,
+      timeOfBirth: moment.localTime,
+      timezone: formData.timezone?.trim(),
+      birthInstant: moment.utc,
+      utcOffset: moment.utcOffset,
+    };
+  };
+
+  return {
+    formData,
+    fieldErrors,
+    pickedPlace,
+    unresolvedMoment,
+    chosenMoment,
+    preview: previewMoment(formData),
+    updateFields,
+    typePlace,
+    selectPlace,
+    chooseMoment: setChosenMoment,
+    errorProps,
+    prepare,
+  };
+}
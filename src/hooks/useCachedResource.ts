@@ -0,0 +1,111 @@
+/**
+ * useCachedResource Hook
+ *
+ * Reads a GET endpoint through AstroShivaAPI's response cache and stays
+ * subscribed to it:
+ * - Cached responses render immediately (stale ones refresh in the background)
+ * - Invalidation after a mutation (e.g. a profile update) triggers a refetch
+ * - `refresh()` bypasses the cache on demand
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { AstroShivaAPI, ApiResponse } from '../services/httpApi';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export interface CachedResourceState<T> {
+  /** Last successful response payload */
+  data: T | null;
+  /** Error message of the last failed load, if any */
+  error: string | null;
+  /** True until the first load settles and during refresh() */
+  loading: boolean;
+}
+
+export interface CachedResourceReturn<T> extends CachedResourceState<T> {
+  /** Fetch again, ignoring the cache */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Fetches the resource; `revalidate` asks it to skip the cache. Keep it
+ * stable (useCallback) so the hook does not refetch on every render.
+ */
+export type CachedResourceFetcher<T> = (options: { revalidate: boolean }) => Promise<ApiResponse<T>>;
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+/**
+ * @example
+ * ```tsx
+ * const fetchProfile = useCallback((opts) => api.getProfile(opts), [api]);
+ * const { data: profile, loading } = useCachedResource(api, '/users/profile', fetchProfile);
+ * ```
+ */
+export function useCachedResource<T>(
+  api: AstroShivaAPI,
+  endpoint: string,
+  fetcher: CachedResourceFetcher<T>
+): CachedResourceReturn<T> {
+  const [state, setState] = useState<CachedResourceState<T>>({
+    data: null,
+    error: null,
+    loading: true,
+  });
+
+  // Only the latest load may write state
+  const loadIdRef = useRef(0);
+
+  const load = useCallback(
+    async (revalidate: boolean) => {
+      const loadId = ++loadIdRef.current;
+      const settle = (next: Partial<CachedResourceState<T>>) => {
+        if (loadId !== loadIdRef.current) return;
+        setState((prev) => {
+          const merged = { ...prev, ...next, loading: false };
+          // Cache hits return the same object; skip the re-render
+          return merged.data === prev.data && merged.error === prev.error && !prev.loading ? prev : merged;
+        });
+      };
+
+      try {
+        const res = await fetcher({ revalidate });
+        settle(res.success && res.data !== undefined
+          ? { data: res.data, error: null }
+          : { error: res.error?.message || 'Unable to load this data.' });
+      } catch (err) {
+        console.error(`[useCachedResource] Loading ${endpoint} failed:`, err);
+        settle({ error: err instanceof Error && err.message ? err.message : 'Unable to load this data.' });
+      }
+    },
+    [fetcher, endpoint]
+  );
+
+  useEffect(() => {
+    load(false);
+    return api.subscribe(endpoint, () => {
+      load(false);
+    });
+  }, [api, endpoint, load]);
+
+  // Orphan in-flight loads on unmount so they never set state
+  useEffect(() => {
+    const loadIds = loadIdRef;
+    return () => {
+      loadIds.current++;
+    };
+  }, []);
+
+  const refresh = useCallback(async () => {
+    setState((prev) => ({ ...prev, loading: true }));
+    await load(true);
+  }, [load]);
+
+  return { ...state, refresh };
+}
+
+export default useCachedResource;
@@ -0,0 +1,220 @@
+/**
+ * useChatOutbox Hook
+ *
+ * Queues chat messages while the API can't be reached and replays them
+ * when it can:
+ * - Connectivity comes from a NetworkMonitor probing /health, so "online
+ *   but API down" also counts as disconnected
+ * - Pending entries replay oldest first as soon as the connection returns
+ * - A replay that hits the network again puts the entry back; after
+ *   MAX_AUTO_ATTEMPTS it is marked failed and waits for a manual retry
+ * - Entries written in a draft take on its session once the server
+ *   assigns one (assignSession)
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { ChatOutbox, type OutboxConversation, type OutboxEntry } from '../services/chatOutbox';
+import { NetworkMonitor } from '@/lib/networkMonitor';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/**
+ * - delivered: sent (the reply, or an error reply, is on screen)
+ * - offline: the network failed again; keep the entry queued
+ * - busy: another message is in flight; stop replaying for now
+ * - skipped: not deliverable here (e.g. another session); try the next one
+ */
+export type DeliveryResult = 'delivered' | 'offline' | 'busy' | 'skipped';
+
+export interface UseChatOutboxOptions {
+  /** User whose outbox this is */
+  ownerId: string;
+  /** Probed to tell whether the API is reachable, e.g. `${baseUrl}/health` */
+  probeUrl: string;
+  /** Send one queued message through the normal chat pipeline */
+  deliver: (entry: OutboxEntry) => Promise<DeliveryResult>;
+}
+
+export interface UseChatOutboxReturn {
+  /** Queued messages, oldest first */
+  entries: OutboxEntry[];
+  /** Browser online and API not known to be unreachable */
+  connected: boolean;
+  /**
+   * Queue a message. `reason` says why it could not be sent: a send that
+   * failed on the network marks the API unreachable; without one, the
+   * message just waits behind older ones.
+   */
+  enqueue: (text: string, conversation: OutboxConversation, reason?: string) => Promise<void>;
+  /** The server named a draft conversation: its queued messages follow */
+  assignSession: (draftId: string, sessionId: string) => Promise<void>;
+  /** Replay pending entries now (no-op while disconnected or already replaying) */
+  flush: () => Promise<void>;
+  /** Queue a failed entry again and replay it if connected */
+  retry: (id: string) => Promise<void>;
+  /** Drop an entry that is not being sent */
+  cancel: (id: string) => Promise<void>;
+  /** Drop every queued message */
+  clear: () => Promise<void>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MAX_AUTO_ATTEMPTS = 3;
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+export function useChatOutbox({ ownerId, probeUrl, deliver }: UseChatOutboxOptions): UseChatOutboxReturn {
+  const outbox = useMemo(() => new ChatOutbox(ownerId), [ownerId]);
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [connected, setConnected] = useState(() => navigator.onLine);
+
+  const deliverRef = useRef(deliver);
+  const connectedRef = useRef(connected);
+  const flushingRef = useRef(false);
+  const monitorRef = useRef<NetworkMonitor | null>(null);
+
+  useEffect(() => {
+    deliverRef.current = deliver;
+  });
+
+  /**
+   * A send just failed on the network: treat the API as gone until a probe
+   * succeeds, which then counts as a reconnection and replays the queue
+   */
+  const markDisconnected = useCallback(() => {
+    connectedRef.current = false;
+    setConnected(false);
+    void monitorRef.current?.probeNow();
+  }, []);
+
+  const flush = useCallback(async () => {
+    if (flushingRef.current || !connectedRef.current) return;
+    flushingRef.current = true;
+
+    try {
+      for (const entry of await outbox.list()) {
+        if (entry.status !== 'pending') continue;
+
+        await outbox.update(entry.id, { status: 'sending' });
+        let result: DeliveryResult;
+        try {
+          result = await deliverRef.current(entry);
+        } catch (error) {
+          console.error('[useChatOutbox] Delivery failed:', error);
+          result = 'offline';
+        }
+
+        if (result === 'delivered') {
+          await outbox.remove(entry.id);
+          continue;
+        }
+
+        if (result === 'offline') {
+          const attempts = entry.attempts + 1;
+          await outbox.update(entry.id, {
+            status: attempts >= MAX_AUTO_ATTEMPTS ? 'failed' : 'pending',
+            attempts,
+            lastError: 'Could not reach the server',
+          });
+          markDisconnected();
+          break;
+        }
+
+        await outbox.update(entry.id, { status: 'pending' });
+        if (result === 'busy') break;
+      }
+    } finally {
+      flushingRef.current = false;
+    }
+  }, [outbox, markDisconnected]);
+
+  // Mirror the outbox into state
+  useEffect(() => {
+    let cancelled = false;
+    const unsubscribe = outbox.subscribe((next) => {
+      if (!cancelled) setEntries(next);
+    });
+
+    outbox
+      .recover()
+      .then(() => outbox.list())
+      .then((initial) => {
+        if (!cancelled) setEntries(initial);
+      })
+      .then(() => flush())
+      .catch((error) => console.error('[useChatOutbox] Could not load the outbox:', error));
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [outbox, flush]);
+
+  // Follow connectivity; replay on every transition back to connected
+  useEffect(() => {
+    const monitor = new NetworkMonitor({ enableHealthChecks: false, probeUrl });
+    monitorRef.current = monitor;
+
+    const unsubscribe = monitor.subscribe((health) => {
+      const now = health.metrics.isOnline && health.api.reachability !== 'unreachable';
+      const was = connectedRef.current;
+      connectedRef.current = now;
+      setConnected(now);
+      if (now && !was) void flush();
+    });
+
+    return () => {
+      unsubscribe();
+      monitor.destroy();
+      monitorRef.current = null;
+    };
+  }, [probeUrl, flush]);
+
+  const enqueue = useCallback(
+    async (text: string, conversation: OutboxConversation, reason?: string) => {
+      await outbox.enqueue(text, conversation, reason);
+      if (reason && connectedRef.current) markDisconnected();
+    },
+    [outbox, markDisconnected]
+  );
+
+  const assignSession = useCallback(
+    async (draftId: string, sessionId: string) => {
+      for (const entry of await outbox.list()) {
+        if (entry.draftId === draftId && entry.sessionId === null) {
+          await outbox.update(entry.id, { sessionId });
+        }
+      }
+    },
+    [outbox]
+  );
+
+  const retry = useCallback(
+    async (id: string) => {
+      await outbox.update(id, { status: 'pending', attempts: 0, lastError: undefined });
+      await flush();
+    },
+    [outbox, flush]
+  );
+
+  const cancel = useCallback(
+    async (id: string) => {
+      const entry = (await outbox.list()).find((candidate) => candidate.id === id);
+      if (entry && entry.status !== 'sending') await outbox.remove(id);
+    },
+    [outbox]
+  );
+
+  const clear = useCallback(() => outbox.clear(), [outbox]);
+
+  return { entries, connected, enqueue, assignSession, flush, retry, cancel, clear };
+}
+
+export default useChatOutbox;
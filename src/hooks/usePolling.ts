@@ -386,7 +386,7 @@ export interface JobStatusPollingOptions {
   onComplete?: (result: JobStatusResult) => void;
   /** Callback when job fails */
   onFail?: (result: JobStatusResult) => void;
-  /** Callback on error */
+  /** Callback on polling errors (network failures, max polls exceeded) */
   onError?: (error: PollingError) => void;
   /** Poll interval in ms (default: 3000) */
   interval?: number;
@@ -436,11 +436,29 @@ export function useJobStatusPolling(options: JobStatusPollingOptions) {
     (result: JobStatusResult) => {
       if (result.status === 'completed') {
         onComplete?.(result);
-      } else if (result.status === 'failed') {
+      }
+    },
+    [onComplete]
+  );
+
+  // Failed results stop polling through the error path, which only carries
+  // a PollingError, so report them to onFail as they arrive instead
+  const handlePoll = useCallback(
+    (result: JobStatusResult) => {
+      if (result.status === 'failed') {
         onFail?.(result);
       }
     },
-    [onComplete, onFail]
+    [onFail]
+  );
+
+  const handleError = useCallback(
+    (error: PollingError) => {
+      if (error.code !== 'POLL_RESULT_ERROR') {
+        onError?.(error);
+      }
+    },
+    [onError]
   );
 
   const { state, start, stop, reset, poll } = usePolling<JobStatusResult>({
@@ -450,7 +468,8 @@ export function useJobStatusPolling(options: JobStatusPollingOptions) {
     interval: interval ?? 3000,
     maxPolls: maxPolls ?? 60,
     onSuccess: handleSuccess,
-    onError,
+    onError: handleError,
+    onPoll: handlePoll,
     backoffOnError: true,
   });
 
@@ -488,7 +507,7 @@ export interface UseOnboardingPollingOptions {
   onComplete?: (status: OnboardingStatus) => void;
   /** Callback when onboarding fails */
   onFail?: (status: OnboardingStatus) => void;
-  /** Callback on error */
+  /** Callback on polling errors (network failures, max polls exceeded) */
   onError?: (error: PollingError) => void;
   /** Poll interval in ms (default: 5000) */
   interval?: number;
@@ -529,11 +548,29 @@ export function useOnboardingPolling(options: UseOnboardingPollingOptions) {
     (result: OnboardingStatus) => {
       if (result.status === 'completed') {
         onComplete?.(result);
-      } else if (result.status === 'failed') {
+      }
+    },
+    [onComplete]
+  );
+
+  // Failed results stop polling through the error path, which only carries
+  // a PollingError, so report them to onFail as they arrive instead
+  const handlePoll = useCallback(
+    (result: OnboardingStatus) => {
+      if (result.status === 'failed') {
         onFail?.(result);
       }
     },
-    [onComplete, onFail]
+    [onFail]
+  );
+
+  const handleError = useCallback(
+    (error: PollingError) => {
+      if (error.code !== 'POLL_RESULT_ERROR') {
+        onError?.(error);
+      }
+    },
+    [onError]
   );
 
   const { state, start, stop, reset, poll } = usePolling<OnboardingStatus>({
@@ -544,7 +581,8 @@ export function useOnboardingPolling(options: UseOnboardingPollingOptions) {
     maxPolls: maxPolls ?? 60,
     initialDelay: 1000, // Small delay before first check
     onSuccess: handleSuccess,
-    onError,
+    onError: handleError,
+    onPoll: handlePoll,
     backoffOnError: true,
   });
 
@@ -5,13 +5,15 @@
  * Handles connect, disconnect, reconnect with exponential backoff.
  * 
  * Features:
- * - Parse SSE events properly
+ * - Spec-compliant SSE parsing (event types, ids, retry, multi-line data)
+ * - Resumes from the last event id after a dropped connection
  * - Error handling with exponential backoff
  * - AbortController support for cleanup
  * - No WebSocket dependencies
  */
 
 import { useState, useCallback, useRef, useEffect } from 'react';
+import { SSEParser, readSSEStream, extractTextDelta, DEFAULT_EVENT_TYPE, type SSEMessage } from '@/lib/sse';
 
 // ============================================================================
 // Types & Interfaces
@@ -28,13 +30,15 @@ export interface SSEOptions {
   body?: unknown;
   /** Callback when connection opens */
   onOpen?: () => void;
-  /** Callback for each message chunk */
+  /** Callback for each text chunk from `message` events */
   onMessage: (chunk: string) => void;
+  /** Callback for every event, including typed ones (progress, tool-call, done) */
+  onEvent?: (event: SSEMessage) => void;
   /** Callback when stream completes */
   onComplete?: (fullText: string) => void;
   /** Callback for errors */
   onError?: (error: SSEError) => void;
-  /** Initial retry delay in ms (default: 1000) */
+  /** Initial retry delay in ms (default: 1000, or the server's `retry:` value) */
   initialRetryDelay?: number;
   /** Maximum retry delay in ms (default: 30000) */
   maxRetryDelay?: number;
@@ -55,6 +59,8 @@ export interface SSEState {
   retryCount: number;
   /** Whether the connection is currently active */
   isConnected: boolean;
+  /** Id of the last event received, sent as Last-Event-ID on reconnect */
+  lastEventId: string | null;
 }
 
 export interface SSEError {
@@ -116,6 +122,7 @@ export function useSSE(options: SSEOptions): SSEReturn {
     body,
     onOpen,
     onMessage,
+    onEvent,
     onComplete,
     onError,
     initialRetryDelay = DEFAULT_INITIAL_RETRY_DELAY,
@@ -131,6 +138,7 @@ export function useSSE(options: SSEOptions): SSEReturn {
     error: null,
     retryCount: 0,
     isConnected: false,
+    lastEventId: null,
   });
 
   // Refs for managing connection lifecycle
@@ -139,6 +147,8 @@ export function useSSE(options: SSEOptions): SSEReturn {
   const retryCountRef = useRef(0);
   const fullTextRef = useRef('');
   const isConnectingRef = useRef(false);
+  const lastEventIdRef = useRef('');
+  const serverRetryDelayRef = useRef<number | null>(null);
 
   // Cleanup function
   const cleanup = useCallback(() => {
@@ -179,18 +189,22 @@ export function useSSE(options: SSEOptions): SSEReturn {
     cleanup();
     retryCountRef.current = 0;
     fullTextRef.current = '';
+    lastEventIdRef.current = '';
+    serverRetryDelayRef.current = null;
     setState({
       status: 'idle',
       text: '',
       error: null,
       retryCount: 0,
       isConnected: false,
+      lastEventId: null,
     });
   }, [cleanup]);
 
-  // Calculate retry delay with exponential backoff
+  // Calculate retry delay with exponential backoff from the server-suggested base
   const getRetryDelay = useCallback((): number => {
-    const delay = initialRetryDelay * Math.pow(2, retryCountRef.current);
+    const base = serverRetryDelayRef.current ?? initialRetryDelay;
+    const delay = base * Math.pow(2, retryCountRef.current);
     return Math.min(delay, maxRetryDelay);
   }, [initialRetryDelay, maxRetryDelay]);
 
@@ -248,6 +262,8 @@ export function useSSE(options: SSEOptions): SSEReturn {
         headers: {
           'Content-Type': 'application/json',
           Accept: 'text/event-stream',
+          // Resume the same stream rather than starting over
+          ...(lastEventIdRef.current ? { 'Last-Event-ID': lastEventIdRef.current } : {}),
           ...headers,
         },
         signal: abortControllerRef.current.signal,
@@ -308,37 +324,43 @@ export function useSSE(options: SSEOptions): SSEReturn {
       onOpen?.();
 
       // Read the stream
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = '';
-
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
+      let streamError: SSEError | null = null;
+      const parser = new SSEParser(
+        {
+          onEvent: (event) => {
+            if (event.id !== lastEventIdRef.current) {
+              lastEventIdRef.current = event.id;
+              setState((prev) => ({ ...prev, lastEventId: event.id || null }));
+            }
+            onEvent?.(event);
 
-          if (done) {
-            // Process any remaining buffer
-            if (buffer.trim()) {
-              processSSEChunk(buffer, (chunk) => {
+            if (event.event === DEFAULT_EVENT_TYPE) {
+              const chunk = extractTextDelta(event.data);
+              if (chunk) {
                 fullTextRef.current += chunk;
                 onMessage(chunk);
-              });
+              }
+            } else if (event.event === 'error') {
+              streamError = {
+                code: 'STREAM_ERROR',
+                message: event.data || 'The stream reported an error',
+                retryable: false,
+              };
             }
-            break;
-          }
-
-          buffer += decoder.decode(value, { stream: true });
+          },
+          onRetry: (delayMs) => {
+            serverRetryDelayRef.current = delayMs;
+          },
+        },
+        lastEventIdRef.current
+      );
 
-          // Process complete SSE events
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || ''; // Keep incomplete line in buffer
+      try {
+        await readSSEStream(response.body, parser);
 
-          for (const line of lines) {
-            processSSEChunk(line, (chunk) => {
-              fullTextRef.current += chunk;
-              onMessage(chunk);
-            });
-          }
+        if (streamError) {
+          scheduleRetry(streamError);
+          return;
         }
 
         // Stream completed successfully
@@ -367,8 +389,6 @@ export function useSSE(options: SSEOptions): SSEReturn {
           };
           scheduleRetry(error);
         }
-      } finally {
-        reader.releaseLock();
       }
     } catch (fetchError) {
       if (fetchError instanceof Error && fetchError.name === 'AbortError') {
@@ -389,13 +409,15 @@ export function useSSE(options: SSEOptions): SSEReturn {
     } finally {
       isConnectingRef.current = false;
     }
-  }, [url, method, headers, body, timeout, onOpen, onMessage, onComplete, cleanup, scheduleRetry]);
+  }, [url, method, headers, body, timeout, onOpen, onMessage, onEvent, onComplete, cleanup, scheduleRetry]);
 
   // Public connect function
   const connect = useCallback(() => {
-    // Reset retry count on manual connect
+    // A manual connect starts a fresh stream
     retryCountRef.current = 0;
     fullTextRef.current = '';
+    lastEventIdRef.current = '';
+    serverRetryDelayRef.current = null;
     connectInternal();
   }, [connectInternal]);
 
@@ -407,58 +429,6 @@ export function useSSE(options: SSEOptions): SSEReturn {
   };
 }
 
-// ============================================================================
-// Helper Functions
-// ============================================================================
-
-/**
- * Process a single SSE line and extract the data
- */
-function processSSEChunk(line: string, onChunk: (chunk: string) => void): void {
-  const trimmed = line.trim();
-
-  // Skip empty lines and comments
-  if (!trimmed || trimmed.startsWith(':')) {
-    return;
-  }
-
-  // Handle data: prefix
-  if (trimmed.startsWith('data: ')) {
-    const data = trimmed.slice(6); // Remove 'data: ' prefix
-
-    // Check for end marker
-    if (data === '[DONE]') {
-      return;
-    }
-
-    try {
-      // Try to parse as JSON (OpenAI-style streaming)
-      const parsed = JSON.parse(data);
-
-      // Handle different SSE formats
-      if (parsed.choices?.[0]?.delta?.content) {
-        // OpenAI format
-        onChunk(parsed.choices[0].delta.content);
-      } else if (parsed.choices?.[0]?.text) {
-        // Alternative OpenAI format
-        onChunk(parsed.choices[0].text);
-      } else if (parsed.content) {
-        // Simple content field
-        onChunk(parsed.content);
-      } else if (parsed.delta) {
-        // Generic delta format
-        onChunk(typeof parsed.delta === 'string' ? parsed.delta : JSON.stringify(parsed.delta));
-      } else {
-        // Unknown format, send raw data
-        onChunk(data);
-      }
-    } catch {
-      // Not valid JSON, treat as raw text
-      onChunk(data);
-    }
-  }
-}
-
 // ============================================================================
 // Utility Hook for Chat Streaming
 // ============================================================================
@@ -507,34 +477,18 @@ export function useChatStream(options: UseChatStreamOptions) {
           throw new Error('No response body');
         }
 
-        const reader = response.body.getReader();
-        const decoder = new TextDecoder();
         let fullText = '';
-        let buffer = '';
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
-
-          for (const line of lines) {
-            processSSEChunk(line, (chunk) => {
+        const parser = new SSEParser({
+          onEvent: (event) => {
+            if (event.event !== DEFAULT_EVENT_TYPE) return;
+            const chunk = extractTextDelta(event.data);
+            if (chunk) {
               fullText += chunk;
               onMessage?.(chunk);
-            });
-          }
-        }
-
-        // Process remaining buffer
-        if (buffer.trim()) {
-          processSSEChunk(buffer, (chunk) => {
-            fullText += chunk;
-            onMessage?.(chunk);
-          });
-        }
+            }
+          },
+        });
+        await readSSEStream(response.body, parser);
 
         onComplete?.(fullText);
         return fullText;
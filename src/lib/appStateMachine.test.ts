@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_APP_STATE, canTransition, transition, type AppEvent, type AppState, type AppStatus } from './appStateMachine';
+import type { UserProfile } from '../services/httpApi';
+
+const PROFILE: UserProfile = {
+  id: 'user_1',
+  name: 'Asha',
+  status: 'completed',
+  astroProfile: { ascendant: 'Leo', moonSign: 'Pisces' },
+  createdAt: '2024-01-01T00:00:00Z',
+};
+
+const STATES: Record<AppStatus, AppState> = {
+  unauthenticated: { status: 'unauthenticated' },
+  'checking-profile': { status: 'checking-profile' },
+  onboarding: { status: 'onboarding' },
+  processing: { status: 'processing' },
+  ready: { status: 'ready', profile: PROFILE },
+  'editing-profile': { status: 'editing-profile', profile: PROFILE },
+  failed: { status: 'failed', reason: 'Calculation failed.' },
+  error: { status: 'error', message: 'Network error' },
+};
+
+const EVENTS: AppEvent[] = [
+  { type: 'SIGNED_IN' },
+  { type: 'SIGNED_OUT' },
+  { type: 'AUTH_EXPIRED' },
+  { type: 'PROFILE_LOADED', profile: PROFILE },
+  { type: 'PROFILE_NOT_FOUND' },
+  { type: 'PROFILE_ERROR', message: 'Server unavailable' },
+  { type: 'ONBOARDING_SUBMITTED' },
+  { type: 'ONBOARDING_COMPLETED' },
+  { type: 'PROCESSING_COMPLETED' },
+  { type: 'PROCESSING_FAILED', reason: 'Invalid birth place' },
+  { type: 'RETRY' },
+  { type: 'START_ONBOARDING' },
+  { type: 'EDIT_PROFILE' },
+  { type: 'EDIT_CANCELLED' },
+  { type: 'PROFILE_SAVED', recalculating: true },
+];
+
+const SIGNED_OUT: AppState = { status: 'unauthenticated' };
+const EXPIRED: AppState = { status: 'unauthenticated', message: 'Your session has expired. Please sign in again.' };
+
+/** Every valid transition; any pair missing here must leave the state unchanged */
+const EXPECTED: Record<AppStatus, Partial<Record<AppEvent['type'], AppState>>> = {
+  unauthenticated: {
+    SIGNED_IN: { status: 'checking-profile' },
+    SIGNED_OUT,
+    AUTH_EXPIRED: EXPIRED,
+  },
+  'checking-profile': {
+    SIGNED_OUT,
+    AUTH_EXPIRED: EXPIRED,
+    PROFILE_LOADED: { status: 'ready', profile: PROFILE },
+    PROFILE_NOT_FOUND: { status: 'onboarding' },
+    PROFILE_ERROR: { status: 'error', message: 'Server unavailable' },
+  },
+  onboarding: {
+    SIGNED_OUT,
+    AUTH_EXPIRED: EXPIRED,
+    ONBOARDING_SUBMITTED: { status: 'processing' },
+    ONBOARDING_COMPLETED: { status: 'checking-profile' },
+  },
+  processing: {
+    SIGNED_OUT,
+    AUTH_EXPIRED: EXPIRED,
+    PROCESSING_COMPLETED: { status: 'checking-profile' },
+    PROCESSING_FAILED: { status: 'failed', reason: 'Invalid birth place' },
+    RETRY: { status: 'checking-profile' },
+  },
+  ready: {
+    SIGNED_OUT,
+    AUTH_EXPIRED: EXPIRED,
+    START_ONBOARDING: { status: 'onboarding' },
+    EDIT_PROFILE: { status: 'editing-profile', profile: PROFILE },
+  },
+  'editing-profile': {
+    SIGNED_OUT,
+    AUTH_EXPIRED: EXPIRED,
+    PROFILE_SAVED: { status: 'processing' },
+    EDIT_CANCELLED: { status: 'ready', profile: PROFILE },
+  },
+  failed: {
+    SIGNED_OUT,
+    AUTH_EXPIRED: EXPIRED,
+    RETRY: { status: 'checking-profile' },
+    START_ONBOARDING: { status: 'onboarding' },
+  },
+  error: {
+    SIGNED_OUT,
+    AUTH_EXPIRED: EXPIRED,
+    RETRY: { status: 'checking-profile' },
+    START_ONBOARDING: { status: 'onboarding' },
+  },
+};
+
+const PAIRS = (Object.keys(STATES) as AppStatus[]).flatMap((status) =>
+  EVENTS.map((event) => [status, event.type, event] as const)
+);
+
+describe('transition', () => {
+  it('starts by checking the profile', () => {
+    expect(INITIAL_APP_STATE).toEqual({ status: 'checking-profile' });
+  });
+
+  it.each(PAIRS)('%s + %s', (status, type, event) => {
+    const state = STATES[status];
+    const expected = EXPECTED[status][type];
+    const next = transition(state, event);
+
+    if (expected) {
+      expect(next).toEqual(expected);
+      expect(canTransition(state, event)).toBe(true);
+    } else {
+      // Invalid events hand back the very same object
+      expect(next).toBe(state);
+      expect(canTransition(state, event)).toBe(false);
+    }
+  });
+
+  it.each(
+    (Object.keys(STATES) as AppStatus[]).filter((status) => status !== 'unauthenticated')
+  )('returns to unauthenticated when the session expires in %s', (status) => {
+    expect(transition(STATES[status], { type: 'AUTH_EXPIRED' })).toEqual(EXPIRED);
+  });
+
+  it('clears the expiry message on sign-out', () => {
+    expect(transition(EXPIRED, { type: 'SIGNED_OUT' })).toEqual(SIGNED_OUT);
+  });
+});
+
+describe('loaded profiles', () => {
+  const checking = STATES['checking-profile'];
+  const load = (profile: UserProfile) => transition(checking, { type: 'PROFILE_LOADED', profile });
+
+  it('treats a completed profile without astrological data as failed', () => {
+    const next = load({ ...PROFILE, astroProfile: undefined });
+    expect(next.status).toBe('failed');
+  });
+
+  it('waits on a profile that is still processing', () => {
+    expect(load({ ...PROFILE, status: 'processing' })).toEqual({ status: 'processing' });
+  });
+
+  it('keeps the failure reason of a failed profile, with a default', () => {
+    expect(load({ ...PROFILE, status: 'failed', failureReason: 'Unknown place' })).toEqual({
+      status: 'failed',
+      reason: 'Unknown place',
+    });
+    expect(load({ ...PROFILE, status: 'failed' })).toEqual({
+      status: 'failed',
+      reason: 'Your birth chart calculation did not complete.',
+    });
+  });
+
+  it('gives processing failures a default reason', () => {
+    expect(transition(STATES.processing, { type: 'PROCESSING_FAILED' })).toEqual({
+      status: 'failed',
+      reason: 'Your birth chart calculation did not complete.',
+    });
+  });
+
+  it('goes back to checking the profile when a save needs no recalculation', () => {
+    expect(transition(STATES['editing-profile'], { type: 'PROFILE_SAVED', recalculating: false })).toEqual({
+      status: 'checking-profile',
+    });
+  });
+});
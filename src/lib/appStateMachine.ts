@@ -0,0 +1,154 @@
+/**
+ * App State Machine
+ *
+ * Decides which top-level screen the app shows:
+ *
+ *   unauthenticated ──SIGNED_IN──▶ checking-profile
+ *   checking-profile ──PROFILE_LOADED──▶ ready | processing | failed
+ *                    ──PROFILE_NOT_FOUND──▶ onboarding
+ *                    ──PROFILE_ERROR──▶ error
+ *   onboarding ──ONBOARDING_SUBMITTED──▶ processing
+ *              ──ONBOARDING_COMPLETED──▶ checking-profile
+ *   processing ──PROCESSING_COMPLETED──▶ checking-profile
+ *              ──PROCESSING_FAILED──▶ failed
+ *   ready ──EDIT_PROFILE──▶ editing-profile
+ *   editing-profile ──PROFILE_SAVED──▶ processing (birth details changed) | checking-profile
+ *                   ──EDIT_CANCELLED──▶ ready
+ *   failed | error ──RETRY──▶ checking-profile
+ *   failed | error | ready ──START_ONBOARDING──▶ onboarding
+ *   any ──SIGNED_OUT / AUTH_EXPIRED──▶ unauthenticated
+ *
+ * `transition` is a pure function; events that are not valid in the
+ * current state leave it unchanged.
+ */
+
+import type { UserProfile } from '../services/httpApi';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export type AppState =
+  | { status: 'unauthenticated'; message?: string }
+  | { status: 'checking-profile' }
+  | { status: 'onboarding' }
+  | { status: 'processing' }
+  | { status: 'ready'; profile: UserProfile }
+  | { status: 'editing-profile'; profile: UserProfile }
+  | { status: 'failed'; reason: string }
+  | { status: 'error'; message: string };
+
+export type AppStatus = AppState['status'];
+
+export type AppEvent =
+  | { type: 'SIGNED_IN' }
+  | { type: 'SIGNED_OUT' }
+  | { type: 'AUTH_EXPIRED' }
+  | { type: 'PROFILE_LOADED'; profile: UserProfile }
+  | { type: 'PROFILE_NOT_FOUND' }
+  | { type: 'PROFILE_ERROR'; message: string }
+  | { type: 'ONBOARDING_SUBMITTED' }
+  | { type: 'ONBOARDING_COMPLETED' }
+  | { type: 'PROCESSING_COMPLETED' }
+  | { type: 'PROCESSING_FAILED'; reason?: string }
+  | { type: 'RETRY' }
+  | { type: 'START_ONBOARDING' }
+  | { type: 'EDIT_PROFILE' }
+  | { type: 'EDIT_CANCELLED' }
+  | { type: 'PROFILE_SAVED'; recalculating: boolean };
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const INITIAL_APP_STATE: AppState = { status: 'checking-profile' };
+
+const INCOMPLETE_PROFILE_REASON =
+  'Your astrological profile is not complete. Please complete onboarding first.';
+const DEFAULT_FAILURE_REASON = 'Your birth chart calculation did not complete.';
+
+// ============================================================================
+// Transitions
+// ============================================================================
+
+/**
+ * Map a loaded profile to the state it puts the app in. A completed profile
+ * without astrological data cannot be chatted with, so it counts as failed.
+ */
+function stateForProfile(profile: UserProfile): AppState {
+  switch (profile.status) {
+    case 'completed':
+      return profile.astroProfile
+        ? { status: 'ready', profile }
+        : { status: 'failed', reason: INCOMPLETE_PROFILE_REASON };
+    case 'processing':
+      return { status: 'processing' };
+    case 'failed':
+      return { status: 'failed', reason: profile.failureReason || DEFAULT_FAILURE_REASON };
+  }
+}
+
+/**
+ * Compute the next state for an event
+ */
+export function transition(state: AppState, event: AppEvent): AppState {
+  // Losing the session wins from anywhere
+  if (event.type === 'SIGNED_OUT') {
+    return { status: 'unauthenticated' };
+  }
+  if (event.type === 'AUTH_EXPIRED') {
+    return { status: 'unauthenticated', message: 'Your session has expired. Please sign in again.' };
+  }
+
+  switch (state.status) {
+    case 'unauthenticated':
+      if (event.type === 'SIGNED_IN') return { status: 'checking-profile' };
+      break;
+
+    case 'checking-profile':
+      if (event.type === 'PROFILE_LOADED') return stateForProfile(event.profile);
+      if (event.type === 'PROFILE_NOT_FOUND') return { status: 'onboarding' };
+      if (event.type === 'PROFILE_ERROR') return { status: 'error', message: event.message };
+      break;
+
+    case 'onboarding':
+      if (event.type === 'ONBOARDING_SUBMITTED') return { status: 'processing' };
+      if (event.type === 'ONBOARDING_COMPLETED') return { status: 'checking-profile' };
+      break;
+
+    case 'processing':
+      if (event.type === 'PROCESSING_COMPLETED') return { status: 'checking-profile' };
+      if (event.type === 'PROCESSING_FAILED') {
+        return { status: 'failed', reason: event.reason || DEFAULT_FAILURE_REASON };
+      }
+      if (event.type === 'RETRY') return { status: 'checking-profile' };
+      break;
+
+    case 'ready':
+      if (event.type === 'START_ONBOARDING') return { status: 'onboarding' };
+      if (event.type === 'EDIT_PROFILE') return { status: 'editing-profile', profile: state.profile };
+      break;
+
+    case 'editing-profile':
+      if (event.type === 'PROFILE_SAVED') {
+        return event.recalculating ? { status: 'processing' } : { status: 'checking-profile' };
+      }
+      if (event.type === 'EDIT_CANCELLED') return { status: 'ready', profile: state.profile };
+      break;
+
+    case 'failed':
+    case 'error':
+      if (event.type === 'RETRY') return { status: 'checking-profile' };
+      if (event.type === 'START_ONBOARDING') return { status: 'onboarding' };
+      break;
+  }
+
+  return state;
+}
+
+/**
+ * Whether an event would change the current state
+ */
+export function canTransition(state: AppState, event: AppEvent): boolean {
+  return transition(state, event) !== state;
+}
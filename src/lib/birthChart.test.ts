@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { formatDegree } from './birthChart';
+
+describe('formatDegree', () => {
+  it.each([
+    [0, '0°00′'],
+    [12.5, '12°30′'],
+    [7.0083, '7°00′'],
+    [7.0092, '7°01′'],
+  ])('formats %d as %s', (degree, expected) => {
+    expect(formatDegree(degree)).toBe(expected);
+  });
+
+  it('carries rounded minutes into the next degree', () => {
+    expect(formatDegree(14.9999)).toBe('15°00′');
+    expect(formatDegree(0.9995)).toBe('1°00′');
+  });
+
+  it('never shows 60 minutes', () => {
+    for (let degree = 0; degree < 30; degree += 0.0007) {
+      expect(formatDegree(degree)).toMatch(/°[0-5]\d′$/);
+    }
+  });
+
+  it('stays inside the sign at its last minute', () => {
+    expect(formatDegree(29.99)).toBe('29°59′');
+    expect(formatDegree(29.9999)).toBe('29°59′');
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * Birth Chart Model
+ *
+ * Typed natal chart built from sidereal longitudes:
+ * - Signs, degrees within the sign and nakshatras (with pada and lord)
+ *   derived for the ascendant and the nine grahas
+ * - Houses from the given cusps, or whole-sign houses from the ascendant
+ * - `parseBirthChart` validates the backend's chart payload, which arrives
+ *   untyped over the wire, and returns null when it can't be used
+ */
+
+import type { ChartBodyPayload } from '@/services/httpApi';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export type PlanetName = 'Sun' | 'Moon' | 'Mars' | 'Mercury' | 'Jupiter' | 'Venus' | 'Saturn' | 'Rahu' | 'Ketu';
+
+export type SignName =
+  | 'Aries'
+  | 'Taurus'
+  | 'Gemini'
+  | 'Cancer'
+  | 'Leo'
+  | 'Virgo'
+  | 'Libra'
+  | 'Scorpio'
+  | 'Sagittarius'
+  | 'Capricorn'
+  | 'Aquarius'
+  | 'Pisces';
+
+export interface SignInfo {
+  name: SignName;
+  sanskrit: string;
+  abbreviation: string;
+  lord: PlanetName;
+}
+
+export interface PlanetInfo {
+  name: PlanetName;
+  abbreviation: string;
+}
+
+export interface NakshatraInfo {
+  name: string;
+  /** Ruling planet, which also orders the Vimshottari dashas */
+  lord: PlanetName;
+}
+
+export interface NakshatraPosition extends NakshatraInfo {
+  /** 0-26 from Ashwini */
+  index: number;
+  /** Quarter of the nakshatra, 1-4 */
+  pada: number;
+}
+
+export interface ZodiacPosition {
+  /** Sidereal longitude, 0-360 */
+  longitude: number;
+  /** 0-11 from Aries */
+  sign: number;
+  /** Degrees into the sign, 0-30 */
+  degree: number;
+  nakshatra: NakshatraPosition;
+}
+
+export interface PlanetPosition extends ZodiacPosition {
+  planet: PlanetName;
+  /** 1-12 */
+  house: number;
+  retrograde: boolean;
+  /** Degrees per day, when known */
+  speed?: number;
+}
+
+export interface HouseCusp extends ZodiacPosition {
+  /** 1-12 */
+  house: number;
+}
+
+export interface BirthChart {
+  ayanamsa: string | null;
+  /** Degrees, when known */
+  ayanamsaValue: number | null;
+  /** Whole-sign houses are counted from the ascendant's sign */
+  houseSystem: 'whole-sign' | 'cusps';
+  ascendant: ZodiacPosition;
+  houses: HouseCusp[];
+  /** In PLANETS order */
+  planets: PlanetPosition[];
+}
+
+export interface BirthChartInput {
+  ascendant: number;
+  planets: { planet: PlanetName; longitude: number; retrograde?: boolean; speed?: number }[];
+  houses?: number[];
+  ayanamsa?: string | null;
+  ayanamsaValue?: number | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const SIGNS: readonly SignInfo[] = [
+  { name: 'Aries', sanskrit: 'Mesha', abbreviation: 'Ar', lord: 'Mars' },
+  { name: 'Taurus', sanskrit: 'Vrishabha', abbreviation: 'Ta', lord: 'Venus' },
+  { name: 'Gemini', sanskrit: 'Mithuna', abbreviation: 'Ge', lord: 'Mercury' },
+  { name: 'Cancer', sanskrit: 'Karka', abbreviation: 'Cn', lord: 'Moon' },
+  { name: 'Leo', sanskrit: 'Simha', abbreviation: 'Le', lord: 'Sun' },
+  { name: 'Virgo', sanskrit: 'Kanya', abbreviation: 'Vi', lord: 'Mercury' },
+  { name: 'Libra', sanskrit: 'Tula', abbreviation: 'Li', lord: 'Venus' },
+  { name: 'Scorpio', sanskrit: 'Vrishchika', abbreviation: 'Sc', lord: 'Mars' },
+  { name: 'Sagittarius', sanskrit: 'Dhanu', abbreviation: 'Sg', lord: 'Jupiter' },
+  { name: 'Capricorn', sanskrit: 'Makara', abbreviation: 'Cp', lord: 'Saturn' },
+  { name: 'Aquarius', sanskrit: 'Kumbha', abbreviation: 'Aq', lord: 'Saturn' },
+  { name: 'Pisces', sanskrit: 'Meena', abbreviation: 'Pi', lord: 'Jupiter' },
+];
+
+export const PLANETS: readonly PlanetInfo[] = [
+  { name: 'Sun', abbreviation: 'Su' },
+  { name: 'Moon', abbreviation: 'Mo' },
+  { name: 'Mars', abbreviation: 'Ma' },
+  { name: 'Mercury', abbreviation: 'Me' },
+  { name: 'Jupiter', abbreviation: 'Ju' },
+  { name: 'Venus', abbreviation: 'Ve' },
+  { name: 'Saturn', abbreviation: 'Sa' },
+  { name: 'Rahu', abbreviation: 'Ra' },
+  { name: 'Ketu', abbreviation: 'Ke' },
+];
+
+const NAKSHATRA_LORDS: readonly PlanetName[] = [
+  'Ketu', 'Venus', 'Sun', 'Moon', 'Mars', 'Rahu', 'Jupiter', 'Saturn', 'Mercury',
+];
+
+export const NAKSHATRAS: readonly NakshatraInfo[] = [
+  'Ashwini', 'Bharani', 'Krittika', 'Rohini', 'Mrigashira', 'Ardra', 'Punarvasu', 'Pushya', 'Ashlesha',
+  'Magha', 'Purva Phalguni', 'Uttara Phalguni', 'Hasta', 'Chitra', 'Swati', 'Vishakha', 'Anuradha', 'Jyeshtha',
+  'Mula', 'Purva Ashadha', 'Uttara Ashadha', 'Shravana', 'Dhanishta', 'Shatabhisha', 'Purva Bhadrapada',
+  'Uttara Bhadrapada', 'Revati',
+].map((name, index) => ({ name, lord: NAKSHATRA_LORDS[index % NAKSHATRA_LORDS.length] }));
+
+/** 13°20′ */
+export const NAKSHATRA_SPAN = 360 / 27;
+
+const PLANET_NAMES = new Set<string>(PLANETS.map((planet) => planet.name));
+
+// ============================================================================
+// Positions
+// ============================================================================
+
+export function normalizeLongitude(longitude: number): number {
+  const normalized = longitude % 360;
+  return normalized < 0 ? normalized + 360 : normalized;
+}
+
+export function nakshatraOf(longitude: number): NakshatraPosition {
+  const normalized = normalizeLongitude(longitude);
+  const index = Math.min(26, Math.floor(normalized / NAKSHATRA_SPAN));
+  const pada = Math.min(4, Math.floor((normalized - index * NAKSHATRA_SPAN) / (NAKSHATRA_SPAN / 4)) + 1);
+  return { ...NAKSHATRAS[index], index, pada };
+}
+
+export function zodiacPosition(longitude: number): ZodiacPosition {
+  const normalized = normalizeLongitude(longitude);
+  const sign = Math.min(11, Math.floor(normalized / 30));
+  return { longitude: normalized, sign, degree: normalized - sign * 30, nakshatra: nakshatraOf(normalized) };
+}
+
+/**
+ * 12.5 → "12°30′". Rounds to the nearest minute, but a degree inside a
+ * sign never rounds up into the next one: 29.9999 → "29°59′".
+ */
+export function formatDegree(degree: number): string {
+  let totalMinutes = Math.round(degree * 60);
+  if (degree < 30) totalMinutes = Math.min(totalMinutes, 30 * 60 - 1);
+  const whole = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes - whole * 60;
+  return `${whole}°${String(minutes).padStart(2, '0')}′`;
+}
+
+export function planetInfo(planet: PlanetName): PlanetInfo {
+  return PLANETS.find((info) => info.name === planet)!;
+}
+
+/**
+ * House (1-12) of a longitude. With cusps, the house whose span contains
+ * it; otherwise the sign counted from the ascendant's sign.
+ */
+export function houseOf(longitude: number, ascendant: number, cusps?: number[]): number {
+  if (cusps && cusps.length === 12) {
+    const target = normalizeLongitude(longitude);
+    for (let house = 0; house < 12; house++) {
+      const start = normalizeLongitude(cusps[house]);
+      const span = normalizeLongitude(cusps[(house + 1) % 12] - start);
+      if (normalizeLongitude(target - start) < span) return house + 1;
+    }
+  }
+  const ascendantSign = Math.floor(normalizeLongitude(ascendant) / 30);
+  return ((Math.floor(normalizeLongitude(longitude) / 30) - ascendantSign + 12) % 12) + 1;
+}
+
+// ============================================================================
+// Chart Construction
+// ============================================================================
+
+export function buildBirthChart(input: BirthChartInput): BirthChart {
+  const cusps = input.houses?.length === 12 ? input.houses.map(normalizeLongitude) : undefined;
+  const ascendant = zodiacPosition(input.ascendant);
+
+  const houses: HouseCusp[] = cusps
+    ? cusps.map((cusp, index) => ({ ...zodiacPosition(cusp), house: index + 1 }))
+    : Array.from({ length: 12 }, (_, index) => ({
+        ...zodiacPosition((ascendant.sign + index) * 30),
+        house: index + 1,
+      }));
+
+  const planets = PLANETS.flatMap(({ name }) => {
+    const body = input.planets.find((candidate) => candidate.planet === name);
+    if (!body) return [];
+    return [{
+      ...zodiacPosition(body.longitude),
+      planet: name,
+      house: houseOf(body.longitude, input.ascendant, cusps),
+      // The nodes are always retrograde in mean motion
+      retrograde: body.retrograde ?? (body.speed !== undefined ? body.speed < 0 : name === 'Rahu' || name === 'Ketu'),
+      speed: body.speed,
+    }];
+  });
+
+  return {
+    ayanamsa: input.ayanamsa ?? null,
+    ayanamsaValue: input.ayanamsaValue ?? null,
+    houseSystem: cusps ? 'cusps' : 'whole-sign',
+    ascendant,
+    houses,
+    planets,
+  };
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isBodyPayload(value: unknown): value is ChartBodyPayload {
+  if (typeof value !== 'object' || value === null) return false;
+  const body = value as Record<string, unknown>;
+  return typeof body.name === 'string' && PLANET_NAMES.has(body.name) && isFiniteNumber(body.longitude);
+}
+
+/**
+ * Validate a chart payload from the backend (`AstroProfile.chart`). Bodies
+ * with unknown names or missing longitudes are skipped; without an
+ * ascendant and at least one planet there is no chart to draw.
+ */
+export function parseBirthChart(payload: unknown): BirthChart | null {
+  if (typeof payload !== 'object' || payload === null) return null;
+  const raw = payload as Record<string, unknown>;
+  if (!isFiniteNumber(raw.ascendant) || !Array.isArray(raw.planets)) return null;
+
+  const planets = raw.planets.filter(isBodyPayload).map((body) => ({
+    planet: body.name as PlanetName,
+    longitude: body.longitude,
+    retrograde: typeof body.retrograde === 'boolean' ? body.retrograde : undefined,
+    speed: isFiniteNumber(body.speed) ? body.speed : undefined,
+  }));
+  if (planets.length === 0) return null;
+
+  const houses = Array.isArray(raw.houses) && raw.houses.length === 12 && raw.houses.every(isFiniteNumber)
+    ? raw.houses
+    : undefined;
+
+  return buildBirthChart({
+    ascendant: raw.ascendant,
+    planets,
+    houses,
+    ayanamsa: typeof raw.ayanamsa === 'string' ? raw.ayanamsa : null,
+    ayanamsaValue: isFiniteNumber(raw.ayanamsaValue) ? raw.ayanamsaValue : null,
+  });
+}
+
+/**
+ * One-line description of a planet's placement, for tooltips and chat context.
+ * e.g. "Saturn (R) 12°30′ Capricorn, house 10, Shravana pada 2"
+ */
+export function describePlanet(position: PlanetPosition): string {
+  const sign = SIGNS[position.sign].name;
+  const retrograde = position.retrograde && position.planet !== 'Rahu' && position.planet !== 'Ketu' ? ' (R)' : '';
+  return `${position.planet}${retrograde} ${formatDegree(position.degree)} ${sign}, house ${position.house}, ${position.nakshatra.name} pada ${position.nakshatra.pada}`;
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BirthMomentError,
+  describeMoment,
+  parseFixedOffset,
+  resolveBirthMoment,
+  type BirthMomentResolution,
+  type ResolvedBirthMoment,
+} from './birthMoment';
+
+function exact(resolution: BirthMomentResolution): ResolvedBirthMoment {
+  if (resolution.kind !== 'exact') throw new Error(`Expected an exact moment, got ${resolution.kind}`);
+  return resolution.moment;
+}
+
+describe('resolveBirthMoment', () => {
+  it('applies daylight saving time in effect at birth', () => {
+    const summer = exact(resolveBirthMoment({ date: '1990-06-15', time: '14:30', timeZone: 'America/New_York' }));
+    expect(summer).toMatchObject({ utc: '1990-06-15T18:30:00.000Z', utcOffset: '-04:00', isDst: true });
+
+    const winter = exact(resolveBirthMoment({ date: '1990-01-15', time: '14:30', timeZone: 'America/New_York' }));
+    expect(winter).toMatchObject({ utc: '1990-01-15T19:30:00.000Z', utcOffset: '-05:00', isDst: false });
+  });
+
+  it('flags a time in the spring-forward gap as nonexistent', () => {
+    // Clocks went from 02:00 EST straight to 03:00 EDT on 2021 Mar 14
+    const resolution = resolveBirthMoment({ date: '2021-03-14', time: '02:30', timeZone: 'America/New_York' });
+    expect(resolution.kind).toBe('nonexistent');
+    if (resolution.kind !== 'nonexistent') return;
+
+    const [earlier, later] = resolution.candidates;
+    // Read with the offset after the jump it shows as 01:30 EST, with the one before as 03:30 EDT
+    expect(earlier).toMatchObject({ utc: '2021-03-14T06:30:00.000Z', utcOffset: '-05:00', isDst: false, localTime: '01:30' });
+    expect(later).toMatchObject({ utc: '2021-03-14T07:30:00.000Z', utcOffset: '-04:00', isDst: true, localTime: '03:30' });
+  });
+
+  it('flags a time in the fall-back overlap as ambiguous, earlier reading first', () => {
+    // 01:00-02:00 happened twice on 2021 Nov 7: first in EDT, then in EST
+    const resolution = resolveBirthMoment({ date: '2021-11-07', time: '01:30', timeZone: 'America/New_York' });
+    expect(resolution.kind).toBe('ambiguous');
+    if (resolution.kind !== 'ambiguous') return;
+
+    const [first, second] = resolution.candidates;
+    expect(first).toMatchObject({ utc: '2021-11-07T05:30:00.000Z', utcOffset: '-04:00', isDst: true, localTime: '01:30' });
+    expect(second).toMatchObject({ utc: '2021-11-07T06:30:00.000Z', utcOffset: '-05:00', isDst: false, localTime: '01:30' });
+    expect(describeMoment(first)).toBe('01:30 daylight time (UTC-04:00)');
+    expect(describeMoment(second)).toBe('01:30 standard time (UTC-05:00)');
+  });
+
+  it('uses India war time (+06:30) during the Second World War', () => {
+    const wartime = exact(resolveBirthMoment({ date: '1944-06-01', time: '12:00', timeZone: 'Asia/Kolkata' }));
+    expect(wartime).toMatchObject({ utc: '1944-06-01T05:30:00.000Z', offsetMinutes: 390, utcOffset: '+06:30' });
+
+    const after = exact(resolveBirthMoment({ date: '1950-06-01', time: '12:00', timeZone: 'Asia/Kolkata' }));
+    expect(after).toMatchObject({ utc: '1950-06-01T06:30:00.000Z', offsetMinutes: 330, utcOffset: '+05:30' });
+  });
+
+  it('uses local mean time before standard time', () => {
+    // New York kept LMT, UTC-4:56:02, until 1883 Nov 18
+    const moment = exact(resolveBirthMoment({ date: '1850-06-01', time: '12:00', timeZone: 'America/New_York' }));
+    expect(moment.utc).toBe('1850-06-01T16:56:02.000Z');
+    expect(moment.offsetMinutes).toBeCloseTo(-(4 * 60 + 56 + 2 / 60), 6);
+    expect(moment.utcOffset).toBe('-04:56');
+    expect(moment.isDst).toBe(false);
+  });
+
+  it('reads fixed offsets without daylight saving', () => {
+    const moment = exact(resolveBirthMoment({ date: '1990-06-15', time: '14:30', timeZone: 'UTC+5:30' }));
+    expect(moment).toMatchObject({ utc: '1990-06-15T09:00:00.000Z', utcOffset: '+05:30', isDst: false });
+  });
+
+  it.each([
+    [{ date: '2023-02-30', time: '12:00', timeZone: 'UTC' }, 'INVALID_DATE'],
+    [{ date: '15/06/1990', time: '12:00', timeZone: 'UTC' }, 'INVALID_DATE'],
+    [{ date: '1990-06-15', time: '24:00', timeZone: 'UTC' }, 'INVALID_TIME'],
+    [{ date: '1990-06-15', time: '12:00', timeZone: 'Mars/Olympus_Mons' }, 'INVALID_TIMEZONE'],
+  ] as const)('rejects %o with %s', (input, code) => {
+    expect(() => resolveBirthMoment(input)).toThrow(BirthMomentError);
+    try {
+      resolveBirthMoment(input);
+    } catch (error) {
+      expect((error as BirthMomentError).code).toBe(code);
+    }
+  });
+});
+
+describe('parseFixedOffset', () => {
+  it.each([
+    ['UTC+5:30', 330],
+    ['+05:30', 330],
+    ['GMT-3', -180],
+    ['utc-0930', -570],
+    ['UTC+15', null],
+    ['Asia/Kolkata', null],
+  ])('parses %s', (value, expected) => {
+    expect(parseFixedOffset(value)).toBe(expected);
+  });
+});
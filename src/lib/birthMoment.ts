@@ -0,0 +1,315 @@
+/**
+ * Birth Moment
+ *
+ * Turns a local birth date, time and timezone into an exact UTC instant:
+ * - Historical tz rules (DST, LMT, war time) via the runtime's tz database
+ * - Detection of ambiguous local times (DST fall-back, the hour repeats)
+ * - Detection of nonexistent local times (DST spring-forward gap)
+ * - Fixed offsets such as "UTC+5:30" for places without an IANA zone
+ *
+ * Everything works on calendar fields directly; the browser's own
+ * timezone never leaks into the result.
+ */
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export interface BirthMomentInput {
+  /** Local calendar date, YYYY-MM-DD */
+  date: string;
+  /** Local wall-clock time, HH:mm (24-hour) */
+  time: string;
+  /** IANA zone (Asia/Kolkata) or fixed offset (UTC+5:30, +05:30) */
+  timeZone: string;
+}
+
+export interface ResolvedBirthMoment {
+  /** UTC instant, ISO 8601 */
+  utc: string;
+  /** Offset from UTC in minutes, east positive (may be fractional for LMT) */
+  offsetMinutes: number;
+  /** Offset formatted as ±HH:MM */
+  utcOffset: string;
+  /** Whether daylight saving time was in effect */
+  isDst: boolean;
+  timeZone: string;
+  /** Wall-clock date/time this instant shows in the zone (differs from the input in a gap) */
+  localDate: string;
+  localTime: string;
+}
+
+export type BirthMomentResolution =
+  | { kind: 'exact'; moment: ResolvedBirthMoment }
+  /** The local time occurred twice; candidates are [earlier, later] */
+  | { kind: 'ambiguous'; candidates: [ResolvedBirthMoment, ResolvedBirthMoment] }
+  /** The local time was skipped; candidates read it with the offset before and after the jump */
+  | { kind: 'nonexistent'; candidates: [ResolvedBirthMoment, ResolvedBirthMoment] };
+
+export type BirthMomentErrorCode = 'INVALID_DATE' | 'INVALID_TIME' | 'INVALID_TIMEZONE';
+
+// ============================================================================
+// Custom Error Class
+// ============================================================================
+
+export class BirthMomentError extends Error {
+  readonly code: BirthMomentErrorCode;
+
+  constructor(message: string, code: BirthMomentErrorCode) {
+    super(message);
+    this.name = 'BirthMomentError';
+    this.code = code;
+    Object.setPrototypeOf(this, BirthMomentError.prototype);
+  }
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const FIXED_OFFSET_PATTERN = /^(?:UTC|GMT)?\s*([+-])(\d{1,2})(?::?(\d{2}))?$/i;
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+interface LocalFields {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+/**
+ * Parse YYYY-MM-DD + HH:mm, rejecting impossible dates such as 2023-02-30
+ */
+export function parseLocalFields(date: string, time: string): LocalFields {
+  const dateMatch = DATE_PATTERN.exec(date);
+  if (!dateMatch) {
+    throw new BirthMomentError('Date must be in YYYY-MM-DD format', 'INVALID_DATE');
+  }
+  const timeMatch = TIME_PATTERN.exec(time);
+  if (!timeMatch) {
+    throw new BirthMomentError('Time must be in 24-hour HH:mm format', 'INVALID_TIME');
+  }
+
+  const fields: LocalFields = {
+    year: Number(dateMatch[1]),
+    month: Number(dateMatch[2]),
+    day: Number(dateMatch[3]),
+    hour: Number(timeMatch[1]),
+    minute: Number(timeMatch[2]),
+  };
+
+  // Round-trip through a Date to catch day/month overflow
+  const check = new Date(fieldsToMs(fields));
+  if (
+    check.getUTCFullYear() !== fields.year ||
+    check.getUTCMonth() !== fields.month - 1 ||
+    check.getUTCDate() !== fields.day
+  ) {
+    throw new BirthMomentError(`${date} is not a real calendar date`, 'INVALID_DATE');
+  }
+
+  return fields;
+}
+
+/**
+ * Parse a fixed offset ("UTC+5:30", "+05:30", "GMT-3") into minutes, or null
+ */
+export function parseFixedOffset(timeZone: string): number | null {
+  const match = FIXED_OFFSET_PATTERN.exec(timeZone.trim());
+  if (!match) return null;
+
+  const hours = Number(match[2]);
+  const minutes = Number(match[3] ?? 0);
+  if (hours > 14 || minutes > 59) return null;
+
+  return (match[1] === '-' ? -1 : 1) * (hours * 60 + minutes);
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      era: 'short',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether the runtime knows this IANA zone or it is a valid fixed offset
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone.trim()) return false;
+  if (parseFixedOffset(timeZone) !== null) return true;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// Offset Computation
+// ============================================================================
+
+/**
+ * Offset (ms, east positive) of an IANA zone at a UTC instant, from the
+ * wall-clock fields the tz database produces for that instant
+ */
+function zoneOffsetAt(timeZone: string, utcMs: number): number {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(utcMs))) {
+    parts[part.type] = part.value;
+  }
+
+  let year = Number(parts.year);
+  if (parts.era === 'BC' || parts.era === 'B') year = 1 - year;
+
+  const wallMs = fieldsToMs({
+    year,
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+  }) + Number(parts.second) * 1000;
+
+  // The formatter drops milliseconds, so compare against the whole second
+  return wallMs - (utcMs - (((utcMs % 1000) + 1000) % 1000));
+}
+
+/**
+ * Calendar fields read as if they were UTC. Unlike Date.UTC this does not
+ * remap years 0-99 to the 1900s.
+ */
+function fieldsToMs({ year, month, day, hour, minute }: LocalFields): number {
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  date.setUTCHours(hour, minute, 0, 0);
+  return date.getTime();
+}
+
+function formatOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const total = Math.round(Math.abs(offsetMinutes));
+  const hh = String(Math.floor(total / 60)).padStart(2, '0');
+  const mm = String(total % 60).padStart(2, '0');
+  return `${sign}${hh}:${mm}`;
+}
+
+function pad(value: number, length: number = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+function buildMoment(utcMs: number, offsetMs: number, timeZone: string, isDst: boolean): ResolvedBirthMoment {
+  const wall = new Date(utcMs + offsetMs);
+  const offsetMinutes = offsetMs / MINUTE;
+
+  return {
+    utc: new Date(utcMs).toISOString(),
+    offsetMinutes,
+    utcOffset: formatOffset(offsetMinutes),
+    isDst,
+    timeZone,
+    localDate: `${pad(wall.getUTCFullYear(), 4)}-${pad(wall.getUTCMonth() + 1)}-${pad(wall.getUTCDate())}`,
+    localTime: `${pad(wall.getUTCHours())}:${pad(wall.getUTCMinutes())}`,
+  };
+}
+
+/**
+ * DST is in effect when the offset exceeds the zone's standard offset for
+ * that year, taken as the smaller of the January and July offsets
+ */
+function isDstAt(timeZone: string, utcMs: number, offsetMs: number): boolean {
+  const year = new Date(utcMs).getUTCFullYear();
+  const january = zoneOffsetAt(timeZone, Date.UTC(year, 0, 1));
+  const july = zoneOffsetAt(timeZone, Date.UTC(year, 6, 1));
+  return offsetMs > Math.min(january, july);
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Resolve a local birth date/time in a zone to its UTC instant(s)
+ *
+ * @example
+ * ```ts
+ * resolveBirthMoment({ date: '1990-06-15', time: '14:30', timeZone: 'America/New_York' });
+ * // { kind: 'exact', moment: { utc: '1990-06-15T18:30:00.000Z', utcOffset: '-04:00', isDst: true, ... } }
+ * ```
+ */
+export function resolveBirthMoment(input: BirthMomentInput): BirthMomentResolution {
+  const localMs = fieldsToMs(parseLocalFields(input.date, input.time));
+  const timeZone = input.timeZone.trim();
+
+  const fixedOffset = parseFixedOffset(timeZone);
+  if (fixedOffset !== null) {
+    const offsetMs = fixedOffset * MINUTE;
+    return { kind: 'exact', moment: buildMoment(localMs - offsetMs, offsetMs, timeZone, false) };
+  }
+
+  if (!isValidTimeZone(timeZone)) {
+    throw new BirthMomentError(`Unknown timezone "${input.timeZone}"`, 'INVALID_TIMEZONE');
+  }
+
+  // Any transition near this wall time lies within a day of it, so the
+  // offsets a day either side cover every reading of the local time
+  const offsetBefore = zoneOffsetAt(timeZone, localMs - DAY);
+  const offsetAfter = zoneOffsetAt(timeZone, localMs + DAY);
+  const candidateOffsets = Array.from(new Set([offsetBefore, offsetAfter, zoneOffsetAt(timeZone, localMs)]));
+
+  const valid = candidateOffsets
+    .map((offsetMs) => ({ utcMs: localMs - offsetMs, offsetMs }))
+    .filter(({ utcMs, offsetMs }) => zoneOffsetAt(timeZone, utcMs) === offsetMs)
+    .sort((a, b) => a.utcMs - b.utcMs);
+
+  const toMoment = ({ utcMs, offsetMs }: { utcMs: number; offsetMs: number }) =>
+    buildMoment(utcMs, offsetMs, timeZone, isDstAt(timeZone, utcMs, offsetMs));
+
+  if (valid.length === 1) {
+    return { kind: 'exact', moment: toMoment(valid[0]) };
+  }
+
+  if (valid.length >= 2) {
+    const first = valid[0];
+    const last = valid[valid.length - 1];
+    return { kind: 'ambiguous', candidates: [toMoment(first), toMoment(last)] };
+  }
+
+  // Gap: read the wall time with the offsets on either side of the jump.
+  // Each reading lands on a real instant whose own offset is the zone's.
+  const readWith = (offsetMs: number) => {
+    const utcMs = localMs - offsetMs;
+    const actualOffset = zoneOffsetAt(timeZone, utcMs);
+    return buildMoment(utcMs, actualOffset, timeZone, isDstAt(timeZone, utcMs, actualOffset));
+  };
+  const [earlier, later] = [readWith(offsetAfter), readWith(offsetBefore)].sort((a, b) =>
+    a.utc.localeCompare(b.utc)
+  );
+  return { kind: 'nonexistent', candidates: [earlier, later] };
+}
+
+/**
+ * Describe a candidate for a chooser, e.g. "01:30 daylight time (UTC-04:00)"
+ */
+export function describeMoment(moment: ResolvedBirthMoment): string {
+  return `${moment.localTime} ${moment.isDst ? 'daylight time' : 'standard time'} (UTC${moment.utcOffset})`;
+}
@@ -0,0 +1,171 @@
+/**
+ * Vimshottari Dasha
+ *
+ * The 120-year cycle of planetary periods, counted from the Moon's
+ * nakshatra at birth:
+ * - The nakshatra's lord rules the first Mahadasha, of which only the
+ *   part the Moon has still to travel through the nakshatra remains
+ * - Each Mahadasha divides into nine Antardashas, and each Antardasha into
+ *   nine Pratyantardashas, in the same order starting from its own lord,
+ *   in proportion to the lords' years
+ * - Years are 365.25 days
+ */
+
+import { NAKSHATRA_SPAN, nakshatraOf, type BirthChart, type PlanetName } from './birthChart';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export type DashaLevel = 'maha' | 'antar' | 'pratyantar';
+
+export interface DashaPeriod {
+  level: DashaLevel;
+  lord: PlanetName;
+  /** Lords from the Mahadasha down to this period */
+  lords: PlanetName[];
+  start: Date;
+  end: Date;
+  /** Empty for Pratyantardashas */
+  children: DashaPeriod[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Dasha order and length in years */
+export const DASHA_YEARS: readonly { lord: PlanetName; years: number }[] = [
+  { lord: 'Ketu', years: 7 },
+  { lord: 'Venus', years: 20 },
+  { lord: 'Sun', years: 6 },
+  { lord: 'Moon', years: 10 },
+  { lord: 'Mars', years: 7 },
+  { lord: 'Rahu', years: 18 },
+  { lord: 'Jupiter', years: 16 },
+  { lord: 'Saturn', years: 19 },
+  { lord: 'Mercury', years: 17 },
+];
+
+const CYCLE_YEARS = 120;
+const YEAR_MS = 365.25 * 86400000;
+
+export const DASHA_LEVEL_NAMES: Record<DashaLevel, string> = {
+  maha: 'Mahadasha',
+  antar: 'Antardasha',
+  pratyantar: 'Pratyantardasha',
+};
+
+const LEVELS: DashaLevel[] = ['maha', 'antar', 'pratyantar'];
+
+// ============================================================================
+// Calculation
+// ============================================================================
+
+/** DASHA_YEARS rotated to start from `lord` */
+function sequenceFrom(lord: PlanetName) {
+  const first = DASHA_YEARS.findIndex((entry) => entry.lord === lord);
+  return DASHA_YEARS.map((_, offset) => DASHA_YEARS[(first + offset) % DASHA_YEARS.length]);
+}
+
+function subdivide(lords: PlanetName[], startMs: number, durationMs: number, depth: number): DashaPeriod[] {
+  const parent = lords[lords.length - 1];
+  let cursor = startMs;
+
+  return sequenceFrom(parent).map(({ lord, years }) => {
+    const length = (durationMs * years) / CYCLE_YEARS;
+    const period = periodAt(depth, [...lords, lord], cursor, length);
+    cursor += length;
+    return period;
+  });
+}
+
+function periodAt(depth: number, lords: PlanetName[], startMs: number, durationMs: number): DashaPeriod {
+  return {
+    level: LEVELS[depth],
+    lord: lords[lords.length - 1],
+    lords,
+    start: new Date(startMs),
+    end: new Date(startMs + durationMs),
+    children: depth < LEVELS.length - 1 ? subdivide(lords, startMs, durationMs, depth + 1) : [],
+  };
+}
+
+/** Drop periods over before `fromMs` and start the one running then at `fromMs` */
+function clipBefore(periods: DashaPeriod[], fromMs: number): DashaPeriod[] {
+  return periods
+    .filter((period) => period.end.getTime() > fromMs)
+    .map((period) =>
+      period.start.getTime() >= fromMs
+        ? period
+        : { ...period, start: new Date(fromMs), children: clipBefore(period.children, fromMs) }
+    );
+}
+
+/**
+ * Mahadashas for a full 120-year cycle from birth, with their Antardashas
+ * and Pratyantardashas. The first Mahadasha started before birth; it and
+ * its sub-periods are clipped to begin at birth.
+ */
+export function vimshottariDasha(moonLongitude: number, birth: Date): DashaPeriod[] {
+  const nakshatra = nakshatraOf(moonLongitude);
+  const traversed = (moonLongitude - nakshatra.index * NAKSHATRA_SPAN) / NAKSHATRA_SPAN;
+  const birthMs = birth.getTime();
+
+  const sequence = sequenceFrom(nakshatra.lord);
+  // The first Mahadasha is treated as having begun `traversed` of the way before birth
+  let cursor = birthMs - traversed * sequence[0].years * YEAR_MS;
+
+  const mahadashas = sequence.map(({ lord, years }) => {
+    const period = periodAt(0, [lord], cursor, years * YEAR_MS);
+    cursor += years * YEAR_MS;
+    return period;
+  });
+
+  return clipBefore(mahadashas, birthMs);
+}
+
+/**
+ * Dashas from a birth chart's Moon, or null when the chart has no Moon
+ */
+export function chartDasha(chart: BirthChart, birth: Date): DashaPeriod[] | null {
+  const moon = chart.planets.find((position) => position.planet === 'Moon');
+  return moon ? vimshottariDasha(moon.longitude, birth) : null;
+}
+
+/**
+ * The Mahadasha, Antardasha and Pratyantardasha running at `at`; empty
+ * outside the cycle
+ */
+export function activePeriods(periods: DashaPeriod[], at: Date = new Date()): DashaPeriod[] {
+  const time = at.getTime();
+  const active = periods.find((period) => period.start.getTime() <= time && time < period.end.getTime());
+  return active ? [active, ...activePeriods(active.children, at)] : [];
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * "Jupiter–Saturn–Mercury" for a Pratyantardasha; the Mahadasha lord first
+ */
+export function dashaLabel(period: DashaPeriod): string {
+  return period.lords.join('–');
+}
+
+export function formatDashaDate(date: Date): string {
+  return date.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+/**
+ * Question for the chat about one period, e.g.
+ * "What does my Saturn Antardasha within the Jupiter Mahadasha (12 Mar 2024 – 5 Aug 2026) mean for me?"
+ */
+export function dashaQuestion(period: DashaPeriod): string {
+  const names = period.lords
+    .map((lord, depth) => `${lord} ${DASHA_LEVEL_NAMES[LEVELS[depth]]}`)
+    .reverse();
+  const range = `${formatDashaDate(period.start)} – ${formatDashaDate(period.end)}`;
+  return `What does my ${names[0]}${names.length > 1 ? ` within the ${names.slice(1).join(' of the ')}` : ''} (${range}) mean for me?`;
+}
@@ -0,0 +1,240 @@
+import { describe, expect, it } from 'vitest';
+import {
+  angles,
+  ayanamsa,
+  computeBirthChart,
+  deltaT,
+  julianDay,
+  siderealPositions,
+  tropicalPosition,
+} from './ephemeris';
+import { normalizeLongitude, type PlanetName } from './birthChart';
+
+const DEG = Math.PI / 180;
+
+/** J2000.0 (2000 Jan 1 12h TT) as a UTC instant */
+const J2000_UTC = '2000-01-01T11:58:55.816Z';
+
+/** Smallest angle between two longitudes, in degrees */
+function separation(a: number, b: number): number {
+  return Math.abs(normalizeLongitude(a - b + 180) - 180);
+}
+
+/** Right ascension of an ecliptic point (latitude 0) */
+function rightAscension(longitude: number, obliquity: number): number {
+  return normalizeLongitude(
+    Math.atan2(Math.sin(longitude * DEG) * Math.cos(obliquity * DEG), Math.cos(longitude * DEG)) / DEG
+  );
+}
+
+/** Altitude of an ecliptic point whose hour angle is `hourAngle` */
+function altitude(longitude: number, hourAngle: number, latitude: number, obliquity: number): number {
+  const declination = Math.asin(Math.sin(obliquity * DEG) * Math.sin(longitude * DEG));
+  return (
+    Math.asin(
+      Math.sin(latitude * DEG) * Math.sin(declination) +
+        Math.cos(latitude * DEG) * Math.cos(declination) * Math.cos(hourAngle * DEG)
+    ) / DEG
+  );
+}
+
+describe('time', () => {
+  it('converts instants to Julian days', () => {
+    expect(julianDay('2000-01-01T12:00:00Z')).toBe(2451545);
+    expect(julianDay(new Date('1970-01-01T00:00:00Z'))).toBe(2440587.5);
+  });
+
+  it('rejects invalid instants', () => {
+    expect(() => julianDay('not a date')).toThrow(RangeError);
+  });
+
+  it('follows the published ΔT values', () => {
+    expect(deltaT(julianDay('2000-01-01T00:00:00Z'))).toBeCloseTo(63.8, 0);
+    expect(deltaT(julianDay('1950-01-01T00:00:00Z'))).toBeCloseTo(29.1, 0);
+  });
+});
+
+describe('positions', () => {
+  // Geometric tropical longitudes at J2000.0 (JPL Horizons, equinox of date)
+  const J2000_POSITIONS: [PlanetName, number][] = [
+    ['Sun', 280.37],
+    ['Moon', 223.32],
+    ['Mercury', 271.89],
+    ['Venus', 241.57],
+    ['Mars', 327.96],
+    ['Jupiter', 25.25],
+    ['Saturn', 40.4],
+    ['Rahu', 125.04],
+  ];
+
+  it.each(J2000_POSITIONS)('places %s at J2000.0 within 0.1°', (planet, expected) => {
+    const { longitude } = tropicalPosition(planet, julianDay(J2000_UTC));
+    expect(separation(longitude, expected)).toBeLessThan(0.1);
+  });
+
+  it('puts Ketu opposite Rahu', () => {
+    const jd = julianDay(J2000_UTC);
+    for (const nodes of ['mean', 'true'] as const) {
+      const rahu = tropicalPosition('Rahu', jd, nodes).longitude;
+      const ketu = tropicalPosition('Ketu', jd, nodes).longitude;
+      expect(separation(rahu + 180, ketu)).toBeLessThan(1e-9);
+    }
+  });
+
+  it('keeps the true node within 2° of the mean node', () => {
+    const jd = julianDay('2010-06-01T00:00:00Z');
+    const mean = tropicalPosition('Rahu', jd, 'mean').longitude;
+    const trueNode = tropicalPosition('Rahu', jd, 'true').longitude;
+    expect(separation(mean, trueNode)).toBeLessThan(2);
+  });
+
+  it('puts the Sun at 0° on the March equinox', () => {
+    // 2024 Mar 20 03:06 UTC
+    const { longitude } = tropicalPosition('Sun', julianDay('2024-03-20T03:06:00Z'));
+    expect(separation(longitude, 0)).toBeLessThan(0.02);
+  });
+
+  it('puts the Sun and Moon together at a solar eclipse', () => {
+    // Total eclipse of 2024 Apr 8, conjunction at 18:21 UTC
+    const jd = julianDay('2024-04-08T18:21:00Z');
+    const sun = tropicalPosition('Sun', jd).longitude;
+    const moon = tropicalPosition('Moon', jd).longitude;
+    expect(separation(sun, moon)).toBeLessThan(0.1);
+  });
+
+  it('reports retrograde motion as a negative speed', () => {
+    // Mars was retrograde from 2020 Sep 9 to Nov 13
+    expect(tropicalPosition('Mars', julianDay('2020-10-06T00:00:00Z')).speed).toBeLessThan(0);
+    expect(tropicalPosition('Mars', julianDay('2020-07-01T00:00:00Z')).speed).toBeGreaterThan(0);
+    expect(tropicalPosition('Rahu', julianDay(J2000_UTC)).speed).toBeLessThan(0);
+  });
+
+  it('gives the Moon about 13° a day', () => {
+    const { speed } = tropicalPosition('Moon', julianDay(J2000_UTC));
+    expect(speed).toBeGreaterThan(11.5);
+    expect(speed).toBeLessThan(15.5);
+  });
+});
+
+describe('ayanamsa', () => {
+  it.each([
+    ['lahiri', 23.853],
+    ['raman', 22.41],
+    ['kp', 23.76],
+  ] as const)('gives %s at J2000.0', (system, expected) => {
+    expect(ayanamsa(julianDay(J2000_UTC), system)).toBeCloseTo(expected, 1);
+  });
+
+  it('defaults to Lahiri', () => {
+    const jd = julianDay(J2000_UTC);
+    expect(ayanamsa(jd)).toBe(ayanamsa(jd, 'lahiri'));
+  });
+
+  it('reproduces each system at its 1900 epoch', () => {
+    expect(ayanamsa(2415020, 'lahiri')).toBeCloseTo(22.460148, 6);
+    expect(ayanamsa(2415020, 'raman')).toBeCloseTo(21.014667, 6);
+    expect(ayanamsa(2415020, 'kp')).toBeCloseTo(22.363889, 6);
+  });
+
+  it('grows by about 50″ a year', () => {
+    const perYear = ayanamsa(julianDay('2025-01-01T00:00:00Z')) - ayanamsa(julianDay('2024-01-01T00:00:00Z'));
+    expect(perYear * 3600).toBeCloseTo(50.3, 0);
+  });
+
+  it('shifts sidereal positions by the ayanamsa', () => {
+    const jd = julianDay(J2000_UTC);
+    for (const system of ['lahiri', 'raman', 'kp'] as const) {
+      const sidereal = siderealPositions(jd, { ayanamsa: system }).Sun.longitude;
+      const tropical = tropicalPosition('Sun', jd).longitude;
+      expect(separation(sidereal + ayanamsa(jd, system), tropical)).toBeLessThan(1e-9);
+    }
+  });
+});
+
+describe('angles', () => {
+  const OBLIQUITY_J2000 = 23.4393;
+
+  it('puts the MC on the meridian at Greenwich sidereal time', () => {
+    // GMST at 2000 Jan 1 0h UT is 6h39m52.27s = 99.9678°
+    const { mc } = angles(julianDay('2000-01-01T00:00:00Z'), 0, 0);
+    expect(rightAscension(mc, OBLIQUITY_J2000)).toBeCloseTo(99.9678, 2);
+  });
+
+  it.each([
+    ['London', 51.5, -0.13],
+    ['Delhi', 28.61, 77.21],
+    ['Sydney', -33.87, 151.21],
+  ] as const)('puts the ascendant on the eastern horizon in %s', (_, latitude, longitude) => {
+    const { ascendant, mc } = angles(julianDay('1990-05-15T06:30:00Z'), latitude, longitude);
+    const ramc = rightAscension(mc, OBLIQUITY_J2000);
+    const hourAngle = normalizeLongitude(ramc - rightAscension(ascendant, OBLIQUITY_J2000));
+
+    expect(altitude(ascendant, hourAngle, latitude, OBLIQUITY_J2000)).toBeCloseTo(0, 2);
+    // Rising, so east of the meridian
+    expect(hourAngle).toBeGreaterThan(180);
+  });
+
+  it('builds equal and whole-sign cusps from the ascendant', () => {
+    const jd = julianDay('1990-05-15T06:30:00Z');
+    const equal = angles(jd, 28.61, 77.21, 'equal');
+    equal.cusps.forEach((cusp, index) => {
+      expect(separation(cusp, equal.ascendant + index * 30)).toBeLessThan(1e-9);
+    });
+
+    const whole = angles(jd, 28.61, 77.21, 'whole-sign');
+    expect(whole.cusps[0]).toBe(Math.floor(whole.ascendant / 30) * 30);
+    whole.cusps.forEach((cusp) => expect(cusp % 30).toBe(0));
+  });
+
+  it('puts Placidus cusps 1 and 10 on the ascendant and MC, with opposite houses 180° apart', () => {
+    const { ascendant, mc, cusps } = angles(julianDay('1990-05-15T06:30:00Z'), 51.5, -0.13, 'placidus');
+    expect(cusps[0]).toBe(ascendant);
+    expect(separation(cusps[9], mc)).toBeLessThan(1e-9);
+    for (let house = 0; house < 6; house++) {
+      expect(separation(cusps[house] + 180, cusps[house + 6])).toBeLessThan(1e-9);
+    }
+    // Cusps run in zodiac order
+    for (let house = 0; house < 12; house++) {
+      expect(normalizeLongitude(cusps[(house + 1) % 12] - cusps[house])).toBeLessThan(90);
+    }
+  });
+
+  it('falls back to equal houses inside the polar circle', () => {
+    const jd = julianDay('1990-05-15T06:30:00Z');
+    const placidus = angles(jd, 70, 20, 'placidus');
+    const equal = angles(jd, 70, 20, 'equal');
+    expect(placidus.cusps).toEqual(equal.cusps);
+  });
+});
+
+describe('computeBirthChart', () => {
+  const input = { instant: '1990-05-15T06:30:00Z', latitude: 28.61, longitude: 77.21 };
+
+  it('builds a sidereal chart with all nine grahas', () => {
+    const chart = computeBirthChart(input);
+    const jd = julianDay(input.instant);
+
+    expect(chart.ayanamsa).toBe('lahiri');
+    expect(chart.ayanamsaValue).toBeCloseTo(ayanamsa(jd), 9);
+    expect(chart.houseSystem).toBe('whole-sign');
+    expect(chart.planets.map((position) => position.planet)).toEqual([
+      'Sun', 'Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn', 'Rahu', 'Ketu',
+    ]);
+
+    const tropicalAscendant = angles(jd, input.latitude, input.longitude).ascendant;
+    expect(separation(chart.ascendant.longitude + ayanamsa(jd), tropicalAscendant)).toBeLessThan(1e-9);
+  });
+
+  it('uses the selected ayanamsa and house system', () => {
+    const chart = computeBirthChart(input, { ayanamsa: 'kp', houseSystem: 'placidus' });
+    expect(chart.ayanamsa).toBe('kp');
+    expect(chart.houseSystem).toBe('cusps');
+    expect(chart.houses[0].longitude).toBeCloseTo(chart.ascendant.longitude, 9);
+  });
+
+  it('always marks the nodes retrograde', () => {
+    const chart = computeBirthChart(input, { nodes: 'true' });
+    const nodes = chart.planets.filter((position) => position.planet === 'Rahu' || position.planet === 'Ketu');
+    expect(nodes.every((position) => position.retrograde)).toBe(true);
+  });
+});
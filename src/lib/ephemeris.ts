@@ -0,0 +1,507 @@
+/**
+ * Ephemeris
+ *
+ * Offline geocentric positions for the nine grahas, good to a few arc
+ * minutes over 1900-2100, which is enough to place planets in signs,
+ * nakshatras and padas:
+ * - Sun, Moon and planets from mean orbital elements of date (Schlyter),
+ *   with the main lunar terms and the Jupiter-Saturn great inequality
+ * - Rahu as the mean or true lunar node, Ketu opposite
+ * - Lahiri, Raman and KP ayanamsa, precessed from their 1900 values
+ * - Ascendant, MC and Placidus, equal or whole-sign house cusps
+ * - Retrograde motion from the daily speed
+ *
+ * Times are UTC; ΔT is applied internally. Nutation and aberration are
+ * left out (under 20″).
+ */
+
+import {
+  buildBirthChart,
+  normalizeLongitude,
+  type BirthChart,
+  type PlanetName,
+} from './birthChart';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export type AyanamsaSystem = 'lahiri' | 'raman' | 'kp';
+
+export type HouseSystem = 'whole-sign' | 'equal' | 'placidus';
+
+export type NodeType = 'mean' | 'true';
+
+export interface EphemerisOptions {
+  /** Default: lahiri */
+  ayanamsa?: AyanamsaSystem;
+  /** Default: whole-sign */
+  houseSystem?: HouseSystem;
+  /** Default: mean */
+  nodes?: NodeType;
+}
+
+export interface ChartMomentInput {
+  /** UTC instant (a Date, or ISO 8601) */
+  instant: Date | string;
+  /** Degrees, north positive */
+  latitude: number;
+  /** Degrees, east positive */
+  longitude: number;
+}
+
+export interface BodyLongitude {
+  /** Ecliptic longitude in degrees, 0-360 */
+  longitude: number;
+  /** Degrees per day; negative when retrograde */
+  speed: number;
+}
+
+export interface Angles {
+  /** Ecliptic longitudes in degrees, tropical unless made sidereal */
+  ascendant: number;
+  mc: number;
+  /** Twelve cusps from house 1 */
+  cusps: number[];
+}
+
+interface OrbitalElements {
+  /** Longitude of the ascending node */
+  N: number;
+  /** Inclination */
+  i: number;
+  /** Argument of perihelion */
+  w: number;
+  /** Semi-major axis (AU; Earth radii for the Moon) */
+  a: number;
+  e: number;
+  /** Mean anomaly */
+  M: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEG = Math.PI / 180;
+const J2000 = 2451545.0;
+/** Julian day of the elements' epoch, 1999 Dec 31 0h */
+const ELEMENTS_EPOCH = 2451543.5;
+
+/** Ayanamsa in degrees at 1900 Jan 0.5 (JD 2415020), as defined for each system */
+const AYANAMSA_AT_1900: Record<AyanamsaSystem, number> = {
+  lahiri: 22.460148,
+  raman: 21.014667,
+  kp: 22.363889,
+};
+const AYANAMSA_EPOCH = 2415020.0;
+
+const sin = (degrees: number) => Math.sin(degrees * DEG);
+const cos = (degrees: number) => Math.cos(degrees * DEG);
+const tan = (degrees: number) => Math.tan(degrees * DEG);
+const atan2 = (y: number, x: number) => Math.atan2(y, x) / DEG;
+
+/** Orbital elements of date, `d` days after ELEMENTS_EPOCH */
+const ELEMENTS: Record<'Sun' | 'Moon' | 'Mercury' | 'Venus' | 'Mars' | 'Jupiter' | 'Saturn', (d: number) => OrbitalElements> = {
+  Sun: (d) => ({ N: 0, i: 0, w: 282.9404 + 4.70935e-5 * d, a: 1, e: 0.016709 - 1.151e-9 * d, M: 356.047 + 0.9856002585 * d }),
+  Moon: (d) => ({
+    N: 125.1228 - 0.0529538083 * d,
+    i: 5.1454,
+    w: 318.0634 + 0.1643573223 * d,
+    a: 60.2666,
+    e: 0.0549,
+    M: 115.3654 + 13.0649929509 * d,
+  }),
+  Mercury: (d) => ({
+    N: 48.3313 + 3.24587e-5 * d,
+    i: 7.0047 + 5.0e-8 * d,
+    w: 29.1241 + 1.01444e-5 * d,
+    a: 0.387098,
+    e: 0.205635 + 5.59e-10 * d,
+    M: 168.6562 + 4.0923344368 * d,
+  }),
+  Venus: (d) => ({
+    N: 76.6799 + 2.4659e-5 * d,
+    i: 3.3946 + 2.75e-8 * d,
+    w: 54.891 + 1.38374e-5 * d,
+    a: 0.72333,
+    e: 0.006773 - 1.302e-9 * d,
+    M: 48.0052 + 1.6021302244 * d,
+  }),
+  Mars: (d) => ({
+    N: 49.5574 + 2.11081e-5 * d,
+    i: 1.8497 - 1.78e-8 * d,
+    w: 286.5016 + 2.92961e-5 * d,
+    a: 1.523688,
+    e: 0.093405 + 2.516e-9 * d,
+    M: 18.6021 + 0.5240207766 * d,
+  }),
+  Jupiter: (d) => ({
+    N: 100.4542 + 2.76854e-5 * d,
+    i: 1.303 - 1.557e-7 * d,
+    w: 273.8777 + 1.64505e-5 * d,
+    a: 5.20256,
+    e: 0.048498 + 4.469e-9 * d,
+    M: 19.895 + 0.0830853001 * d,
+  }),
+  Saturn: (d) => ({
+    N: 113.6634 + 2.3898e-5 * d,
+    i: 2.4886 - 1.081e-7 * d,
+    w: 339.3939 + 2.97661e-5 * d,
+    a: 9.55475,
+    e: 0.055546 - 9.499e-9 * d,
+    M: 316.967 + 0.0334442282 * d,
+  }),
+};
+
+// ============================================================================
+// Time
+// ============================================================================
+
+export function julianDay(instant: Date | string): number {
+  const time = typeof instant === 'string' ? Date.parse(instant) : instant.getTime();
+  if (Number.isNaN(time)) throw new RangeError(`Invalid instant: ${String(instant)}`);
+  return time / 86400000 + 2440587.5;
+}
+
+/**
+ * TT − UT in seconds (Espenak & Meeus polynomials)
+ */
+export function deltaT(jd: number): number {
+  const year = 2000 + (jd - J2000) / 365.25;
+
+  if (year < 1900) return -20 + 32 * ((year - 1820) / 100) ** 2;
+  if (year < 1920) {
+    const t = year - 1900;
+    return -2.79 + 1.494119 * t - 0.0598939 * t ** 2 + 0.0061966 * t ** 3 - 0.000197 * t ** 4;
+  }
+  if (year < 1941) {
+    const t = year - 1920;
+    return 21.2 + 0.84493 * t - 0.0761 * t ** 2 + 0.0020936 * t ** 3;
+  }
+  if (year < 1961) {
+    const t = year - 1950;
+    return 29.07 + 0.407 * t - t ** 2 / 233 + t ** 3 / 2547;
+  }
+  if (year < 1986) {
+    const t = year - 1975;
+    return 45.45 + 1.067 * t - t ** 2 / 260 - t ** 3 / 718;
+  }
+  if (year < 2005) {
+    const t = year - 2000;
+    return 63.86 + 0.3345 * t - 0.060374 * t ** 2 + 0.0017275 * t ** 3 + 0.000651814 * t ** 4 + 0.00002373599 * t ** 5;
+  }
+  if (year < 2050) {
+    const t = year - 2000;
+    return 62.92 + 0.32217 * t + 0.005589 * t ** 2;
+  }
+  return -20 + 32 * ((year - 1820) / 100) ** 2 - 0.5628 * (2150 - year);
+}
+
+/** Mean obliquity of the ecliptic in degrees */
+function obliquity(jd: number): number {
+  const T = (jd - J2000) / 36525;
+  return 23.439291 - 0.0130042 * T - 1.64e-7 * T ** 2 + 5.04e-7 * T ** 3;
+}
+
+/** Greenwich mean sidereal time in degrees, from a UT Julian day */
+function siderealTime(jd: number): number {
+  const T = (jd - J2000) / 36525;
+  return normalizeLongitude(280.46061837 + 360.98564736629 * (jd - J2000) + 0.000387933 * T ** 2 - T ** 3 / 38710000);
+}
+
+// ============================================================================
+// Ayanamsa
+// ============================================================================
+
+/** Accumulated general precession in longitude since J2000, in degrees (IAU 2006) */
+function precessionSinceJ2000(jd: number): number {
+  const T = (jd - J2000) / 36525;
+  return (5028.796195 * T + 1.1054348 * T ** 2) / 3600;
+}
+
+/**
+ * Ayanamsa in degrees at a Julian day: the system's 1900 value carried
+ * forward by general precession
+ */
+export function ayanamsa(jd: number, system: AyanamsaSystem = 'lahiri'): number {
+  return AYANAMSA_AT_1900[system] + precessionSinceJ2000(jd) - precessionSinceJ2000(AYANAMSA_EPOCH);
+}
+
+// ============================================================================
+// Positions
+// ============================================================================
+
+function solveKepler(M: number, e: number): number {
+  let E = M + (e / DEG) * sin(M) * (1 + e * cos(M));
+  for (let iteration = 0; iteration < 20; iteration++) {
+    const delta = (E - (e / DEG) * sin(E) - M) / (1 - e * cos(E));
+    E -= delta;
+    if (Math.abs(delta) < 1e-7) break;
+  }
+  return E;
+}
+
+/** Ecliptic rectangular position in the body's orbit frame (heliocentric; geocentric for the Sun and Moon) */
+function orbitPosition({ N, i, w, a, e, M }: OrbitalElements): [number, number, number] {
+  const E = solveKepler(normalizeLongitude(M), e);
+  const xv = a * (cos(E) - e);
+  const yv = a * Math.sqrt(1 - e * e) * sin(E);
+  const v = atan2(yv, xv);
+  const r = Math.hypot(xv, yv);
+
+  return [
+    r * (cos(N) * cos(v + w) - sin(N) * sin(v + w) * cos(i)),
+    r * (sin(N) * cos(v + w) + cos(N) * sin(v + w) * cos(i)),
+    r * sin(v + w) * sin(i),
+  ];
+}
+
+/** Sun's geocentric ecliptic rectangular position, AU */
+function sunPosition(d: number): [number, number] {
+  const { w, e, M } = ELEMENTS.Sun(d);
+  const E = solveKepler(normalizeLongitude(M), e);
+  const xv = cos(E) - e;
+  const yv = Math.sqrt(1 - e * e) * sin(E);
+  const longitude = atan2(yv, xv) + w;
+  const r = Math.hypot(xv, yv);
+  return [r * cos(longitude), r * sin(longitude)];
+}
+
+function moonLongitude(d: number): number {
+  const moon = ELEMENTS.Moon(d);
+  const sun = ELEMENTS.Sun(d);
+  const [x, y] = orbitPosition(moon);
+
+  const Ms = sun.M;
+  const Mm = moon.M;
+  const Ls = sun.M + sun.w;
+  const Lm = moon.M + moon.w + moon.N;
+  const D = Lm - Ls;
+  const F = Lm - moon.N;
+
+  return normalizeLongitude(
+    atan2(y, x) -
+      1.274 * sin(Mm - 2 * D) + // evection
+      0.658 * sin(2 * D) - // variation
+      0.186 * sin(Ms) - // yearly equation
+      0.059 * sin(2 * Mm - 2 * D) -
+      0.057 * sin(Mm - 2 * D + Ms) +
+      0.053 * sin(Mm + 2 * D) +
+      0.046 * sin(2 * D - Ms) +
+      0.041 * sin(Mm - Ms) -
+      0.035 * sin(D) - // parallactic equation
+      0.031 * sin(Mm + Ms) -
+      0.015 * sin(2 * F - 2 * D) +
+      0.011 * sin(Mm - 4 * D)
+  );
+}
+
+function nodeLongitude(d: number, type: NodeType): number {
+  const moon = ELEMENTS.Moon(d);
+  if (type === 'mean') return normalizeLongitude(moon.N);
+
+  const sun = ELEMENTS.Sun(d);
+  const D = moon.M + moon.w + moon.N - (sun.M + sun.w);
+  const F = moon.M + moon.w;
+  // Largest periodic terms of the true node (Meeus, ch. 47)
+  return normalizeLongitude(
+    moon.N -
+      1.4979 * sin(2 * (D - F)) -
+      0.15 * sin(sun.M) -
+      0.1226 * sin(2 * D) +
+      0.1176 * sin(2 * F) -
+      0.0801 * sin(2 * (F - moon.M))
+  );
+}
+
+/** Jupiter-Saturn perturbations of heliocentric longitude, degrees */
+function greatInequality(planet: 'Jupiter' | 'Saturn', d: number): number {
+  const Mj = ELEMENTS.Jupiter(d).M;
+  const Ms = ELEMENTS.Saturn(d).M;
+  if (planet === 'Jupiter') {
+    return (
+      -0.332 * sin(2 * Mj - 5 * Ms - 67.6) -
+      0.056 * sin(2 * Mj - 2 * Ms + 21) +
+      0.042 * sin(3 * Mj - 5 * Ms + 21) -
+      0.036 * sin(Mj - 2 * Ms) +
+      0.022 * cos(Mj - Ms) +
+      0.023 * sin(2 * Mj - 3 * Ms + 52) -
+      0.016 * sin(Mj - 5 * Ms - 69)
+    );
+  }
+  return (
+    0.812 * sin(2 * Mj - 5 * Ms - 67.6) -
+    0.229 * cos(2 * Mj - 4 * Ms - 2) +
+    0.119 * sin(Mj - 2 * Ms - 3) +
+    0.046 * sin(2 * Mj - 6 * Ms - 69) +
+    0.014 * sin(Mj - 3 * Ms + 32)
+  );
+}
+
+function planetLongitude(planet: 'Mercury' | 'Venus' | 'Mars' | 'Jupiter' | 'Saturn', d: number): number {
+  let [x, y, z] = orbitPosition(ELEMENTS[planet](d));
+
+  if (planet === 'Jupiter' || planet === 'Saturn') {
+    const r = Math.hypot(x, y, z);
+    const longitude = atan2(y, x) + greatInequality(planet, d);
+    const latitude = atan2(z, Math.hypot(x, y));
+    x = r * cos(longitude) * cos(latitude);
+    y = r * sin(longitude) * cos(latitude);
+    z = r * sin(latitude);
+  }
+
+  const [xs, ys] = sunPosition(d);
+  return normalizeLongitude(atan2(y + ys, x + xs));
+}
+
+/** Tropical geocentric longitude of a graha at a Terrestrial Time Julian day */
+function tropicalLongitudeTT(planet: PlanetName, jdTT: number, nodes: NodeType): number {
+  const d = jdTT - ELEMENTS_EPOCH;
+  switch (planet) {
+    case 'Sun': {
+      const [xs, ys] = sunPosition(d);
+      return normalizeLongitude(atan2(ys, xs));
+    }
+    case 'Moon':
+      return moonLongitude(d);
+    case 'Rahu':
+      return nodeLongitude(d, nodes);
+    case 'Ketu':
+      return normalizeLongitude(nodeLongitude(d, nodes) + 180);
+    default:
+      return planetLongitude(planet, d);
+  }
+}
+
+/**
+ * Tropical geocentric longitude and daily speed of a graha at a UT Julian day
+ */
+export function tropicalPosition(planet: PlanetName, jd: number, nodes: NodeType = 'mean'): BodyLongitude {
+  const jdTT = jd + deltaT(jd) / 86400;
+  const longitude = tropicalLongitudeTT(planet, jdTT, nodes);
+  // Central difference over a day; the wrap at 0°/360° is folded back
+  const before = tropicalLongitudeTT(planet, jdTT - 0.5, nodes);
+  const after = tropicalLongitudeTT(planet, jdTT + 0.5, nodes);
+  const speed = normalizeLongitude(after - before + 180) - 180;
+  return { longitude, speed };
+}
+
+/**
+ * Sidereal longitudes and speeds of all nine grahas
+ */
+export function siderealPositions(
+  jd: number,
+  options: Pick<EphemerisOptions, 'ayanamsa' | 'nodes'> = {}
+): Record<PlanetName, BodyLongitude> {
+  const shift = ayanamsa(jd, options.ayanamsa);
+  const planets: PlanetName[] = ['Sun', 'Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn', 'Rahu', 'Ketu'];
+  return Object.fromEntries(
+    planets.map((planet) => {
+      const { longitude, speed } = tropicalPosition(planet, jd, options.nodes);
+      return [planet, { longitude: normalizeLongitude(longitude - shift), speed }];
+    })
+  ) as Record<PlanetName, BodyLongitude>;
+}
+
+// ============================================================================
+// Angles & Houses
+// ============================================================================
+
+/** Ecliptic longitude of the point with a given right ascension */
+function eclipticFromRightAscension(ra: number, epsilon: number): number {
+  return normalizeLongitude(atan2(sin(ra), cos(ra) * cos(epsilon)));
+}
+
+/**
+ * Placidus cusps 11, 12, 2 and 3 by iterating on each cusp's declination.
+ * Undefined inside the polar circles, where some points never rise.
+ */
+function placidusCusps(ramc: number, latitude: number, epsilon: number): Record<11 | 12 | 2 | 3, number> | null {
+  const cusp = (fraction: number, aboveHorizon: boolean): number | null => {
+    let longitude = eclipticFromRightAscension(ramc + (aboveHorizon ? 90 : 270) * fraction, epsilon);
+    for (let iteration = 0; iteration < 30; iteration++) {
+      const declination = Math.asin(sin(epsilon) * sin(longitude)) / DEG;
+      const product = tan(latitude) * tan(declination);
+      if (Math.abs(product) > 1) return null;
+      const ascensionalDifference = Math.asin(product) / DEG;
+      const ra = aboveHorizon
+        ? ramc + fraction * (90 + ascensionalDifference)
+        : ramc + 180 - fraction * (90 - ascensionalDifference);
+      const next = eclipticFromRightAscension(ra, epsilon);
+      const change = Math.abs(normalizeLongitude(next - longitude + 180) - 180);
+      longitude = next;
+      if (change < 1e-6) break;
+    }
+    return longitude;
+  };
+
+  const c11 = cusp(1 / 3, true);
+  const c12 = cusp(2 / 3, true);
+  const c2 = cusp(2 / 3, false);
+  const c3 = cusp(1 / 3, false);
+  if (c11 === null || c12 === null || c2 === null || c3 === null) return null;
+  return { 11: c11, 12: c12, 2: c2, 3: c3 };
+}
+
+/**
+ * Tropical ascendant, MC and house cusps for a UT Julian day and place.
+ * Placidus falls back to equal houses where it is undefined (beyond ±66°).
+ */
+export function angles(jd: number, latitude: number, longitude: number, houseSystem: HouseSystem = 'whole-sign'): Angles {
+  const epsilon = obliquity(jd);
+  const ramc = normalizeLongitude(siderealTime(jd) + longitude);
+
+  const ascendant = normalizeLongitude(atan2(cos(ramc), -(sin(ramc) * cos(epsilon) + tan(latitude) * sin(epsilon))));
+  const mc = eclipticFromRightAscension(ramc, epsilon);
+
+  const equal = Array.from({ length: 12 }, (_, index) => normalizeLongitude(ascendant + index * 30));
+  let cusps = equal;
+
+  if (houseSystem === 'whole-sign') {
+    const start = Math.floor(ascendant / 30) * 30;
+    cusps = Array.from({ length: 12 }, (_, index) => normalizeLongitude(start + index * 30));
+  } else if (houseSystem === 'placidus') {
+    const intermediate = placidusCusps(ramc, latitude, epsilon);
+    if (intermediate) {
+      const half = [ascendant, intermediate[2], intermediate[3], normalizeLongitude(mc + 180), 0, 0];
+      half[4] = normalizeLongitude(intermediate[11] + 180);
+      half[5] = normalizeLongitude(intermediate[12] + 180);
+      cusps = [...half, ...half.map((cusp) => normalizeLongitude(cusp + 180))];
+    }
+  }
+
+  return { ascendant, mc, cusps };
+}
+
+// ============================================================================
+// Birth Chart
+// ============================================================================
+
+/**
+ * Full sidereal birth chart for a moment and place, in the same model the
+ * backend's charts are read into
+ */
+export function computeBirthChart(input: ChartMomentInput, options: EphemerisOptions = {}): BirthChart {
+  const { ayanamsa: system = 'lahiri', houseSystem = 'whole-sign', nodes = 'mean' } = options;
+  const jd = julianDay(input.instant);
+  const shift = ayanamsa(jd, system);
+  const positions = siderealPositions(jd, { ayanamsa: system, nodes });
+  const tropical = angles(jd, input.latitude, input.longitude, houseSystem === 'whole-sign' ? 'equal' : houseSystem);
+  const sidereal = (longitude: number) => normalizeLongitude(longitude - shift);
+
+  return buildBirthChart({
+    ascendant: sidereal(tropical.ascendant),
+    // Whole-sign houses are derived from the sidereal ascendant's sign
+    houses: houseSystem === 'whole-sign' ? undefined : tropical.cusps.map(sidereal),
+    planets: (Object.keys(positions) as PlanetName[]).map((planet) => ({
+      planet,
+      longitude: positions[planet].longitude,
+      speed: positions[planet].speed,
+      // Mean nodes always move backwards; the true node wobbles
+      retrograde: planet === 'Rahu' || planet === 'Ketu' ? true : positions[planet].speed < 0,
+    })),
+    ayanamsa: system,
+    ayanamsaValue: shift,
+  });
+}
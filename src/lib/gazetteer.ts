@@ -0,0 +1,234 @@
+/**
+ * Offline City Gazetteer
+ *
+ * Bundled list of cities with coordinates and IANA timezones, used for
+ * birth-place autocomplete without a network round trip. Ordered roughly
+ * by how often each city is expected to be picked, which the geocoder
+ * uses as a tiebreaker when ranking matches.
+ */
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/** [name, region, country, latitude, longitude, IANA timezone, aliases?] */
+export type GazetteerEntry = [
+  name: string,
+  region: string,
+  country: string,
+  latitude: number,
+  longitude: number,
+  timezone: string,
+  aliases?: string[],
+];
+
+// ============================================================================
+// Data
+// ============================================================================
+
+export const GAZETTEER: GazetteerEntry[] = [
+  // India
+  ['Mumbai', 'Maharashtra', 'India', 19.076, 72.8777, 'Asia/Kolkata', ['Bombay']],
+  ['New Delhi', 'Delhi', 'India', 28.6139, 77.209, 'Asia/Kolkata'],
+  ['Delhi', 'Delhi', 'India', 28.7041, 77.1025, 'Asia/Kolkata'],
+  ['Bengaluru', 'Karnataka', 'India', 12.9716, 77.5946, 'Asia/Kolkata', ['Bangalore']],
+  ['Hyderabad', 'Telangana', 'India', 17.385, 78.4867, 'Asia/Kolkata'],
+  ['Chennai', 'Tamil Nadu', 'India', 13.0827, 80.2707, 'Asia/Kolkata', ['Madras']],
+  ['Kolkata', 'West Bengal', 'India', 22.5726, 88.3639, 'Asia/Kolkata', ['Calcutta']],
+  ['Ahmedabad', 'Gujarat', 'India', 23.0225, 72.5714, 'Asia/Kolkata'],
+  ['Pune', 'Maharashtra', 'India', 18.5204, 73.8567, 'Asia/Kolkata', ['Poona']],
+  ['Jaipur', 'Rajasthan', 'India', 26.9124, 75.7873, 'Asia/Kolkata'],
+  ['Surat', 'Gujarat', 'India', 21.1702, 72.8311, 'Asia/Kolkata'],
+  ['Lucknow', 'Uttar Pradesh', 'India', 26.8467, 80.9462, 'Asia/Kolkata'],
+  ['Kanpur', 'Uttar Pradesh', 'India', 26.4499, 80.3319, 'Asia/Kolkata'],
+  ['Nagpur', 'Maharashtra', 'India', 21.1458, 79.0882, 'Asia/Kolkata'],
+  ['Indore', 'Madhya Pradesh', 'India', 22.7196, 75.8577, 'Asia/Kolkata'],
+  ['Bhopal', 'Madhya Pradesh', 'India', 23.2599, 77.4126, 'Asia/Kolkata'],
+  ['Patna', 'Bihar', 'India', 25.5941, 85.1376, 'Asia/Kolkata'],
+  ['Vadodara', 'Gujarat', 'India', 22.3072, 73.1812, 'Asia/Kolkata', ['Baroda']],
+  ['Ludhiana', 'Punjab', 'India', 30.901, 75.8573, 'Asia/Kolkata'],
+  ['Agra', 'Uttar Pradesh', 'India', 27.1767, 78.0081, 'Asia/Kolkata'],
+  ['Nashik', 'Maharashtra', 'India', 19.9975, 73.7898, 'Asia/Kolkata'],
+  ['Varanasi', 'Uttar Pradesh', 'India', 25.3176, 82.9739, 'Asia/Kolkata', ['Benares', 'Kashi']],
+  ['Prayagraj', 'Uttar Pradesh', 'India', 25.4358, 81.8463, 'Asia/Kolkata', ['Allahabad']],
+  ['Srinagar', 'Jammu and Kashmir', 'India', 34.0837, 74.7973, 'Asia/Kolkata'],
+  ['Jammu', 'Jammu and Kashmir', 'India', 32.7266, 74.857, 'Asia/Kolkata'],
+  ['Amritsar', 'Punjab', 'India', 31.634, 74.8723, 'Asia/Kolkata'],
+  ['Chandigarh', 'Chandigarh', 'India', 30.7333, 76.7794, 'Asia/Kolkata'],
+  ['Coimbatore', 'Tamil Nadu', 'India', 11.0168, 76.9558, 'Asia/Kolkata'],
+  ['Madurai', 'Tamil Nadu', 'India', 9.9252, 78.1198, 'Asia/Kolkata'],
+  ['Tiruchirappalli', 'Tamil Nadu', 'India', 10.7905, 78.7047, 'Asia/Kolkata', ['Trichy']],
+  ['Kochi', 'Kerala', 'India', 9.9312, 76.2673, 'Asia/Kolkata', ['Cochin']],
+  ['Thiruvananthapuram', 'Kerala', 'India', 8.5241, 76.9366, 'Asia/Kolkata', ['Trivandrum']],
+  ['Kozhikode', 'Kerala', 'India', 11.2588, 75.7804, 'Asia/Kolkata', ['Calicut']],
+  ['Visakhapatnam', 'Andhra Pradesh', 'India', 17.6868, 83.2185, 'Asia/Kolkata', ['Vizag']],
+  ['Vijayawada', 'Andhra Pradesh', 'India', 16.5062, 80.648, 'Asia/Kolkata'],
+  ['Guwahati', 'Assam', 'India', 26.1445, 91.7362, 'Asia/Kolkata'],
+  ['Bhubaneswar', 'Odisha', 'India', 20.2961, 85.8245, 'Asia/Kolkata'],
+  ['Raipur', 'Chhattisgarh', 'India', 21.2514, 81.6296, 'Asia/Kolkata'],
+  ['Ranchi', 'Jharkhand', 'India', 23.3441, 85.3096, 'Asia/Kolkata'],
+  ['Dehradun', 'Uttarakhand', 'India', 30.3165, 78.0322, 'Asia/Kolkata'],
+  ['Haridwar', 'Uttarakhand', 'India', 29.9457, 78.1642, 'Asia/Kolkata'],
+  ['Rishikesh', 'Uttarakhand', 'India', 30.0869, 78.2676, 'Asia/Kolkata'],
+  ['Ujjain', 'Madhya Pradesh', 'India', 23.1765, 75.7885, 'Asia/Kolkata'],
+  ['Gwalior', 'Madhya Pradesh', 'India', 26.2183, 78.1828, 'Asia/Kolkata'],
+  ['Mysuru', 'Karnataka', 'India', 12.2958, 76.6394, 'Asia/Kolkata', ['Mysore']],
+  ['Mangaluru', 'Karnataka', 'India', 12.9141, 74.856, 'Asia/Kolkata', ['Mangalore']],
+  ['Panaji', 'Goa', 'India', 15.4909, 73.8278, 'Asia/Kolkata', ['Panjim', 'Goa']],
+  ['Jodhpur', 'Rajasthan', 'India', 26.2389, 73.0243, 'Asia/Kolkata'],
+  ['Udaipur', 'Rajasthan', 'India', 24.5854, 73.7125, 'Asia/Kolkata'],
+  ['Shimla', 'Himachal Pradesh', 'India', 31.1048, 77.1734, 'Asia/Kolkata'],
+  ['Puducherry', 'Puducherry', 'India', 11.9416, 79.8083, 'Asia/Kolkata', ['Pondicherry']],
+  ['Rajkot', 'Gujarat', 'India', 22.3039, 70.8022, 'Asia/Kolkata'],
+  ['Meerut', 'Uttar Pradesh', 'India', 28.9845, 77.7064, 'Asia/Kolkata'],
+  ['Mathura', 'Uttar Pradesh', 'India', 27.4924, 77.6737, 'Asia/Kolkata'],
+  ['Gorakhpur', 'Uttar Pradesh', 'India', 26.7606, 83.3732, 'Asia/Kolkata'],
+  ['Aurangabad', 'Maharashtra', 'India', 19.8762, 75.3433, 'Asia/Kolkata', ['Chhatrapati Sambhajinagar']],
+
+  // Rest of South Asia
+  ['Kathmandu', 'Bagmati', 'Nepal', 27.7172, 85.324, 'Asia/Kathmandu'],
+  ['Karachi', 'Sindh', 'Pakistan', 24.8607, 67.0011, 'Asia/Karachi'],
+  ['Lahore', 'Punjab', 'Pakistan', 31.5204, 74.3587, 'Asia/Karachi'],
+  ['Islamabad', 'Islamabad Capital Territory', 'Pakistan', 33.6844, 73.0479, 'Asia/Karachi'],
+  ['Dhaka', 'Dhaka', 'Bangladesh', 23.8103, 90.4125, 'Asia/Dhaka', ['Dacca']],
+  ['Chattogram', 'Chattogram', 'Bangladesh', 22.3569, 91.7832, 'Asia/Dhaka', ['Chittagong']],
+  ['Colombo', 'Western Province', 'Sri Lanka', 6.9271, 79.8612, 'Asia/Colombo'],
+  ['Thimphu', 'Thimphu', 'Bhutan', 27.4728, 89.639, 'Asia/Thimphu'],
+  ['Malé', 'Kaafu', 'Maldives', 4.1755, 73.5093, 'Indian/Maldives', ['Male']],
+  ['Kabul', 'Kabul', 'Afghanistan', 34.5553, 69.2075, 'Asia/Kabul'],
+
+  // East and Southeast Asia
+  ['Singapore', 'Singapore', 'Singapore', 1.3521, 103.8198, 'Asia/Singapore'],
+  ['Kuala Lumpur', 'Federal Territory', 'Malaysia', 3.139, 101.6869, 'Asia/Kuala_Lumpur'],
+  ['Bangkok', 'Bangkok', 'Thailand', 13.7563, 100.5018, 'Asia/Bangkok'],
+  ['Yangon', 'Yangon', 'Myanmar', 16.8409, 96.1735, 'Asia/Yangon', ['Rangoon']],
+  ['Jakarta', 'Jakarta', 'Indonesia', -6.2088, 106.8456, 'Asia/Jakarta'],
+  ['Denpasar', 'Bali', 'Indonesia', -8.6705, 115.2126, 'Asia/Makassar', ['Bali']],
+  ['Manila', 'Metro Manila', 'Philippines', 14.5995, 120.9842, 'Asia/Manila'],
+  ['Hanoi', 'Hanoi', 'Vietnam', 21.0278, 105.8342, 'Asia/Ho_Chi_Minh'],
+  ['Ho Chi Minh City', 'Ho Chi Minh City', 'Vietnam', 10.8231, 106.6297, 'Asia/Ho_Chi_Minh', ['Saigon']],
+  ['Hong Kong', 'Hong Kong', 'China', 22.3193, 114.1694, 'Asia/Hong_Kong'],
+  ['Beijing', 'Beijing', 'China', 39.9042, 116.4074, 'Asia/Shanghai', ['Peking']],
+  ['Shanghai', 'Shanghai', 'China', 31.2304, 121.4737, 'Asia/Shanghai'],
+  ['Guangzhou', 'Guangdong', 'China', 23.1291, 113.2644, 'Asia/Shanghai', ['Canton']],
+  ['Shenzhen', 'Guangdong', 'China', 22.5431, 114.0579, 'Asia/Shanghai'],
+  ['Taipei', 'Taipei', 'Taiwan', 25.033, 121.5654, 'Asia/Taipei'],
+  ['Tokyo', 'Tokyo', 'Japan', 35.6762, 139.6503, 'Asia/Tokyo'],
+  ['Osaka', 'Osaka', 'Japan', 34.6937, 135.5023, 'Asia/Tokyo'],
+  ['Seoul', 'Seoul', 'South Korea', 37.5665, 126.978, 'Asia/Seoul'],
+
+  // Middle East and Central Asia
+  ['Dubai', 'Dubai', 'United Arab Emirates', 25.2048, 55.2708, 'Asia/Dubai'],
+  ['Abu Dhabi', 'Abu Dhabi', 'United Arab Emirates', 24.4539, 54.3773, 'Asia/Dubai'],
+  ['Riyadh', 'Riyadh', 'Saudi Arabia', 24.7136, 46.6753, 'Asia/Riyadh'],
+  ['Jeddah', 'Makkah', 'Saudi Arabia', 21.4858, 39.1925, 'Asia/Riyadh'],
+  ['Doha', 'Doha', 'Qatar', 25.2854, 51.531, 'Asia/Qatar'],
+  ['Kuwait City', 'Al Asimah', 'Kuwait', 29.3759, 47.9774, 'Asia/Kuwait'],
+  ['Muscat', 'Muscat', 'Oman', 23.588, 58.3829, 'Asia/Muscat'],
+  ['Manama', 'Capital', 'Bahrain', 26.2285, 50.586, 'Asia/Bahrain'],
+  ['Tehran', 'Tehran', 'Iran', 35.6892, 51.389, 'Asia/Tehran'],
+  ['Jerusalem', 'Jerusalem', 'Israel', 31.7683, 35.2137, 'Asia/Jerusalem'],
+  ['Tel Aviv', 'Tel Aviv', 'Israel', 32.0853, 34.7818, 'Asia/Jerusalem'],
+  ['Istanbul', 'Istanbul', 'Turkey', 41.0082, 28.9784, 'Europe/Istanbul'],
+  ['Ankara', 'Ankara', 'Turkey', 39.9334, 32.8597, 'Europe/Istanbul'],
+  ['Almaty', 'Almaty', 'Kazakhstan', 43.222, 76.8512, 'Asia/Almaty'],
+  ['Tashkent', 'Tashkent', 'Uzbekistan', 41.2995, 69.2401, 'Asia/Tashkent'],
+
+  // Europe
+  ['London', 'England', 'United Kingdom', 51.5074, -0.1278, 'Europe/London'],
+  ['Birmingham', 'England', 'United Kingdom', 52.4862, -1.8904, 'Europe/London'],
+  ['Leicester', 'England', 'United Kingdom', 52.6369, -1.1398, 'Europe/London'],
+  ['Manchester', 'England', 'United Kingdom', 53.4808, -2.2426, 'Europe/London'],
+  ['Edinburgh', 'Scotland', 'United Kingdom', 55.9533, -3.1883, 'Europe/London'],
+  ['Dublin', 'Leinster', 'Ireland', 53.3498, -6.2603, 'Europe/Dublin'],
+  ['Paris', 'Île-de-France', 'France', 48.8566, 2.3522, 'Europe/Paris'],
+  ['Berlin', 'Berlin', 'Germany', 52.52, 13.405, 'Europe/Berlin'],
+  ['Munich', 'Bavaria', 'Germany', 48.1351, 11.582, 'Europe/Berlin', ['München']],
+  ['Frankfurt', 'Hesse', 'Germany', 50.1109, 8.6821, 'Europe/Berlin'],
+  ['Hamburg', 'Hamburg', 'Germany', 53.5511, 9.9937, 'Europe/Berlin'],
+  ['Amsterdam', 'North Holland', 'Netherlands', 52.3676, 4.9041, 'Europe/Amsterdam'],
+  ['Brussels', 'Brussels', 'Belgium', 50.8503, 4.3517, 'Europe/Brussels'],
+  ['Zurich', 'Zurich', 'Switzerland', 47.3769, 8.5417, 'Europe/Zurich', ['Zürich']],
+  ['Geneva', 'Geneva', 'Switzerland', 46.2044, 6.1432, 'Europe/Zurich'],
+  ['Vienna', 'Vienna', 'Austria', 48.2082, 16.3738, 'Europe/Vienna', ['Wien']],
+  ['Rome', 'Lazio', 'Italy', 41.9028, 12.4964, 'Europe/Rome', ['Roma']],
+  ['Milan', 'Lombardy', 'Italy', 45.4642, 9.19, 'Europe/Rome', ['Milano']],
+  ['Madrid', 'Community of Madrid', 'Spain', 40.4168, -3.7038, 'Europe/Madrid'],
+  ['Barcelona', 'Catalonia', 'Spain', 41.3851, 2.1734, 'Europe/Madrid'],
+  ['Lisbon', 'Lisbon', 'Portugal', 38.7223, -9.1393, 'Europe/Lisbon', ['Lisboa']],
+  ['Stockholm', 'Stockholm', 'Sweden', 59.3293, 18.0686, 'Europe/Stockholm'],
+  ['Oslo', 'Oslo', 'Norway', 59.9139, 10.7522, 'Europe/Oslo'],
+  ['Copenhagen', 'Capital Region', 'Denmark', 55.6761, 12.5683, 'Europe/Copenhagen'],
+  ['Helsinki', 'Uusimaa', 'Finland', 60.1699, 24.9384, 'Europe/Helsinki'],
+  ['Warsaw', 'Masovia', 'Poland', 52.2297, 21.0122, 'Europe/Warsaw'],
+  ['Prague', 'Prague', 'Czechia', 50.0755, 14.4378, 'Europe/Prague'],
+  ['Budapest', 'Budapest', 'Hungary', 47.4979, 19.0402, 'Europe/Budapest'],
+  ['Bucharest', 'Bucharest', 'Romania', 44.4268, 26.1025, 'Europe/Bucharest'],
+  ['Athens', 'Attica', 'Greece', 37.9838, 23.7275, 'Europe/Athens'],
+  ['Kyiv', 'Kyiv', 'Ukraine', 50.4501, 30.5234, 'Europe/Kyiv', ['Kiev']],
+  ['Moscow', 'Moscow', 'Russia', 55.7558, 37.6173, 'Europe/Moscow'],
+  ['Saint Petersburg', 'Saint Petersburg', 'Russia', 59.9311, 30.3609, 'Europe/Moscow', ['St Petersburg', 'Leningrad']],
+
+  // North America
+  ['New York', 'New York', 'United States', 40.7128, -74.006, 'America/New_York', ['NYC']],
+  ['Los Angeles', 'California', 'United States', 34.0522, -118.2437, 'America/Los_Angeles', ['LA']],
+  ['Chicago', 'Illinois', 'United States', 41.8781, -87.6298, 'America/Chicago'],
+  ['Houston', 'Texas', 'United States', 29.7604, -95.3698, 'America/Chicago'],
+  ['San Francisco', 'California', 'United States', 37.7749, -122.4194, 'America/Los_Angeles'],
+  ['San Jose', 'California', 'United States', 37.3382, -121.8863, 'America/Los_Angeles'],
+  ['Seattle', 'Washington', 'United States', 47.6062, -122.3321, 'America/Los_Angeles'],
+  ['Boston', 'Massachusetts', 'United States', 42.3601, -71.0589, 'America/New_York'],
+  ['Washington', 'District of Columbia', 'United States', 38.9072, -77.0369, 'America/New_York', ['Washington DC']],
+  ['Philadelphia', 'Pennsylvania', 'United States', 39.9526, -75.1652, 'America/New_York'],
+  ['Atlanta', 'Georgia', 'United States', 33.749, -84.388, 'America/New_York'],
+  ['Miami', 'Florida', 'United States', 25.7617, -80.1918, 'America/New_York'],
+  ['Detroit', 'Michigan', 'United States', 42.3314, -83.0458, 'America/Detroit'],
+  ['Dallas', 'Texas', 'United States', 32.7767, -96.797, 'America/Chicago'],
+  ['Austin', 'Texas', 'United States', 30.2672, -97.7431, 'America/Chicago'],
+  ['Minneapolis', 'Minnesota', 'United States', 44.9778, -93.265, 'America/Chicago'],
+  ['Denver', 'Colorado', 'United States', 39.7392, -104.9903, 'America/Denver'],
+  ['Phoenix', 'Arizona', 'United States', 33.4484, -112.074, 'America/Phoenix'],
+  ['Las Vegas', 'Nevada', 'United States', 36.1699, -115.1398, 'America/Los_Angeles'],
+  ['Honolulu', 'Hawaii', 'United States', 21.3069, -157.8583, 'Pacific/Honolulu'],
+  ['Anchorage', 'Alaska', 'United States', 61.2181, -149.9003, 'America/Anchorage'],
+  ['Toronto', 'Ontario', 'Canada', 43.6532, -79.3832, 'America/Toronto'],
+  ['Montreal', 'Quebec', 'Canada', 45.5017, -73.5673, 'America/Toronto', ['Montréal']],
+  ['Vancouver', 'British Columbia', 'Canada', 49.2827, -123.1207, 'America/Vancouver'],
+  ['Calgary', 'Alberta', 'Canada', 51.0447, -114.0719, 'America/Edmonton'],
+  ['Mexico City', 'CDMX', 'Mexico', 19.4326, -99.1332, 'America/Mexico_City'],
+
+  // South America and Caribbean
+  ['São Paulo', 'São Paulo', 'Brazil', -23.5505, -46.6333, 'America/Sao_Paulo', ['Sao Paulo']],
+  ['Rio de Janeiro', 'Rio de Janeiro', 'Brazil', -22.9068, -43.1729, 'America/Sao_Paulo'],
+  ['Buenos Aires', 'Buenos Aires', 'Argentina', -34.6037, -58.3816, 'America/Argentina/Buenos_Aires'],
+  ['Santiago', 'Santiago Metropolitan', 'Chile', -33.4489, -70.6693, 'America/Santiago'],
+  ['Lima', 'Lima', 'Peru', -12.0464, -77.0428, 'America/Lima'],
+  ['Bogotá', 'Bogotá', 'Colombia', 4.711, -74.0721, 'America/Bogota', ['Bogota']],
+  ['Caracas', 'Capital District', 'Venezuela', 10.4806, -66.9036, 'America/Caracas'],
+  ['Port of Spain', 'Port of Spain', 'Trinidad and Tobago', 10.6596, -61.5086, 'America/Port_of_Spain'],
+  ['Georgetown', 'Demerara-Mahaica', 'Guyana', 6.8013, -58.1551, 'America/Guyana'],
+
+  // Africa
+  ['Cairo', 'Cairo', 'Egypt', 30.0444, 31.2357, 'Africa/Cairo'],
+  ['Lagos', 'Lagos', 'Nigeria', 6.5244, 3.3792, 'Africa/Lagos'],
+  ['Nairobi', 'Nairobi', 'Kenya', -1.2921, 36.8219, 'Africa/Nairobi'],
+  ['Johannesburg', 'Gauteng', 'South Africa', -26.2041, 28.0473, 'Africa/Johannesburg'],
+  ['Cape Town', 'Western Cape', 'South Africa', -33.9249, 18.4241, 'Africa/Johannesburg'],
+  ['Durban', 'KwaZulu-Natal', 'South Africa', -29.8587, 31.0218, 'Africa/Johannesburg'],
+  ['Casablanca', 'Casablanca-Settat', 'Morocco', 33.5731, -7.5898, 'Africa/Casablanca'],
+  ['Accra', 'Greater Accra', 'Ghana', 5.6037, -0.187, 'Africa/Accra'],
+  ['Addis Ababa', 'Addis Ababa', 'Ethiopia', 8.9806, 38.7578, 'Africa/Addis_Ababa'],
+  ['Dar es Salaam', 'Dar es Salaam', 'Tanzania', -6.7924, 39.2083, 'Africa/Dar_es_Salaam'],
+  ['Kampala', 'Central Region', 'Uganda', 0.3476, 32.5825, 'Africa/Kampala'],
+  ['Port Louis', 'Port Louis', 'Mauritius', -20.1609, 57.5012, 'Indian/Mauritius'],
+
+  // Oceania
+  ['Sydney', 'New South Wales', 'Australia', -33.8688, 151.2093, 'Australia/Sydney'],
+  ['Melbourne', 'Victoria', 'Australia', -37.8136, 144.9631, 'Australia/Melbourne'],
+  ['Brisbane', 'Queensland', 'Australia', -27.4698, 153.0251, 'Australia/Brisbane'],
+  ['Perth', 'Western Australia', 'Australia', -31.9505, 115.8605, 'Australia/Perth'],
+  ['Adelaide', 'South Australia', 'Australia', -34.9285, 138.6007, 'Australia/Adelaide'],
+  ['Auckland', 'Auckland', 'New Zealand', -36.8485, 174.7633, 'Pacific/Auckland'],
+  ['Wellington', 'Wellington', 'New Zealand', -41.2865, 174.7762, 'Pacific/Auckland'],
+  ['Suva', 'Central Division', 'Fiji', -18.1248, 178.4501, 'Pacific/Fiji'],
+];
@@ -0,0 +1,147 @@
+/**
+ * Geocoder
+ *
+ * Place-name lookup behind a small interface so the bundled offline
+ * gazetteer can later be swapped for a remote geocoding service.
+ */
+
+import { GAZETTEER, type GazetteerEntry } from './gazetteer';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export interface GeoPlace {
+  /** Stable identifier for list keys */
+  id: string;
+  name: string;
+  region?: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+  /** IANA timezone, e.g. Asia/Kolkata */
+  timezone: string;
+}
+
+export interface GeocodeOptions {
+  /** Maximum number of suggestions (default: 8) */
+  limit?: number;
+  /** Abort an in-flight lookup (remote geocoders) */
+  signal?: AbortSignal;
+}
+
+export interface Geocoder {
+  search(query: string, options?: GeocodeOptions): Promise<GeoPlace[]>;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const DEFAULT_LIMIT = 8;
+
+/**
+ * Lowercase and strip diacritics so "sao paulo" matches "São Paulo"
+ */
+export function normalizePlaceName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9, ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Human-readable label, e.g. "Pune, Maharashtra, India"
+ */
+export function formatPlace(place: GeoPlace): string {
+  return [place.name, place.region !== place.name ? place.region : undefined, place.country]
+    .filter(Boolean)
+    .join(', ');
+}
+
+// ============================================================================
+// Offline Gazetteer Geocoder
+// ============================================================================
+
+interface IndexedEntry {
+  place: GeoPlace;
+  names: string[];
+  qualifiers: string;
+  rank: number;
+}
+
+/**
+ * Matches against the bundled gazetteer. Ranking: exact name, then name
+ * prefix, then word prefix, then substring; ties broken by list order.
+ * Text after the first comma narrows by region or country ("Georgetown, Guyana").
+ */
+export class GazetteerGeocoder implements Geocoder {
+  private index: IndexedEntry[];
+
+  constructor(entries: GazetteerEntry[] = GAZETTEER) {
+    this.index = entries.map(([name, region, country, latitude, longitude, timezone, aliases = []], rank) => ({
+      place: {
+        id: `${name}|${region}|${country}`,
+        name,
+        region,
+        country,
+        latitude,
+        longitude,
+        timezone,
+      },
+      names: [name, ...aliases].map(normalizePlaceName),
+      qualifiers: normalizePlaceName(`${region} ${country}`),
+      rank,
+    }));
+  }
+
+  private score(entry: IndexedEntry, term: string): number {
+    let best = 0;
+    for (const name of entry.names) {
+      if (name === term) return 4;
+      if (name.startsWith(term)) best = Math.max(best, 3);
+      else if (name.split(' ').some((word) => word.startsWith(term))) best = Math.max(best, 2);
+      else if (name.includes(term)) best = Math.max(best, 1);
+    }
+    return best;
+  }
+
+  async search(query: string, options: GeocodeOptions = {}): Promise<GeoPlace[]> {
+    const [term = '', ...rest] = normalizePlaceName(query).split(',').map((part) => part.trim());
+    const qualifier = rest.join(' ').trim();
+    if (term.length < 2) return [];
+
+    return this.index
+      .map((entry) => ({ entry, score: this.score(entry, term) }))
+      .filter(({ entry, score }) => score > 0 && (!qualifier || entry.qualifiers.includes(qualifier)))
+      .sort((a, b) => b.score - a.score || a.entry.rank - b.entry.rank)
+      .slice(0, options.limit ?? DEFAULT_LIMIT)
+      .map(({ entry }) => entry.place);
+  }
+}
+
+// ============================================================================
+// Active Geocoder
+// ============================================================================
+
+let activeGeocoder: Geocoder | null = null;
+
+/**
+ * Get the active geocoder (the offline gazetteer unless configured otherwise)
+ */
+export function getGeocoder(): Geocoder {
+  if (!activeGeocoder) {
+    activeGeocoder = new GazetteerGeocoder();
+  }
+  return activeGeocoder;
+}
+
+/**
+ * Plug in a different geocoder, e.g. one backed by a remote service
+ */
+export function setGeocoder(geocoder: Geocoder): void {
+  activeGeocoder = geocoder;
+}
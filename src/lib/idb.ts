@@ -0,0 +1,108 @@
+/**
+ * IndexedDB Helpers
+ *
+ * Thin promise wrappers around the app's single IndexedDB database:
+ * - One connection per page, opened lazily and shared
+ * - Object stores declared in one place and created on upgrade
+ * - Callers check `isIndexedDBAvailable()` and fall back when it's missing
+ *   (private browsing in some browsers, old WebViews, tests)
+ */
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+interface StoreDefinition {
+  keyPath: string;
+  indexes?: { name: string; keyPath: string }[];
+}
+
+export type AppStoreName = keyof typeof STORES;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DB_NAME = 'astro-shiva';
+const DB_VERSION = 2;
+
+/** Bump DB_VERSION when adding a store; existing stores are left as they are */
+const STORES = {
+  outbox: { keyPath: 'id', indexes: [{ name: 'ownerId', keyPath: 'ownerId' }] },
+  transcripts: { keyPath: 'key', indexes: [{ name: 'ownerId', keyPath: 'ownerId' }] },
+} satisfies Record<string, StoreDefinition>;
+
+// ============================================================================
+// Connection
+// ============================================================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDBAvailable(): boolean {
+  try {
+    return typeof indexedDB !== 'undefined' && indexedDB !== null;
+  } catch {
+    // Some browsers throw on access when storage is disabled
+    return false;
+  }
+}
+
+/**
+ * The shared connection, opened (and upgraded) on first use
+ */
+export function openAppDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const [name, definition] of Object.entries(STORES) as [string, StoreDefinition][]) {
+        if (db.objectStoreNames.contains(name)) continue;
+        const store = db.createObjectStore(name, { keyPath: definition.keyPath });
+        definition.indexes?.forEach((index) => store.createIndex(index.name, index.keyPath));
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgrading the schema needs this one to let go
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn('[idb] Upgrade blocked by another open tab');
+  });
+
+  // A failed open may succeed later (e.g. after the user frees up space)
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Run `fn` in a transaction on one store and resolve with its request's
+ * result once the transaction commits
+ */
+export async function withStore<T>(
+  storeName: AppStoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openAppDatabase();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = fn(transaction.objectStore(storeName));
+
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
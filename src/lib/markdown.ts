@@ -0,0 +1,607 @@
+/**
+ * Markdown Parser
+ *
+ * Small markdown parser for assistant replies, producing a tree that the
+ * MarkdownContent component renders as React elements:
+ * - Headings, paragraphs, fenced code, blockquotes, nested lists, rules
+ *   and GFM tables
+ * - Bold, italic, strikethrough, inline code, links and bare URLs
+ * - No raw HTML: tags come through as text, and links are limited to
+ *   http(s) and mailto
+ * - Streaming: text is split into top-level blocks so only the last one
+ *   changes as tokens arrive, and that block can be parsed as `partial`
+ *   so half-written syntax doesn't flash as raw characters
+ */
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'emphasis'; children: InlineNode[] }
+  | { type: 'strikethrough'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type BlockNode =
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'code'; language: string | null; text: string }
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: BlockNode[][] }
+  | { type: 'table'; align: TableAlign[]; header: InlineNode[][]; rows: InlineNode[][][] }
+  | { type: 'rule' };
+
+export interface ParseOptions {
+  /**
+   * The text may stop mid-syntax (a reply still streaming): unclosed
+   * emphasis and code run to the end, and dangling markers are hidden
+   */
+  partial?: boolean;
+}
+
+type SpanDelimiter = '**' | '__' | '~~' | '*' | '_';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const FENCE_OPEN_RE = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+const FENCE_CLOSE_RE = /^ {0,3}(`{3,}|~{3,})\s*$/;
+const HEADING_RE = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const RULE_RE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE_RE = /^ {0,3}> ?/;
+const LIST_ITEM_RE = /^( {0,3})([-*+]|\d{1,9}[.)])( +|$)(.*)$/;
+const TABLE_DELIMITER_RE = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-*:?\s*)*\|?\s*$/;
+
+const ESCAPABLE_RE = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+const BARE_URL_RE = /^https?:\/\/[^\s<>]+/;
+const SAFE_HREF_RE = /^(https?:\/\/|mailto:)/i;
+
+const SPAN_TYPES: Record<SpanDelimiter, 'strong' | 'emphasis' | 'strikethrough'> = {
+  '**': 'strong',
+  '__': 'strong',
+  '~~': 'strikethrough',
+  '*': 'emphasis',
+  '_': 'emphasis',
+};
+
+// ============================================================================
+// Block Splitting
+// ============================================================================
+
+/**
+ * Split text into top-level blocks at blank lines, keeping fenced code and
+ * loose lists together. Appending text only ever changes the last block.
+ */
+export function splitBlocks(source: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let fence: string | null = null;
+  let blankPending = false;
+
+  const flush = () => {
+    if (current.length > 0) blocks.push(current.join('\n'));
+    current = [];
+  };
+
+  for (const line of normalize(source).split('\n')) {
+    if (fence) {
+      current.push(line);
+      if (isFenceClose(line, fence)) fence = null;
+      continue;
+    }
+
+    if (line.trim() === '') {
+      if (current.length > 0) blankPending = true;
+      continue;
+    }
+
+    if (blankPending) {
+      blankPending = false;
+      // A blank line inside a list (between items, or before an indented
+      // continuation) doesn't end it
+      const continuesList =
+        current.some((previous) => LIST_ITEM_RE.test(previous)) &&
+        (LIST_ITEM_RE.test(line) || /^\s{2,}\S/.test(line));
+      if (continuesList) {
+        current.push('');
+      } else {
+        flush();
+      }
+    }
+
+    const open = FENCE_OPEN_RE.exec(line);
+    if (open) fence = open[1];
+    current.push(line);
+  }
+
+  flush();
+  return blocks;
+}
+
+// ============================================================================
+// Block Parsing
+// ============================================================================
+
+export function parseMarkdown(source: string, options: ParseOptions = {}): BlockNode[] {
+  return parseLines(normalize(source).split('\n'), options.partial ?? false);
+}
+
+function normalize(source: string): string {
+  return source.replace(/\r\n?/g, '\n').replace(/\t/g, '    ');
+}
+
+function isFenceClose(line: string, fence: string): boolean {
+  const match = FENCE_CLOSE_RE.exec(line);
+  return match !== null && match[1][0] === fence[0] && match[1].length >= fence.length;
+}
+
+/**
+ * Parse a run of lines. `partial` only applies to the block that reaches
+ * the last line; everything before it is complete.
+ */
+function parseLines(lines: string[], partial: boolean): BlockNode[] {
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim() === '') {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE_OPEN_RE.exec(line);
+    if (fence) {
+      const body: string[] = [];
+      let j = i + 1;
+      while (j < lines.length && !isFenceClose(lines[j], fence[1])) body.push(lines[j++]);
+      blocks.push({ type: 'code', language: fence[2] || null, text: body.join('\n') });
+      i = j + 1;
+      continue;
+    }
+
+    const heading = HEADING_RE.exec(line);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length,
+        children: parseInline(heading[2] ?? '', partial && i === lines.length - 1),
+      });
+      i++;
+      continue;
+    }
+
+    if (RULE_RE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE_RE.test(line)) {
+      const body: string[] = [];
+      let j = i;
+      while (j < lines.length && QUOTE_RE.test(lines[j])) body.push(lines[j++].replace(QUOTE_RE, ''));
+      blocks.push({ type: 'blockquote', children: parseLines(body, partial && j >= lines.length) });
+      i = j;
+      continue;
+    }
+
+    if (LIST_ITEM_RE.test(line)) {
+      const [list, end] = parseList(lines, i, partial);
+      blocks.push(list);
+      i = end;
+      continue;
+    }
+
+    const table = parseTable(lines, i, partial);
+    if (table) {
+      blocks.push(table[0]);
+      i = table[1];
+      continue;
+    }
+
+    // Paragraph: everything up to a blank line or the start of another block
+    const body: string[] = [line.trim()];
+    let j = i + 1;
+    while (j < lines.length && lines[j].trim() !== '' && !startsBlock(lines, j, partial)) {
+      body.push(lines[j++].trim());
+    }
+    const atEnd = partial && j >= lines.length;
+    // A table header still waiting for its delimiter row: hold it back
+    // rather than flash it as lines of pipes
+    while (atEnd && body.length > 0 && body[body.length - 1].startsWith('|')) body.pop();
+    if (body.length > 0) blocks.push({ type: 'paragraph', children: parseInline(body.join('\n'), atEnd) });
+    i = j;
+  }
+
+  return blocks;
+}
+
+function startsBlock(lines: string[], index: number, partial: boolean): boolean {
+  const line = lines[index];
+  return (
+    FENCE_OPEN_RE.test(line) ||
+    HEADING_RE.test(line) ||
+    RULE_RE.test(line) ||
+    QUOTE_RE.test(line) ||
+    LIST_ITEM_RE.test(line) ||
+    parseTable(lines, index, partial) !== null
+  );
+}
+
+function parseList(lines: string[], start: number, partial: boolean): [BlockNode, number] {
+  const first = LIST_ITEM_RE.exec(lines[start])!;
+  const ordered = /\d/.test(first[2]);
+  const items: string[][] = [];
+  let contentIndent = 0;
+  let i = start;
+  let previousBlank = false;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const item = LIST_ITEM_RE.exec(line);
+    const indent = line.length - line.trimStart().length;
+
+    if (item && /\d/.test(item[2]) === ordered && (items.length === 0 || indent < contentIndent)) {
+      // Content starts after the marker; very wide gaps count as one space
+      const gap = item[3].length > 4 || item[4] === '' ? 1 : item[3].length;
+      contentIndent = item[1].length + item[2].length + gap;
+      items.push([item[4]]);
+      previousBlank = false;
+    } else if (line.trim() === '') {
+      items[items.length - 1].push('');
+      previousBlank = true;
+    } else if (indent >= contentIndent) {
+      items[items.length - 1].push(line.slice(contentIndent));
+      previousBlank = false;
+    } else if (!previousBlank && !startsBlock(lines, i, partial)) {
+      // Lazy continuation of the item's paragraph
+      items[items.length - 1].push(line.trim());
+    } else {
+      break;
+    }
+    i++;
+  }
+
+  // Trailing blank lines belong to whatever follows the list
+  while (i > start && lines[i - 1].trim() === '') {
+    i--;
+    items[items.length - 1].pop();
+  }
+
+  const atEnd = partial && i >= lines.length;
+  return [
+    {
+      type: 'list',
+      ordered,
+      start: ordered ? parseInt(first[2], 10) : 1,
+      items: items.map((item, index) => parseLines(item, atEnd && index === items.length - 1)),
+    },
+    i,
+  ];
+}
+
+function parseTable(lines: string[], start: number, partial: boolean): [BlockNode, number] | null {
+  const headerLine = lines[start];
+  const delimiterLine = lines[start + 1];
+  if (delimiterLine === undefined || !headerLine.includes('|') || !delimiterLine.includes('|')) return null;
+  if (!TABLE_DELIMITER_RE.test(delimiterLine)) return null;
+
+  const headerCells = splitRow(headerLine);
+  const delimiterCells = splitRow(delimiterLine);
+  // Mid-stream the delimiter row may not have all its cells yet
+  const delimiterStillArriving = partial && start + 1 === lines.length - 1;
+  const complete =
+    delimiterCells.length === headerCells.length && delimiterCells.every((cell) => /^:?-+:?$/.test(cell));
+  if (!complete && !(delimiterStillArriving && delimiterCells.length <= headerCells.length)) return null;
+
+  const align = headerCells.map((_, index): TableAlign => {
+    const cell = delimiterCells[index] ?? '';
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':') && cell.length > 1;
+    if (left && right) return 'center';
+    if (right) return 'right';
+    if (left) return 'left';
+    return null;
+  });
+
+  const rows: InlineNode[][][] = [];
+  let i = start + 2;
+  while (i < lines.length && lines[i].trim() !== '' && lines[i].includes('|')) {
+    const cells = splitRow(lines[i]);
+    const atEnd = partial && i === lines.length - 1;
+    rows.push(headerCells.map((_, index) => parseInline(cells[index] ?? '', atEnd)));
+    i++;
+  }
+
+  return [
+    { type: 'table', align, header: headerCells.map((cell) => parseInline(cell, false)), rows },
+    i,
+  ];
+}
+
+/**
+ * Cells of a table row; pipes inside code spans or escaped with `\|` don't
+ * split
+ */
+function splitRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+
+  const cells: string[] = [];
+  let cell = '';
+  let inCode = false;
+  for (let i = 0; i < row.length; i++) {
+    const ch = row[i];
+    if (ch === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (ch === '`') {
+      inCode = !inCode;
+      cell += ch;
+    } else if (ch === '|' && !inCode) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+// ============================================================================
+// Inline Parsing
+// ============================================================================
+
+export function parseInline(text: string, partial = false): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+
+  const pushText = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\\' && i + 1 < text.length && ESCAPABLE_RE.test(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === '\n') {
+      pushText();
+      nodes.push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (ch === '`') {
+      const run = runLength(text, i, '`');
+      const close = findCodeClose(text, i + run, run);
+      if (close !== -1) {
+        pushText();
+        nodes.push({ type: 'code', text: trimCodeSpan(text.slice(i + run, close)) });
+        i = close + run;
+        continue;
+      }
+      if (partial) {
+        pushText();
+        const rest = text.slice(i + run);
+        if (rest) nodes.push({ type: 'code', text: rest });
+        return nodes;
+      }
+      buffer += text.slice(i, i + run);
+      i += run;
+      continue;
+    }
+
+    const delimiter = delimiterAt(text, i);
+    if (delimiter) {
+      const after = i + delimiter.length;
+      if (partial && after >= text.length) break;
+      if (canOpen(text, i, delimiter)) {
+        const close = findSpanClose(text, after, delimiter);
+        if (close !== -1) {
+          pushText();
+          nodes.push({ type: SPAN_TYPES[delimiter], children: parseInline(text.slice(after, close)) });
+          i = close + delimiter.length;
+          continue;
+        }
+        if (partial) {
+          pushText();
+          nodes.push({ type: SPAN_TYPES[delimiter], children: parseInline(text.slice(after), true) });
+          return nodes;
+        }
+      }
+      buffer += delimiter;
+      i = after;
+      continue;
+    }
+
+    if (ch === '[') {
+      const link = parseLink(text, i);
+      if (link === 'incomplete' && partial) {
+        // Show the label as it arrives; it becomes a link once the URL is complete
+        pushText();
+        const labelEnd = findBracketClose(text, i);
+        const label = labelEnd === -1 ? text.slice(i + 1) : text.slice(i + 1, labelEnd);
+        nodes.push(...parseInline(label, labelEnd === -1));
+        return nodes;
+      }
+      if (link && link !== 'incomplete') {
+        pushText();
+        const children = parseInline(link.label);
+        const href = safeHref(link.href);
+        if (href) {
+          nodes.push({ type: 'link', href, children });
+        } else {
+          nodes.push(...children);
+        }
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (ch === '<') {
+      const match = /^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i.exec(text.slice(i));
+      if (match) {
+        pushText();
+        nodes.push({ type: 'link', href: match[1], children: [{ type: 'text', text: match[1].replace(/^mailto:/i, '') }] });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    if ((ch === 'h' || ch === 'H') && (i === 0 || !/[\w/]/.test(text[i - 1]))) {
+      const match = BARE_URL_RE.exec(text.slice(i));
+      if (match) {
+        const url = trimUrl(match[0]);
+        pushText();
+        nodes.push({ type: 'link', href: url, children: [{ type: 'text', text: url }] });
+        i += url.length;
+        continue;
+      }
+    }
+
+    buffer += ch;
+    i++;
+  }
+
+  pushText();
+  return nodes;
+}
+
+function runLength(text: string, start: number, ch: string): number {
+  let end = start;
+  while (text[end] === ch) end++;
+  return end - start;
+}
+
+function findCodeClose(text: string, from: number, run: number): number {
+  let i = text.indexOf('`', from);
+  while (i !== -1) {
+    const length = runLength(text, i, '`');
+    if (length === run) return i;
+    i = text.indexOf('`', i + length);
+  }
+  return -1;
+}
+
+function trimCodeSpan(code: string): string {
+  return code.length > 1 && code.startsWith(' ') && code.endsWith(' ') && code.trim() !== ''
+    ? code.slice(1, -1)
+    : code;
+}
+
+function delimiterAt(text: string, i: number): SpanDelimiter | null {
+  const pair = text.slice(i, i + 2);
+  if (pair === '**' || pair === '__' || pair === '~~') return pair;
+  if (text[i] === '*' || text[i] === '_') return text[i] as SpanDelimiter;
+  return null;
+}
+
+function isWordChar(ch: string | undefined): boolean {
+  return ch !== undefined && /[\p{L}\p{N}]/u.test(ch);
+}
+
+function canOpen(text: string, i: number, delimiter: SpanDelimiter): boolean {
+  const next = text[i + delimiter.length];
+  if (next === undefined || /\s/.test(next)) return false;
+  // snake_case_names are not emphasis
+  return delimiter[0] !== '_' || !isWordChar(text[i - 1]);
+}
+
+function findSpanClose(text: string, from: number, delimiter: SpanDelimiter): number {
+  const ch = delimiter[0];
+  let i = from;
+  while (i < text.length) {
+    if (text[i] === '\\') {
+      i += 2;
+      continue;
+    }
+    if (text[i] === '`') {
+      const run = runLength(text, i, '`');
+      const close = findCodeClose(text, i + run, run);
+      i = close === -1 ? i + run : close + run;
+      continue;
+    }
+    if (text.startsWith(delimiter, i) && i > from && !/\s/.test(text[i - 1])) {
+      const single = delimiter.length === 1;
+      const partOfLonger = single && (text[i + 1] === ch || text[i - 1] === ch);
+      const intraword = ch === '_' && isWordChar(text[i + delimiter.length]);
+      if (!partOfLonger && !intraword) return i;
+    }
+    // Skip whole runs so `**` is never read as two `*`
+    i += text[i] === ch ? runLength(text, i, ch) : 1;
+  }
+  return -1;
+}
+
+function findBracketClose(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '[') {
+      depth++;
+    } else if (text[i] === ']' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * `[label](href "title")` starting at `open`. Null when it isn't a link;
+ * `incomplete` when it could still become one as more text arrives.
+ */
+function parseLink(text: string, open: number): { label: string; href: string; end: number } | 'incomplete' | null {
+  const close = findBracketClose(text, open);
+  if (close === -1) return 'incomplete';
+  if (close + 1 >= text.length) return 'incomplete';
+  if (text[close + 1] !== '(') return null;
+
+  let depth = 0;
+  for (let i = close + 2; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    if (text[i] === ')' && depth-- === 0) {
+      const target = text.slice(close + 2, i).trim();
+      const href = target.replace(/\s+(["'(]).*$/, '').replace(/^<(.*)>$/, '$1');
+      if (/\s/.test(href)) return null;
+      return { label: text.slice(open + 1, close), href, end: i + 1 };
+    }
+    if (text[i] === '\n') return null;
+  }
+  return 'incomplete';
+}
+
+/**
+ * Only web and mail links are rendered; anything else (javascript:, data:,
+ * relative paths into this app) is dropped and its label kept as text
+ */
+function safeHref(href: string): string | null {
+  return SAFE_HREF_RE.test(href) ? href : null;
+}
+
+function trimUrl(url: string): string {
+  let trimmed = url.replace(/[.,;:!?'"*_~]+$/, '');
+  // Keep a closing paren that belongs to the URL, as in Wikipedia links
+  while (trimmed.endsWith(')') && (trimmed.match(/\(/g)?.length ?? 0) < (trimmed.match(/\)/g)?.length ?? 0)) {
+    trimmed = trimmed.slice(0, -1).replace(/[.,;:!?'"*_~]+$/, '');
+  }
+  return trimmed;
+}
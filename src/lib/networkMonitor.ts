@@ -7,6 +7,9 @@
  * - Network health metrics
  * - Auto-reconnect on network recovery
  * - Connection type detection
+ * - Optional active probe of the API's /health endpoint: measured RTT
+ *   (where the Network Information API is missing) and API reachability
+ *   tracked separately from the browser's online state
  */
 
 // ============================================================================
@@ -41,6 +44,8 @@ export interface NetworkMetrics {
   saveData: boolean | null;
   /** Maximum downlink speed (if available) */
   downlinkMax: number | null;
+  /** Round-trip time measured by the active probe, smoothed, in ms */
+  measuredRtt: number | null;
 }
 
 export interface NetworkQuality {
@@ -56,9 +61,28 @@ export interface NetworkQuality {
   recommendedQuality: 'high' | 'medium' | 'low' | 'audio-only' | 'none';
 }
 
+export type ApiReachability = 'unknown' | 'reachable' | 'unreachable';
+
+export interface ApiStatus {
+  /** `unknown` until the first probe, and whenever probing is disabled */
+  reachability: ApiReachability;
+  /** Round trip of the last probe in ms */
+  rtt: number | null;
+  /** HTTP status of the last probe; null when no response arrived */
+  status: number | null;
+  /** Timestamp of the last probe */
+  lastChecked: number | null;
+  /** Failed probes in a row */
+  consecutiveFailures: number;
+  /** Why the last probe failed */
+  error: string | null;
+}
+
 export interface NetworkHealth {
   /** Current network metrics */
   metrics: NetworkMetrics;
+  /** API reachability from the active probe */
+  api: ApiStatus;
   /** Calculated network quality */
   quality: NetworkQuality;
   /** Timestamp of last update */
@@ -89,6 +113,14 @@ export interface NetworkMonitorConfig {
   onDisconnect?: (health: NetworkHealth) => void;
   /** Callback when quality changes significantly */
   onQualityChange?: (quality: NetworkQuality, previousQuality: NetworkQuality) => void;
+  /** URL to probe for API reachability, e.g. `${API_BASE_URL}/health` (default: no probing) */
+  probeUrl?: string | null;
+  /** Probe interval in milliseconds */
+  probeInterval?: number;
+  /** Probe timeout in milliseconds; slower answers count as unreachable */
+  probeTimeout?: number;
+  /** Callback when API reachability changes */
+  onApiStatusChange?: (api: ApiStatus, previous: ApiStatus) => void;
 }
 
 // ============================================================================
@@ -111,6 +143,22 @@ interface NavigatorWithConnection extends Navigator {
   readonly webkitConnection?: NetworkInformation;
 }
 
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Weight of a new probe sample in the smoothed RTT */
+const PROBE_RTT_SMOOTHING = 0.3;
+
+const INITIAL_API_STATUS: ApiStatus = {
+  reachability: 'unknown',
+  rtt: null,
+  status: null,
+  lastChecked: null,
+  consecutiveFailures: 0,
+  error: null,
+};
+
 // ============================================================================
 // Network Monitor Class
 // ============================================================================
@@ -121,6 +169,11 @@ export class NetworkMonitor {
   private healthCheckTimer: ReturnType<typeof setInterval> | null = null;
   private listeners: Set<(health: NetworkHealth) => void> = new Set();
   private previousQuality: NetworkQuality | null = null;
+  private probeTimer: ReturnType<typeof setInterval> | null = null;
+  private probeInFlight: Promise<ApiStatus> | null = null;
+  private apiStatus: ApiStatus = INITIAL_API_STATUS;
+  private smoothedRtt: number | null = null;
+  private destroyed = false;
 
   constructor(config: NetworkMonitorConfig = {}) {
     this.config = {
@@ -131,6 +184,10 @@ export class NetworkMonitor {
       onReconnect: config.onReconnect ?? (() => {}),
       onDisconnect: config.onDisconnect ?? (() => {}),
       onQualityChange: config.onQualityChange ?? (() => {}),
+      probeUrl: config.probeUrl ?? null,
+      probeInterval: config.probeInterval ?? 30000,
+      probeTimeout: config.probeTimeout ?? 5000,
+      onApiStatusChange: config.onApiStatusChange ?? (() => {}),
     };
 
     this.health = this.createInitialHealth();
@@ -148,7 +205,9 @@ export class NetworkMonitor {
         downlink: null,
         saveData: null,
         downlinkMax: null,
+        measuredRtt: null,
       }),
+      api: this.apiStatus,
       lastUpdated: Date.now(),
       history: [],
     };
@@ -172,6 +231,11 @@ export class NetworkMonitor {
 
     // Initial update
     this.updateHealth();
+
+    if (this.config.probeUrl) {
+      this.startProbes();
+      void this.probeNow();
+    }
   }
 
   private getConnection(): NetworkInformation | null {
@@ -190,6 +254,7 @@ export class NetworkMonitor {
       downlink: connection?.downlink ?? null,
       saveData: connection?.saveData ?? null,
       downlinkMax: connection?.downlinkMax ?? null,
+      measuredRtt: this.smoothedRtt,
     };
   }
 
@@ -242,12 +307,13 @@ export class NetworkMonitor {
         break;
     }
 
-    // RTT scoring (lower is better)
-    if (metrics.rtt !== null) {
-      if (metrics.rtt < 50) score += 10;
-      else if (metrics.rtt < 100) score += 5;
-      else if (metrics.rtt < 300) score += 0;
-      else if (metrics.rtt < 500) score -= 10;
+    // RTT scoring (lower is better); a measured RTT beats the browser's estimate
+    const rtt = metrics.measuredRtt ?? metrics.rtt;
+    if (rtt !== null) {
+      if (rtt < 50) score += 10;
+      else if (rtt < 100) score += 5;
+      else if (rtt < 300) score += 0;
+      else if (rtt < 500) score -= 10;
       else score -= 20;
     }
 
@@ -278,7 +344,7 @@ export class NetworkMonitor {
 
     // Determine capabilities
     const isHighBandwidth = score >= 60 && metrics.downlink !== null && metrics.downlink >= 1;
-    const isLowLatency = score >= 60 && metrics.rtt !== null && metrics.rtt < 200;
+    const isLowLatency = score >= 60 && rtt !== null && rtt < 200;
 
     // Determine recommended quality
     let recommendedQuality: NetworkQuality['recommendedQuality'];
@@ -326,6 +392,7 @@ export class NetworkMonitor {
     this.health = {
       metrics,
       quality,
+      api: this.apiStatus,
       lastUpdated: timestamp,
       history: newHistory,
     };
@@ -338,11 +405,14 @@ export class NetworkMonitor {
   private handleOnline = (): void => {
     this.updateHealth();
     this.config.onReconnect(this.health);
+    // The browser being back online says nothing about the API yet
+    if (this.config.probeUrl) void this.probeNow();
   };
 
   private handleOffline = (): void => {
     this.updateHealth();
     this.config.onDisconnect(this.health);
+    if (this.config.probeUrl) void this.probeNow();
   };
 
   private handleConnectionChange = (): void => {
@@ -362,6 +432,81 @@ export class NetworkMonitor {
     }
   }
 
+  private startProbes(): void {
+    this.probeTimer = setInterval(() => {
+      void this.probeNow();
+    }, this.config.probeInterval);
+  }
+
+  private stopProbes(): void {
+    if (this.probeTimer) {
+      clearInterval(this.probeTimer);
+      this.probeTimer = null;
+    }
+  }
+
+  private async runProbe(url: string): Promise<ApiStatus> {
+    const previous = this.apiStatus;
+    const failed = (status: number | null, rtt: number | null, error: string): ApiStatus => ({
+      reachability: 'unreachable',
+      rtt,
+      status,
+      lastChecked: Date.now(),
+      consecutiveFailures: previous.consecutiveFailures + 1,
+      error,
+    });
+
+    let next: ApiStatus;
+    if (!navigator.onLine) {
+      next = failed(null, null, 'Browser is offline');
+    } else {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), this.config.probeTimeout);
+      const startedAt = performance.now();
+
+      try {
+        const response = await fetch(url, { method: 'GET', cache: 'no-store', signal: controller.signal });
+        const rtt = Math.round(performance.now() - startedAt);
+        void response.body?.cancel();
+
+        // Any response proves the round trip, even an unhealthy one
+        this.smoothedRtt = this.smoothedRtt === null
+          ? rtt
+          : Math.round(this.smoothedRtt * (1 - PROBE_RTT_SMOOTHING) + rtt * PROBE_RTT_SMOOTHING);
+
+        next = response.status < 500
+          ? {
+              reachability: 'reachable',
+              rtt,
+              status: response.status,
+              lastChecked: Date.now(),
+              consecutiveFailures: 0,
+              error: null,
+            }
+          : failed(response.status, rtt, `Health check returned ${response.status}`);
+      } catch (error) {
+        next = failed(
+          null,
+          null,
+          controller.signal.aborted
+            ? `No response within ${this.config.probeTimeout}ms`
+            : error instanceof Error ? error.message : 'Health check failed'
+        );
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    }
+
+    if (this.destroyed) return next;
+
+    this.apiStatus = next;
+    if (previous.reachability !== next.reachability) {
+      this.config.onApiStatusChange(next, previous);
+    }
+    this.updateHealth();
+    return next;
+  }
+
   private notifyListeners(): void {
     this.listeners.forEach((listener) => {
       try {
@@ -404,6 +549,37 @@ export class NetworkMonitor {
     return this.health.metrics.isOnline;
   }
 
+  /**
+   * Get the API status from the active probe
+   */
+  getApiStatus(): ApiStatus {
+    return { ...this.apiStatus };
+  }
+
+  /**
+   * Whether the API can be reached; only false once a probe has failed,
+   * so it stays true when probing is disabled
+   */
+  isApiReachable(): boolean {
+    return this.apiStatus.reachability !== 'unreachable';
+  }
+
+  /**
+   * Probe the API now (concurrent calls share one probe). Resolves with the
+   * current status unchanged when no probe URL is configured.
+   */
+  probeNow(): Promise<ApiStatus> {
+    const url = this.config.probeUrl;
+    if (!url || this.destroyed) return Promise.resolve(this.getApiStatus());
+
+    if (!this.probeInFlight) {
+      this.probeInFlight = this.runProbe(url).finally(() => {
+        this.probeInFlight = null;
+      });
+    }
+    return this.probeInFlight;
+  }
+
   /**
    * Check if connection is high bandwidth
    */
@@ -443,6 +619,9 @@ export class NetworkMonitor {
     if (!this.healthCheckTimer) {
       this.startHealthChecks();
     }
+    if (this.config.probeUrl && !this.probeTimer) {
+      this.startProbes();
+    }
   }
 
   /**
@@ -450,13 +629,16 @@ export class NetworkMonitor {
    */
   stop(): void {
     this.stopHealthChecks();
+    this.stopProbes();
   }
 
   /**
    * Destroy the monitor and cleanup
    */
   destroy(): void {
+    this.destroyed = true;
     this.stopHealthChecks();
+    this.stopProbes();
     window.removeEventListener('online', this.handleOnline);
     window.removeEventListener('offline', this.handleOffline);
 
@@ -505,7 +687,11 @@ export interface UseNetworkMonitorResult {
   health: NetworkHealth;
   isOnline: boolean;
   quality: NetworkQuality;
+  /** API reachability, independent of `isOnline` */
+  apiStatus: ApiStatus;
+  isApiReachable: boolean;
   checkNow: () => NetworkHealth;
+  probeNow: () => Promise<ApiStatus>;
 }
 
 /**
@@ -530,6 +716,10 @@ export function useNetworkMonitor(config?: NetworkMonitorConfig): UseNetworkMoni
     return monitorRef.current?.checkNow() ?? health;
   }, [health]);
 
+  const probeNow = useCallback(() => {
+    return monitorRef.current?.probeNow() ?? Promise.resolve(health.api);
+  }, [health]);
+
   useEffect(() => {
     return () => {
       monitorRef.current?.destroy();
@@ -541,7 +731,10 @@ export function useNetworkMonitor(config?: NetworkMonitorConfig): UseNetworkMoni
     health,
     isOnline: health.metrics.isOnline,
     quality: health.quality,
+    apiStatus: health.api,
+    isApiReachable: health.api.reachability !== 'unreachable',
     checkNow,
+    probeNow,
   };
 }
 
@@ -618,6 +811,10 @@ export function getConnectionDescription(metrics: NetworkMetrics): string {
     parts.push(`${metrics.downlink} Mbps`);
   }
 
+  if (metrics.measuredRtt !== null) {
+    parts.push(`${metrics.measuredRtt} ms`);
+  }
+
   if (metrics.saveData) {
     parts.push('(Data Saver On)');
   }
@@ -0,0 +1,194 @@
+import { describe, expect, it } from 'vitest';
+import { SSEParser, extractTextDelta, readSSEStream, type SSEMessage } from './sse';
+
+function collect(lastEventId?: string) {
+  const events: SSEMessage[] = [];
+  const retries: number[] = [];
+  const comments: string[] = [];
+  const parser = new SSEParser(
+    {
+      onEvent: (message) => events.push(message),
+      onRetry: (delay) => retries.push(delay),
+      onComment: (comment) => comments.push(comment),
+    },
+    lastEventId
+  );
+  return { parser, events, retries, comments };
+}
+
+function streamOf(chunks: (string | number[])[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : new Uint8Array(chunk));
+      }
+      controller.close();
+    },
+  });
+}
+
+describe('SSEParser', () => {
+  it('dispatches an event on its blank line, defaulting the type to message', () => {
+    const { parser, events } = collect();
+    parser.feed('data: hello\n');
+    expect(events).toEqual([]);
+    parser.feed('\n');
+    expect(events).toEqual([{ event: 'message', data: 'hello', id: '' }]);
+  });
+
+  it('reads named events and joins multi-line data with newlines', () => {
+    const { parser, events } = collect();
+    parser.feed('event: progress\ndata: first\ndata:second\ndata:  third\n\n');
+    expect(events).toEqual([{ event: 'progress', data: 'first\nsecond\n third', id: '' }]);
+  });
+
+  it('resets the event type after each event', () => {
+    const { parser, events } = collect();
+    parser.feed('event: a\ndata: 1\n\ndata: 2\n\n');
+    expect(events.map((event) => event.event)).toEqual(['a', 'message']);
+  });
+
+  it.each([
+    ['LF', '\n'],
+    ['CRLF', '\r\n'],
+    ['CR', '\r'],
+  ])('accepts %s line endings', (_, eol) => {
+    const { parser, events } = collect();
+    parser.feed(`data: one${eol}${eol}data: two${eol}${eol}`);
+    parser.feed('data: three\n\n');
+    expect(events.map((event) => event.data)).toEqual(['one', 'two', 'three']);
+  });
+
+  it('treats CRLF split across chunks as one line ending', () => {
+    const { parser, events } = collect();
+    parser.feed('data: a\r');
+    parser.feed('\ndata: b\r');
+    parser.feed('\n\r');
+    parser.feed('\n');
+    expect(events).toEqual([{ event: 'message', data: 'a\nb', id: '' }]);
+  });
+
+  it('ends a line at a held CR when the next chunk starts a new one', () => {
+    const { parser, events } = collect();
+    parser.feed('data: a\r');
+    parser.feed('data: b\r\r');
+    parser.feed('data: c\n\n');
+    expect(events.map((event) => event.data)).toEqual(['a\nb', 'c']);
+  });
+
+  it('handles input split at every character', () => {
+    const { parser, events } = collect();
+    for (const char of 'event: x\r\ndata: {"n":1}\r\nid: 7\r\n\r\n') parser.feed(char);
+    expect(events).toEqual([{ event: 'x', data: '{"n":1}', id: '7' }]);
+  });
+
+  it('ignores a single leading BOM, even after an empty chunk', () => {
+    const { parser, events } = collect();
+    parser.feed('');
+    // A later BOM is part of the field name, so that line is an unknown field
+    parser.feed('\uFEFFdata: a\n\n\uFEFFdata: b\n\n');
+    expect(events.map((event) => event.data)).toEqual(['a']);
+  });
+
+  it('keeps the last event id across events and ignores ids with NUL', () => {
+    const { parser, events } = collect();
+    parser.feed('id: 1\ndata: a\n\ndata: b\n\nid: 2\0x\ndata: c\n\nid\ndata: d\n\n');
+    expect(events.map((event) => event.id)).toEqual(['1', '1', '1', '']);
+    expect(parser.lastEventId).toBe('');
+  });
+
+  it('reports numeric retry values only', () => {
+    const { parser, retries } = collect();
+    parser.feed('retry: 2500\nretry: soon\nretry: -1\nretry: 1.5\nretry:300\n\n');
+    expect(retries).toEqual([2500, 300]);
+  });
+
+  it('reports comments and skips unknown fields', () => {
+    const { parser, events, comments } = collect();
+    parser.feed(': keep-alive\n:raw\nfoo: bar\ndata: x\n\n');
+    expect(comments).toEqual(['keep-alive', 'raw']);
+    expect(events).toEqual([{ event: 'message', data: 'x', id: '' }]);
+  });
+
+  it('does not dispatch an event without data', () => {
+    const { parser, events } = collect();
+    parser.feed('event: ping\n\nid: 5\n\n');
+    expect(events).toEqual([]);
+    expect(parser.lastEventId).toBe('5');
+  });
+
+  it('dispatches an empty data line as an empty event', () => {
+    const { parser, events } = collect();
+    parser.feed('data\n\n');
+    expect(events).toEqual([{ event: 'message', data: '', id: '' }]);
+  });
+
+  it('dispatches a final event without its closing blank line on flush', () => {
+    const { parser, events } = collect();
+    parser.feed('data: a\n\ndata: last');
+    expect(events).toHaveLength(1);
+    parser.flush();
+    expect(events.map((event) => event.data)).toEqual(['a', 'last']);
+  });
+
+  it('flushes a held trailing CR as a line ending', () => {
+    const { parser, events } = collect();
+    parser.feed('data: last\r');
+    parser.flush();
+    expect(events.map((event) => event.data)).toEqual(['last']);
+  });
+
+  it('keeps the last event id across reset for resuming', () => {
+    const { parser, events } = collect('0');
+    expect(parser.lastEventId).toBe('0');
+    parser.feed('id: 3\ndata: a\n\nevent: x\ndata: partial');
+    parser.reset();
+    expect(parser.lastEventId).toBe('3');
+
+    parser.feed('data: b\n\n');
+    expect(events).toEqual([
+      { event: 'message', data: 'a', id: '3' },
+      { event: 'message', data: 'b', id: '3' },
+    ]);
+  });
+});
+
+describe('readSSEStream', () => {
+  it('decodes multi-byte characters split across chunks and flushes at the end', async () => {
+    const { parser, events } = collect();
+    // "é" is 0xC3 0xA9 in UTF-8
+    await readSSEStream(streamOf(['data: caf', [0xc3], [0xa9, 0x0a, 0x0a], 'data: end']), parser);
+    expect(events.map((event) => event.data)).toEqual(['café', 'end']);
+  });
+
+  it('propagates read errors', async () => {
+    const { parser } = collect();
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.error(new Error('connection reset'));
+      },
+    });
+    await expect(readSSEStream(body, parser)).rejects.toThrow('connection reset');
+  });
+});
+
+describe('extractTextDelta', () => {
+  it.each([
+    ['{"choices":[{"delta":{"content":"Hi"}}]}', 'Hi'],
+    ['{"choices":[{"text":"Hi"}]}', 'Hi'],
+    ['{"content":"Hi"}', 'Hi'],
+    ['{"delta":"Hi"}', 'Hi'],
+    ['"Hi"', 'Hi'],
+    ['plain text', 'plain text'],
+    ['42', '42'],
+  ])('reads %s', (data, expected) => {
+    expect(extractTextDelta(data)).toBe(expected);
+  });
+
+  it('returns null for the end marker and JSON without text', () => {
+    expect(extractTextDelta('[DONE]')).toBeNull();
+    expect(extractTextDelta('{"usage":{"tokens":3}}')).toBeNull();
+    expect(extractTextDelta('{"choices":[{"delta":{}}]}')).toBeNull();
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Server-Sent Events Parser
+ *
+ * Incremental parser for the text/event-stream format as specified by the
+ * WHATWG HTML standard, shared by useSSE and the chat streaming client:
+ * - `event`, `data`, `id` and `retry` fields
+ * - Multi-line `data` joined with newlines, leading single space stripped
+ * - Comment lines (`: keep-alive`) reported separately as heartbeats
+ * - CRLF, LF and CR line endings, split anywhere across chunks
+ * - Last-Event-ID tracking for resuming a dropped stream
+ */
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export interface SSEMessage {
+  /** Event type; `message` when the server sent no `event` field */
+  event: string;
+  /** Data lines joined with `\n` */
+  data: string;
+  /** Last event id at dispatch time (persists across events) */
+  id: string;
+}
+
+export interface SSEParserCallbacks {
+  /** A complete event was dispatched */
+  onEvent: (message: SSEMessage) => void;
+  /** The server suggested a reconnection delay in ms */
+  onRetry?: (delayMs: number) => void;
+  /** A comment line, typically a heartbeat */
+  onComment?: (comment: string) => void;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_EVENT_TYPE = 'message';
+
+/** Conventional end-of-stream payload used by OpenAI-style servers */
+export const DONE_MARKER = '[DONE]';
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+/**
+ * Feed decoded text in arbitrary chunks; events are dispatched as soon as
+ * their terminating blank line arrives.
+ *
+ * @example
+ * ```ts
+ * const parser = new SSEParser({ onEvent: (msg) => console.log(msg.event, msg.data) });
+ * parser.feed('event: progress\ndata: {"step":1}\n\n');
+ * parser.flush();
+ * ```
+ */
+export class SSEParser {
+  private buffer = '';
+  private dataLines: string[] = [];
+  private eventType = '';
+  private lastId = '';
+  private sawFirstChunk = false;
+  private callbacks: SSEParserCallbacks;
+
+  constructor(callbacks: SSEParserCallbacks, lastEventId: string = '') {
+    this.callbacks = callbacks;
+    this.lastId = lastEventId;
+  }
+
+  /** Id to send as `Last-Event-ID` when reconnecting */
+  get lastEventId(): string {
+    return this.lastId;
+  }
+
+  feed(chunk: string): void {
+    if (!this.sawFirstChunk && chunk) {
+      this.sawFirstChunk = true;
+      // A single leading BOM is ignored
+      if (chunk.charCodeAt(0) === 0xfeff) chunk = chunk.slice(1);
+    }
+
+    this.buffer += chunk;
+
+    let start = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+      if (char !== '\n' && char !== '\r') continue;
+
+      // A trailing CR may be the first half of CRLF; wait for more input
+      if (char === '\r' && i === this.buffer.length - 1) break;
+
+      this.processLine(this.buffer.slice(start, i));
+      if (char === '\r' && this.buffer[i + 1] === '\n') i++;
+      start = i + 1;
+    }
+    this.buffer = this.buffer.slice(start);
+  }
+
+  /**
+   * End of stream. The spec discards an event without its closing blank
+   * line; servers that omit it on the final event are common enough that
+   * it is dispatched instead.
+   */
+  flush(): void {
+    if (this.buffer) {
+      this.processLine(this.buffer.replace(/\r$/, ''));
+      this.buffer = '';
+    }
+    this.dispatch();
+  }
+
+  /** Drop partial input, keeping the last event id for a reconnect */
+  reset(): void {
+    this.buffer = '';
+    this.dataLines = [];
+    this.eventType = '';
+  }
+
+  private processLine(line: string): void {
+    if (line === '') {
+      this.dispatch();
+      return;
+    }
+
+    if (line.startsWith(':')) {
+      this.callbacks.onComment?.(line.slice(1).replace(/^ /, ''));
+      return;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        // Ids containing NUL are ignored per spec
+        if (!value.includes('\0')) this.lastId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) this.callbacks.onRetry?.(Number(value));
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+  }
+
+  private dispatch(): void {
+    const hasData = this.dataLines.length > 0;
+    const message: SSEMessage = {
+      event: this.eventType || DEFAULT_EVENT_TYPE,
+      data: this.dataLines.join('\n'),
+      id: this.lastId,
+    };
+
+    this.dataLines = [];
+    this.eventType = '';
+
+    // An event with no data lines is not dispatched
+    if (hasData) this.callbacks.onEvent(message);
+  }
+}
+
+// ============================================================================
+// Stream Reading
+// ============================================================================
+
+/**
+ * Decode a fetch response body into the parser until it ends. Read errors
+ * (including aborts) propagate to the caller.
+ */
+export async function readSSEStream(body: ReadableStream<Uint8Array>, parser: SSEParser): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parser.feed(decoder.decode(value, { stream: true }));
+    }
+    parser.feed(decoder.decode());
+    parser.flush();
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// ============================================================================
+// Payload Helpers
+// ============================================================================
+
+/**
+ * Extract the text delta from a `message` event payload. Understands
+ * OpenAI-style chunks, `{ content }`, `{ delta }` and plain text.
+ * Returns null for the end marker and for JSON without text.
+ */
+export function extractTextDelta(data: string): string | null {
+  if (data === DONE_MARKER) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    // Not JSON, treat as raw text
+    return data;
+  }
+
+  if (typeof parsed !== 'object' || parsed === null) {
+    return typeof parsed === 'string' ? parsed : data;
+  }
+
+  const payload = parsed as {
+    choices?: { delta?: { content?: string }; text?: string }[];
+    content?: unknown;
+    delta?: unknown;
+  };
+
+  const choice = payload.choices?.[0];
+  if (choice?.delta?.content) return choice.delta.content;
+  if (choice?.text) return choice.text;
+  if (typeof payload.content === 'string') return payload.content;
+  if (typeof payload.delta === 'string') return payload.delta;
+  return null;
+}
@@ -0,0 +1,262 @@
+/**
+ * Transits
+ *
+ * Where the grahas are on a given date, read against the natal chart:
+ * - Transit positions from the offline ephemeris, in the natal chart's
+ *   ayanamsa, placed in the natal houses
+ * - Significant transits: Sade Sati and Saturn's other dhaiya, Jupiter's
+ *   and Saturn's houses from the ascendant and the Moon, the nodal axis,
+ *   and slow planets crossing natal points
+ * - A plain-text summary to hand to the chat
+ */
+
+import {
+  SIGNS,
+  buildBirthChart,
+  formatDegree,
+  normalizeLongitude,
+  type BirthChart,
+  type PlanetName,
+  type PlanetPosition,
+} from './birthChart';
+import { ayanamsa, julianDay, siderealPositions, tropicalPosition, type AyanamsaSystem } from './ephemeris';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export type TransitTone = 'challenging' | 'supportive' | 'mixed';
+
+export interface TransitEvent {
+  id: string;
+  title: string;
+  detail: string;
+  tone: TransitTone;
+}
+
+export interface TransitSnapshot {
+  date: Date;
+  /** Transiting planets, housed in the natal chart */
+  planets: PlanetPosition[];
+  events: TransitEvent[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DAY_MS = 86400000;
+
+/** Slow planets whose crossings of natal points are worth calling out */
+const SLOW_PLANETS: PlanetName[] = ['Saturn', 'Jupiter', 'Rahu', 'Ketu'];
+const CONJUNCTION_ORB = 3;
+
+/** Houses from the Moon where a transiting Jupiter is traditionally favourable */
+const JUPITER_GOOD_FROM_MOON = [2, 5, 7, 9, 11];
+/** ...and Saturn */
+const SATURN_GOOD_FROM_MOON = [3, 6, 11];
+
+const SADE_SATI_PHASES: Record<number, string> = {
+  12: 'rising phase: Saturn in the 12th from the Moon',
+  1: 'peak: Saturn over the natal Moon sign',
+  2: 'setting phase: Saturn in the 2nd from the Moon',
+};
+
+/** Limit when searching for the start and end of a Saturn transit */
+const SEARCH_DAYS = 3500;
+const SEARCH_STEP_DAYS = 5;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const ORDINALS = ['th', 'st', 'nd', 'rd'];
+
+function ordinal(n: number): string {
+  const tens = n % 100;
+  return `${n}${ORDINALS[(tens - 20) % 10] ?? ORDINALS[tens] ?? ORDINALS[0]}`;
+}
+
+/** The natal chart's ayanamsa, when the ephemeris supports it; Lahiri otherwise */
+function ayanamsaSystem(chart: BirthChart): AyanamsaSystem {
+  const name = chart.ayanamsa?.toLowerCase();
+  return name === 'raman' || name === 'kp' ? name : 'lahiri';
+}
+
+/** House (1-12) of a sign counted from another, whole-sign */
+function signsFrom(sign: number, from: number): number {
+  return ((sign - from + 12) % 12) + 1;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+function natalMoonSign(natal: BirthChart): number | null {
+  return natal.planets.find((position) => position.planet === 'Moon')?.sign ?? null;
+}
+
+/**
+ * When Saturn entered and will leave the run of `signs` it is in at `date`,
+ * scanning in steps of a few days; null where the search limit is reached
+ */
+function saturnStay(signs: number[], date: Date, system: AyanamsaSystem): { start: Date | null; end: Date | null } {
+  const inSigns = (time: number) => {
+    const jd = julianDay(new Date(time));
+    const longitude = normalizeLongitude(tropicalPosition('Saturn', jd).longitude - ayanamsa(jd, system));
+    return signs.includes(Math.floor(longitude / 30));
+  };
+  const edge = (direction: 1 | -1): Date | null => {
+    for (let days = SEARCH_STEP_DAYS; days <= SEARCH_DAYS; days += SEARCH_STEP_DAYS) {
+      const time = date.getTime() + direction * days * DAY_MS;
+      if (!inSigns(time)) return new Date(direction === 1 ? time : time + SEARCH_STEP_DAYS * DAY_MS);
+    }
+    return null;
+  };
+  return { start: edge(-1), end: edge(1) };
+}
+
+function spanText({ start, end }: { start: Date | null; end: Date | null }): string {
+  if (start && end) return ` (about ${formatDate(start)} – ${formatDate(end)})`;
+  if (end) return ` (until about ${formatDate(end)})`;
+  return '';
+}
+
+// ============================================================================
+// Transits
+// ============================================================================
+
+/**
+ * Transiting planets at `date`, housed in the natal chart
+ */
+export function transitPositions(natal: BirthChart, date: Date): PlanetPosition[] {
+  const positions = siderealPositions(julianDay(date), { ayanamsa: ayanamsaSystem(natal) });
+  return buildBirthChart({
+    ascendant: natal.ascendant.longitude,
+    houses: natal.houseSystem === 'cusps' ? natal.houses.map((cusp) => cusp.longitude) : undefined,
+    planets: (Object.keys(positions) as PlanetName[]).map((planet) => ({
+      planet,
+      longitude: positions[planet].longitude,
+      speed: positions[planet].speed,
+      retrograde: planet === 'Rahu' || planet === 'Ketu' ? true : positions[planet].speed < 0,
+    })),
+  }).planets;
+}
+
+/**
+ * Significant transits over the natal chart
+ */
+export function transitEvents(natal: BirthChart, planets: PlanetPosition[], date: Date): TransitEvent[] {
+  const events: TransitEvent[] = [];
+  const moonSign = natalMoonSign(natal);
+  const transiting = (planet: PlanetName) => planets.find((position) => position.planet === planet);
+  const saturn = transiting('Saturn');
+  const jupiter = transiting('Jupiter');
+  const rahu = transiting('Rahu');
+  const ketu = transiting('Ketu');
+
+  if (saturn && moonSign !== null) {
+    const fromMoon = signsFrom(saturn.sign, moonSign);
+    const system = ayanamsaSystem(natal);
+
+    if (fromMoon in SADE_SATI_PHASES) {
+      const span = saturnStay([(moonSign + 11) % 12, moonSign, (moonSign + 1) % 12], date, system);
+      events.push({
+        id: 'sade-sati',
+        title: 'Sade Sati',
+        detail: `Saturn's 7½-year transit around the natal Moon, ${SADE_SATI_PHASES[fromMoon]}${spanText(span)}.`,
+        tone: 'challenging',
+      });
+    } else if (fromMoon === 4 || fromMoon === 8) {
+      const span = saturnStay([saturn.sign], date, system);
+      events.push({
+        id: 'dhaiya',
+        title: fromMoon === 8 ? 'Ashtama Shani' : 'Kantaka Shani',
+        detail: `Saturn's 2½-year transit of the ${ordinal(fromMoon)} sign from the natal Moon${spanText(span)}.`,
+        tone: 'challenging',
+      });
+    }
+  }
+
+  if (jupiter) {
+    const fromMoon = moonSign !== null ? signsFrom(jupiter.sign, moonSign) : null;
+    events.push({
+      id: 'jupiter',
+      title: `Jupiter in the ${ordinal(jupiter.house)} house`,
+      detail:
+        `Jupiter transits ${SIGNS[jupiter.sign].name}, the natal ${ordinal(jupiter.house)} house` +
+        (fromMoon !== null ? ` and the ${ordinal(fromMoon)} from the Moon.` : '.'),
+      tone: fromMoon !== null && JUPITER_GOOD_FROM_MOON.includes(fromMoon) ? 'supportive' : 'mixed',
+    });
+  }
+
+  if (saturn) {
+    const fromMoon = moonSign !== null ? signsFrom(saturn.sign, moonSign) : null;
+    events.push({
+      id: 'saturn',
+      title: `Saturn in the ${ordinal(saturn.house)} house`,
+      detail:
+        `Saturn transits ${SIGNS[saturn.sign].name}${saturn.retrograde ? ' (retrograde)' : ''}, the natal ${ordinal(saturn.house)} house` +
+        (fromMoon !== null ? ` and the ${ordinal(fromMoon)} from the Moon.` : '.'),
+      tone: fromMoon !== null && SATURN_GOOD_FROM_MOON.includes(fromMoon) ? 'supportive' : 'mixed',
+    });
+  }
+
+  if (rahu && ketu) {
+    events.push({
+      id: 'nodes',
+      title: `Nodal axis across houses ${rahu.house} and ${ketu.house}`,
+      detail: `Rahu transits ${SIGNS[rahu.sign].name} (${ordinal(rahu.house)} house) and Ketu ${SIGNS[ketu.sign].name} (${ordinal(ketu.house)} house).`,
+      tone: 'mixed',
+    });
+  }
+
+  // Slow planets within a few degrees of a natal planet or the ascendant
+  const natalPoints = [
+    { name: 'ascendant', longitude: natal.ascendant.longitude },
+    ...natal.planets.map((position) => ({ name: position.planet, longitude: position.longitude })),
+  ];
+  for (const planet of SLOW_PLANETS) {
+    const position = transiting(planet);
+    if (!position) continue;
+    for (const point of natalPoints) {
+      const orb = Math.abs(normalizeLongitude(position.longitude - point.longitude + 180) - 180);
+      if (orb > CONJUNCTION_ORB) continue;
+      events.push({
+        id: `conjunction-${planet}-${point.name}`,
+        title: `${planet} on natal ${point.name}`,
+        detail: `Transiting ${planet} is ${formatDegree(orb)} from the natal ${point.name}.`,
+        tone: planet === 'Jupiter' ? 'supportive' : 'challenging',
+      });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Transit positions and significant transits for a date
+ */
+export function transitSnapshot(natal: BirthChart, date: Date): TransitSnapshot {
+  const planets = transitPositions(natal, date);
+  return { date, planets, events: transitEvents(natal, planets, date) };
+}
+
+/**
+ * Transits written out as a message for the chat
+ */
+export function transitContext(snapshot: TransitSnapshot): string {
+  const placements = snapshot.planets.map((position) => {
+    const retrograde = position.retrograde && position.planet !== 'Rahu' && position.planet !== 'Ketu' ? ' (R)' : '';
+    return `- ${position.planet}${retrograde}: ${formatDegree(position.degree)} ${SIGNS[position.sign].name}, my ${ordinal(position.house)} house`;
+  });
+  const highlights = snapshot.events.map((event) => `- ${event.title}: ${event.detail}`);
+
+  return [
+    `Here are the transits over my birth chart for ${formatDate(snapshot.date)}:`,
+    ...placements,
+    ...(highlights.length > 0 ? ['', 'Significant transits:', ...highlights] : []),
+    '',
+    'What do these transits mean for me, and what should I focus on during this time?',
+  ].join('\n');
+}
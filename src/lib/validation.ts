@@ -0,0 +1,233 @@
+/**
+ * Birth Details Validation
+ *
+ * Single source of the documented field rules for onboarding and profile
+ * editing. Returns typed, field-level errors that forms render inline.
+ */
+
+import type { OnboardingData } from '@/services/httpApi';
+import { parseLocalFields, isValidTimeZone, resolveBirthMoment, BirthMomentError } from './birthMoment';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export type ValidationField =
+  | 'name'
+  | 'email'
+  | 'dateOfBirth'
+  | 'timeOfBirth'
+  | 'place'
+  | 'latitude'
+  | 'longitude'
+  | 'timezone';
+
+export type ValidationCode =
+  | 'REQUIRED'
+  | 'TOO_SHORT'
+  | 'TOO_LONG'
+  | 'INVALID_FORMAT'
+  | 'IMPOSSIBLE_DATE'
+  | 'FUTURE_DATE'
+  | 'OUT_OF_RANGE'
+  | 'UNKNOWN_TIMEZONE';
+
+export interface FieldError {
+  field: ValidationField;
+  code: ValidationCode;
+  message: string;
+}
+
+export type FieldErrors = Partial<Record<ValidationField, FieldError>>;
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: FieldErrors;
+}
+
+export interface ValidationOptions {
+  /** Reference time for the future-date check (default: now) */
+  now?: Date;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const NAME_MIN_LENGTH = 2;
+export const NAME_MAX_LENGTH = 100;
+export const PLACE_MIN_LENGTH = 2;
+
+const DATE_FORMAT = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_FORMAT = /^([01]\d|2[0-3]):[0-5]\d$/;
+const EMAIL_FORMAT = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// ============================================================================
+// Field Validators
+// ============================================================================
+
+function fieldError(field: ValidationField, code: ValidationCode, message: string): FieldError {
+  return { field, code, message };
+}
+
+export function validateName(name: string): FieldError | null {
+  const trimmed = name.trim();
+  if (!trimmed) return fieldError('name', 'REQUIRED', 'Please enter your name.');
+  if (trimmed.length < NAME_MIN_LENGTH) {
+    return fieldError('name', 'TOO_SHORT', `Name must be at least ${NAME_MIN_LENGTH} characters.`);
+  }
+  if (trimmed.length > NAME_MAX_LENGTH) {
+    return fieldError('name', 'TOO_LONG', `Name must be at most ${NAME_MAX_LENGTH} characters.`);
+  }
+  return null;
+}
+
+/**
+ * Email is optional on the profile; only a malformed address is an error
+ */
+export function validateEmail(email: string | undefined): FieldError | null {
+  if (!email?.trim()) return null;
+  if (!EMAIL_FORMAT.test(email.trim())) {
+    return fieldError('email', 'INVALID_FORMAT', 'Please enter a valid email address.');
+  }
+  return null;
+}
+
+export function validateTimeOfBirth(time: string): FieldError | null {
+  if (!time) return fieldError('timeOfBirth', 'REQUIRED', 'Please enter your time of birth.');
+  if (!TIME_FORMAT.test(time)) {
+    return fieldError('timeOfBirth', 'INVALID_FORMAT', 'Use 24-hour HH:mm format, e.g. 14:30.');
+  }
+  return null;
+}
+
+/**
+ * Checks format and calendar validity only; the future check needs the
+ * time and zone and happens in validateBirthDetails
+ */
+export function validateDateOfBirth(date: string): FieldError | null {
+  if (!date) return fieldError('dateOfBirth', 'REQUIRED', 'Please enter your date of birth.');
+  if (!DATE_FORMAT.test(date)) {
+    return fieldError('dateOfBirth', 'INVALID_FORMAT', 'Use YYYY-MM-DD format.');
+  }
+  try {
+    parseLocalFields(date, '00:00');
+  } catch {
+    return fieldError('dateOfBirth', 'IMPOSSIBLE_DATE', `${date} is not a real calendar date.`);
+  }
+  return null;
+}
+
+export function validatePlace(place: string): FieldError | null {
+  const trimmed = place.trim();
+  if (!trimmed) return fieldError('place', 'REQUIRED', 'Please enter your place of birth.');
+  if (trimmed.length < PLACE_MIN_LENGTH) {
+    return fieldError('place', 'TOO_SHORT', `Place must be at least ${PLACE_MIN_LENGTH} characters.`);
+  }
+  return null;
+}
+
+export function validateLatitude(latitude: number | undefined): FieldError | null {
+  if (latitude === undefined) return null;
+  if (!Number.isFinite(latitude) || latitude < -90 || latitude > 90) {
+    return fieldError('latitude', 'OUT_OF_RANGE', 'Latitude must be between -90 and 90.');
+  }
+  return null;
+}
+
+export function validateLongitude(longitude: number | undefined): FieldError | null {
+  if (longitude === undefined) return null;
+  if (!Number.isFinite(longitude) || longitude < -180 || longitude > 180) {
+    return fieldError('longitude', 'OUT_OF_RANGE', 'Longitude must be between -180 and 180.');
+  }
+  return null;
+}
+
+/**
+ * The birth moment cannot be resolved without a zone, so it is required here
+ * even though the API treats it as optional
+ */
+export function validateTimezone(timezone: string | undefined): FieldError | null {
+  if (!timezone?.trim()) {
+    return fieldError('timezone', 'REQUIRED', 'Pick your birth place from the suggestions or enter the timezone.');
+  }
+  if (!isValidTimeZone(timezone.trim())) {
+    return fieldError(
+      'timezone',
+      'UNKNOWN_TIMEZONE',
+      `"${timezone}" is not a known timezone. Use IANA format (Asia/Kolkata) or an offset (UTC+5:30).`
+    );
+  }
+  return null;
+}
+
+/**
+ * The latest date it is anywhere on Earth (UTC+14), so a date-only check
+ * never rejects a birth that happened today in a far-east zone
+ */
+function latestCalendarDate(now: Date): string {
+  return new Date(now.getTime() + 14 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+// ============================================================================
+// Form Validation
+// ============================================================================
+
+/**
+ * Validate every birth-details field
+ *
+ * @example
+ * ```ts
+ * const { valid, errors } = validateBirthDetails(formData);
+ * if (!valid) setFieldErrors(errors);
+ * ```
+ */
+export function validateBirthDetails(data: OnboardingData, options: ValidationOptions = {}): ValidationResult {
+  const now = options.now ?? new Date();
+  const errors: FieldErrors = {};
+
+  const checks = [
+    validateName(data.name),
+    validateDateOfBirth(data.dateOfBirth),
+    validateTimeOfBirth(data.timeOfBirth),
+    validatePlace(data.place),
+    validateLatitude(data.latitude),
+    validateLongitude(data.longitude),
+    validateTimezone(data.timezone),
+  ];
+  for (const error of checks) {
+    if (error) errors[error.field] = error;
+  }
+
+  // Future births: compare the real instant when it can be resolved. An
+  // ambiguous time is only rejected when even its earlier reading is ahead.
+  if (!errors.dateOfBirth && !errors.timeOfBirth && !errors.timezone) {
+    try {
+      const resolution = resolveBirthMoment({
+        date: data.dateOfBirth,
+        time: data.timeOfBirth,
+        timeZone: data.timezone as string,
+      });
+      const earliest = resolution.kind === 'exact' ? resolution.moment : resolution.candidates[0];
+      if (new Date(earliest.utc).getTime() > now.getTime()) {
+        errors.dateOfBirth = fieldError('dateOfBirth', 'FUTURE_DATE', 'Date of birth cannot be in the future.');
+      }
+    } catch (err) {
+      if (!(err instanceof BirthMomentError)) throw err;
+    }
+  } else if (!errors.dateOfBirth && data.dateOfBirth > latestCalendarDate(now)) {
+    errors.dateOfBirth = fieldError('dateOfBirth', 'FUTURE_DATE', 'Date of birth cannot be in the future.');
+  }
+
+  return { valid: Object.keys(errors).length === 0, errors };
+}
+
+/**
+ * Drop the error for a field the user is editing
+ */
+export function clearFieldError(errors: FieldErrors, field: ValidationField): FieldErrors {
+  if (!errors[field]) return errors;
+  const next = { ...errors };
+  delete next[field];
+  return next;
+}
@@ -0,0 +1,151 @@
+/**
+ * Divisional Charts (Vargas)
+ *
+ * Twelve of the sixteen Shodashavarga divisions, mapped by the Parashari
+ * rules:
+ * - Each sign is cut into N parts and every part is assigned a sign;
+ *   where the counting starts depends on the sign's parity, modality or
+ *   element, per varga
+ * - D30 uses the unequal Trimsamsa portions ruled by the five planets
+ * - A divisional chart keeps the natal planets, each moved to its varga
+ *   sign at the degree reached by stretching its position N times, with
+ *   houses counted whole-sign from the varga ascendant
+ */
+
+import { buildBirthChart, normalizeLongitude, type BirthChart } from './birthChart';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export type VargaId = 'D1' | 'D2' | 'D3' | 'D7' | 'D9' | 'D10' | 'D12' | 'D16' | 'D20' | 'D24' | 'D30' | 'D60';
+
+export interface VargaInfo {
+  id: VargaId;
+  division: number;
+  name: string;
+  /** Area of life the chart is read for */
+  signifies: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const VARGAS: readonly VargaInfo[] = [
+  { id: 'D1', division: 1, name: 'Rasi', signifies: 'Body and the whole life' },
+  { id: 'D2', division: 2, name: 'Hora', signifies: 'Wealth' },
+  { id: 'D3', division: 3, name: 'Drekkana', signifies: 'Siblings and courage' },
+  { id: 'D7', division: 7, name: 'Saptamsa', signifies: 'Children' },
+  { id: 'D9', division: 9, name: 'Navamsa', signifies: 'Marriage and dharma' },
+  { id: 'D10', division: 10, name: 'Dasamsa', signifies: 'Career' },
+  { id: 'D12', division: 12, name: 'Dwadasamsa', signifies: 'Parents' },
+  { id: 'D16', division: 16, name: 'Shodasamsa', signifies: 'Vehicles and comforts' },
+  { id: 'D20', division: 20, name: 'Vimsamsa', signifies: 'Spiritual practice' },
+  { id: 'D24', division: 24, name: 'Chaturvimsamsa', signifies: 'Learning and education' },
+  { id: 'D30', division: 30, name: 'Trimsamsa', signifies: 'Misfortunes and health' },
+  { id: 'D60', division: 60, name: 'Shashtiamsa', signifies: 'Past karma' },
+];
+
+const ARIES = 0;
+const CANCER = 3;
+const LEO = 4;
+const SAGITTARIUS = 8;
+
+/** Trimsamsa portions of odd signs: [upper bound in degrees, sign]; even signs run in reverse */
+const ODD_TRIMSAMSA: readonly [number, number][] = [
+  [5, 0], // Mars: Aries
+  [10, 10], // Saturn: Aquarius
+  [18, 8], // Jupiter: Sagittarius
+  [25, 2], // Mercury: Gemini
+  [30, 6], // Venus: Libra
+];
+const EVEN_TRIMSAMSA: readonly [number, number][] = [
+  [5, 1], // Venus: Taurus
+  [12, 5], // Mercury: Virgo
+  [20, 11], // Jupiter: Pisces
+  [25, 9], // Saturn: Capricorn
+  [30, 7], // Mars: Scorpio
+];
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+export function vargaInfo(id: VargaId): VargaInfo {
+  return VARGAS.find((varga) => varga.id === id)!;
+}
+
+/**
+ * Sign (0-11) a sidereal longitude falls in within a divisional chart
+ */
+export function vargaSign(longitude: number, id: VargaId): number {
+  const normalized = normalizeLongitude(longitude);
+  const sign = Math.min(11, Math.floor(normalized / 30));
+  const degree = normalized - sign * 30;
+  const { division } = vargaInfo(id);
+  const part = Math.min(division - 1, Math.floor((degree * division) / 30));
+  // Aries is the first, and so an odd, sign
+  const odd = sign % 2 === 0;
+  /** 0 movable, 1 fixed, 2 dual */
+  const modality = sign % 3;
+  const from = (start: number) => (start + part) % 12;
+
+  switch (id) {
+    case 'D1':
+      return sign;
+    case 'D2':
+      // Odd signs: Sun's hora (Leo) then Moon's (Cancer); even signs the reverse
+      return (part === 0) === odd ? LEO : CANCER;
+    case 'D3':
+      return (sign + part * 4) % 12;
+    case 'D7':
+      return from(odd ? sign : sign + 6);
+    case 'D9':
+      // Counting continues through the zodiac: Aries' navamsas start at Aries, Taurus' at Capricorn, ...
+      return (sign * 9 + part) % 12;
+    case 'D10':
+      return from(odd ? sign : sign + 8);
+    case 'D12':
+      return from(sign);
+    case 'D16':
+      return from([ARIES, LEO, SAGITTARIUS][modality]);
+    case 'D20':
+      return from([ARIES, SAGITTARIUS, LEO][modality]);
+    case 'D24':
+      return from(odd ? LEO : CANCER);
+    case 'D30':
+      return (odd ? ODD_TRIMSAMSA : EVEN_TRIMSAMSA).find(([bound]) => degree < bound)?.[1] ?? (odd ? 6 : 7);
+    case 'D60':
+      return from(sign);
+  }
+}
+
+/**
+ * Longitude within the divisional chart: the varga sign, at the position
+ * reached inside it by stretching the natal degree `division` times
+ */
+export function vargaLongitude(longitude: number, id: VargaId): number {
+  if (id === 'D1') return normalizeLongitude(longitude);
+  const degree = normalizeLongitude(longitude) % 30;
+  const { division } = vargaInfo(id);
+  return vargaSign(longitude, id) * 30 + ((degree * division) % 30);
+}
+
+/**
+ * A natal chart recast as a divisional chart. D1 returns the chart as is.
+ */
+export function vargaChart(chart: BirthChart, id: VargaId): BirthChart {
+  if (id === 'D1') return chart;
+  return buildBirthChart({
+    ascendant: vargaLongitude(chart.ascendant.longitude, id),
+    planets: chart.planets.map((position) => ({
+      planet: position.planet,
+      longitude: vargaLongitude(position.longitude, id),
+      retrograde: position.retrograde,
+      speed: position.speed,
+    })),
+    ayanamsa: chart.ayanamsa,
+    ayanamsaValue: chart.ayanamsaValue,
+  });
+}
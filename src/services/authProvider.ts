@@ -0,0 +1,325 @@
+/**
+ * Auth Providers
+ *
+ * Pluggable authentication behind a single interface:
+ * - GuestAuthProvider: anonymous guest IDs persisted in localStorage
+ * - JwtAuthProvider: Convex-style JWTs fetched from an identity provider,
+ *   validated for expiry and refreshed on demand
+ *
+ * API clients ask the active provider for a token on every request
+ * instead of holding a static string.
+ */
+
+import { AuthenticationError } from './httpApi';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export interface AuthUser {
+  id: string;
+  name?: string;
+  email?: string;
+  isGuest: boolean;
+}
+
+export interface GetTokenOptions {
+  /** Bypass the cached token and fetch a new one */
+  forceRefresh?: boolean;
+}
+
+export interface AuthProvider {
+  /** Provider identifier, for diagnostics */
+  readonly kind: 'guest' | 'jwt';
+  /** Start a session; resolves with the signed-in user */
+  signIn(): Promise<AuthUser>;
+  /** End the session and forget any stored credentials */
+  signOut(): Promise<void>;
+  /** A currently valid token, or null when signed out */
+  getToken(options?: GetTokenOptions): Promise<string | null>;
+  /** Force a new token from the underlying source */
+  refreshToken(): Promise<string | null>;
+  /** The signed-in user, or null */
+  getCurrentUser(): AuthUser | null;
+  /** Subscribe to sign-in/sign-out changes */
+  subscribe(listener: (user: AuthUser | null) => void): () => void;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const GUEST_ID_KEY = 'astroGuestId';
+const TOKEN_KEY = 'convexAuthToken';
+const GUEST_ID_PATTERN = /^guest_\d+_[a-z0-9]+$/;
+const DEFAULT_CLOCK_SKEW = 30000; // Refresh tokens 30s before they expire
+
+// ============================================================================
+// Shared Listener Handling
+// ============================================================================
+
+abstract class BaseAuthProvider {
+  private listeners: Set<(user: AuthUser | null) => void> = new Set();
+
+  abstract getCurrentUser(): AuthUser | null;
+
+  subscribe(listener: (user: AuthUser | null) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  protected notify(): void {
+    const user = this.getCurrentUser();
+    this.listeners.forEach((listener) => {
+      try {
+        listener(user);
+      } catch (error) {
+        console.error('[AuthProvider] Error in listener:', error);
+      }
+    });
+  }
+}
+
+// ============================================================================
+// Guest Provider
+// ============================================================================
+
+/**
+ * Anonymous guest sessions. The guest ID doubles as the bearer token and
+ * is sent as X-Guest-ID so the backend can key data to it.
+ *
+ * A guest ID can't be refreshed: a forced refresh means the server turned
+ * it away, so the next sign-in starts a new guest instead of offering the
+ * same ID again.
+ */
+export class GuestAuthProvider extends BaseAuthProvider implements AuthProvider {
+  readonly kind = 'guest' as const;
+
+  private rejectedId: string | null = null;
+
+  private readGuestId(): string | null {
+    const guestId = localStorage.getItem(GUEST_ID_KEY) ?? localStorage.getItem(TOKEN_KEY);
+    return guestId && GUEST_ID_PATTERN.test(guestId) ? guestId : null;
+  }
+
+  async signIn(): Promise<AuthUser> {
+    const stored = this.readGuestId();
+    const guestId = stored && stored !== this.rejectedId
+      ? stored
+      : `guest_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    this.rejectedId = null;
+    localStorage.setItem(GUEST_ID_KEY, guestId);
+    localStorage.setItem(TOKEN_KEY, guestId); // For backward compatibility
+    this.notify();
+    return { id: guestId, isGuest: true };
+  }
+
+  async signOut(): Promise<void> {
+    localStorage.removeItem(GUEST_ID_KEY);
+    localStorage.removeItem(TOKEN_KEY);
+    this.notify();
+  }
+
+  async getToken(options: GetTokenOptions = {}): Promise<string | null> {
+    return options.forceRefresh ? this.refreshToken() : this.readGuestId();
+  }
+
+  async refreshToken(): Promise<string | null> {
+    // Guest IDs never expire; being asked for a new one means this one was rejected
+    const guestId = this.readGuestId();
+    this.rejectedId = guestId;
+    return guestId;
+  }
+
+  getCurrentUser(): AuthUser | null {
+    const guestId = this.readGuestId();
+    return guestId ? { id: guestId, isGuest: true } : null;
+  }
+}
+
+// ============================================================================
+// JWT Provider
+// ============================================================================
+
+export interface JwtClaims {
+  sub?: string;
+  name?: string;
+  email?: string;
+  /** Expiry, seconds since epoch */
+  exp?: number;
+  /** Not-before, seconds since epoch */
+  nbf?: number;
+  [claim: string]: unknown;
+}
+
+export interface JwtAuthProviderOptions {
+  /**
+   * Fetch a token from the identity provider. Same shape as the
+   * `fetchToken` callback Convex passes to `setAuth`.
+   */
+  fetchToken: (args: { forceRefreshToken: boolean }) => Promise<string | null | undefined>;
+  /** Interactive sign-in (e.g. open the identity provider's login) */
+  signIn?: () => Promise<void>;
+  /** Sign out of the identity provider */
+  signOut?: () => Promise<void>;
+  /** localStorage key for the cached token (default: convexAuthToken) */
+  storageKey?: string;
+  /** Treat tokens as expired this many ms early (default: 30000) */
+  clockSkew?: number;
+}
+
+/**
+ * Decode a JWT payload without verifying its signature.
+ * Returns null if the string is not a well-formed JWT.
+ */
+export function decodeJwt(token: string): JwtClaims | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  try {
+    const base64 = parts[1].replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+    const json = decodeURIComponent(
+      Array.from(atob(padded), (c) => `%${c.charCodeAt(0).toString(16).padStart(2, '0')}`).join('')
+    );
+    const claims = JSON.parse(json);
+    return claims && typeof claims === 'object' ? (claims as JwtClaims) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check a JWT's exp/nbf claims against the current time
+ */
+export function isJwtValid(token: string, clockSkew: number = 0, now: number = Date.now()): boolean {
+  const claims = decodeJwt(token);
+  if (!claims) return false;
+  if (typeof claims.exp === 'number' && claims.exp * 1000 - clockSkew <= now) return false;
+  if (typeof claims.nbf === 'number' && claims.nbf * 1000 > now + clockSkew) return false;
+  return true;
+}
+
+/**
+ * JWT sessions from an external identity provider (Convex auth, Clerk, ...)
+ *
+ * @example
+ * ```ts
+ * setAuthProvider(new JwtAuthProvider({
+ *   fetchToken: ({ forceRefreshToken }) => convexAuth.fetchAccessToken({ forceRefreshToken }),
+ *   signIn: () => convexAuth.signIn('google'),
+ *   signOut: () => convexAuth.signOut(),
+ * }));
+ * ```
+ */
+export class JwtAuthProvider extends BaseAuthProvider implements AuthProvider {
+  readonly kind = 'jwt' as const;
+
+  private options: JwtAuthProviderOptions;
+  private storageKey: string;
+  private clockSkew: number;
+  private refreshPromise: Promise<string | null> | null = null;
+
+  constructor(options: JwtAuthProviderOptions) {
+    super();
+    this.options = options;
+    this.storageKey = options.storageKey ?? TOKEN_KEY;
+    this.clockSkew = options.clockSkew ?? DEFAULT_CLOCK_SKEW;
+  }
+
+  private readStoredToken(): string | null {
+    const token = localStorage.getItem(this.storageKey);
+    return token && isJwtValid(token, this.clockSkew) ? token : null;
+  }
+
+  async signIn(): Promise<AuthUser> {
+    await this.options.signIn?.();
+    const token = await this.refreshToken();
+    const user = token ? this.getCurrentUser() : null;
+    if (!user) {
+      throw new AuthenticationError('Sign-in did not produce a valid token');
+    }
+    // Announce the session even if an unexpired token was already stored:
+    // after AUTH_EXPIRED the app is waiting for SIGNED_IN either way
+    this.notify();
+    return user;
+  }
+
+  async signOut(): Promise<void> {
+    localStorage.removeItem(this.storageKey);
+    await this.options.signOut?.();
+    this.notify();
+  }
+
+  async getToken(options: GetTokenOptions = {}): Promise<string | null> {
+    if (!options.forceRefresh) {
+      const cached = this.readStoredToken();
+      if (cached) return cached;
+    }
+    return this.refreshToken();
+  }
+
+  async refreshToken(): Promise<string | null> {
+    // Share one in-flight refresh between concurrent callers
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.fetchFreshToken().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async fetchFreshToken(): Promise<string | null> {
+    // An expired token left in storage doesn't count as being signed in
+    const hadToken = this.readStoredToken() !== null;
+    const token = await this.options.fetchToken({ forceRefreshToken: true });
+
+    if (token && isJwtValid(token, this.clockSkew)) {
+      localStorage.setItem(this.storageKey, token);
+      if (!hadToken) this.notify();
+      return token;
+    }
+
+    localStorage.removeItem(this.storageKey);
+    if (hadToken) this.notify();
+    return null;
+  }
+
+  getCurrentUser(): AuthUser | null {
+    const token = this.readStoredToken();
+    const claims = token ? decodeJwt(token) : null;
+    if (!claims?.sub) return null;
+
+    return {
+      id: claims.sub,
+      name: typeof claims.name === 'string' ? claims.name : undefined,
+      email: typeof claims.email === 'string' ? claims.email : undefined,
+      isGuest: false,
+    };
+  }
+}
+
+// ============================================================================
+// Active Provider
+// ============================================================================
+
+let activeProvider: AuthProvider | null = null;
+
+/**
+ * Get the active auth provider (guest sessions unless configured otherwise)
+ */
+export function getAuthProvider(): AuthProvider {
+  if (!activeProvider) {
+    activeProvider = new GuestAuthProvider();
+  }
+  return activeProvider;
+}
+
+/**
+ * Install a different auth provider, e.g. a JwtAuthProvider wired to Convex
+ */
+export function setAuthProvider(provider: AuthProvider): void {
+  activeProvider = provider;
+}
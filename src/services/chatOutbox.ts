@@ -0,0 +1,258 @@
+/**
+ * Chat Outbox
+ *
+ * Persistent queue of chat messages that could not be sent yet:
+ * - Stored in IndexedDB per user, so a reload doesn't lose them
+ *   (in memory only where IndexedDB is unavailable or stops working)
+ * - Kept in the order they were written, for in-order replay
+ * - Tagged with the conversation they were written in: its session, or,
+ *   for a new conversation or a branch, a local draft id until the
+ *   server assigns the session
+ * - Each entry is pending (waits for the connection), sending or failed
+ *   (gave up; only sent again on an explicit retry)
+ *
+ * The outbox only stores; useChatOutbox decides when to replay.
+ */
+
+import { isIndexedDBAvailable, withStore } from '@/lib/idb';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export type OutboxStatus = 'pending' | 'sending' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  /** User the message belongs to */
+  ownerId: string;
+  text: string;
+  /** Session the message was written in; null until the server assigns one */
+  sessionId: string | null;
+  /** Draft conversation the message was written in, if it had no session then */
+  draftId: string | null;
+  status: OutboxStatus;
+  createdAt: number;
+  /** Delivery attempts so far */
+  attempts: number;
+  /** Why the last attempt failed */
+  lastError?: string;
+}
+
+/** Where a message was written: a session, a draft not yet on the server, or both once it is */
+export interface OutboxConversation {
+  sessionId: string | null;
+  draftId: string | null;
+}
+
+export type OutboxListener = (entries: OutboxEntry[]) => void;
+
+interface OutboxStore {
+  getAll(ownerId: string): Promise<OutboxEntry[]>;
+  put(entry: OutboxEntry): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+class IndexedDBOutboxStore implements OutboxStore {
+  async getAll(ownerId: string): Promise<OutboxEntry[]> {
+    return withStore('outbox', 'readonly', (store) =>
+      store.index('ownerId').getAll(IDBKeyRange.only(ownerId)) as IDBRequest<OutboxEntry[]>
+    );
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    await withStore('outbox', 'readwrite', (store) => store.put(entry));
+  }
+
+  async delete(id: string): Promise<void> {
+    await withStore('outbox', 'readwrite', (store) => store.delete(id));
+  }
+}
+
+class MemoryOutboxStore implements OutboxStore {
+  private entries = new Map<string, OutboxEntry>();
+
+  async getAll(ownerId: string): Promise<OutboxEntry[]> {
+    return Array.from(this.entries.values()).filter((entry) => entry.ownerId === ownerId);
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    this.entries.set(entry.id, { ...entry });
+  }
+
+  async delete(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+}
+
+/**
+ * IndexedDB until it fails (open rejected in private mode, quota, blocked
+ * upgrade), then memory for the rest of the page's life. Entries already
+ * in IndexedDB stay there for the next load; new ones are at least kept.
+ */
+class FallbackOutboxStore implements OutboxStore {
+  private primary: OutboxStore;
+  private fallback: OutboxStore | null = null;
+
+  constructor(primary: OutboxStore) {
+    this.primary = primary;
+  }
+
+  private async run<T>(operation: (store: OutboxStore) => Promise<T>): Promise<T> {
+    if (!this.fallback) {
+      try {
+        return await operation(this.primary);
+      } catch (error) {
+        console.warn('[ChatOutbox] IndexedDB failed, keeping the outbox in memory:', error);
+        this.fallback = new MemoryOutboxStore();
+      }
+    }
+    return operation(this.fallback);
+  }
+
+  getAll(ownerId: string): Promise<OutboxEntry[]> {
+    return this.run((store) => store.getAll(ownerId));
+  }
+
+  put(entry: OutboxEntry): Promise<void> {
+    return this.run((store) => store.put(entry));
+  }
+
+  delete(id: string): Promise<void> {
+    return this.run((store) => store.delete(id));
+  }
+}
+
+let sharedStore: OutboxStore | null = null;
+
+function getStore(): OutboxStore {
+  if (!sharedStore) {
+    sharedStore = isIndexedDBAvailable()
+      ? new FallbackOutboxStore(new IndexedDBOutboxStore())
+      : new MemoryOutboxStore();
+  }
+  return sharedStore;
+}
+
+function createEntryId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `outbox_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * A new id for a conversation the server has not seen yet
+ */
+export function createDraftId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return `draft_${crypto.randomUUID()}`;
+  }
+  return `draft_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Whether an entry was written in this conversation. Matches exactly, so a
+ * draft's messages never replay into some other session.
+ */
+export function isInConversation(entry: OutboxEntry, conversation: OutboxConversation): boolean {
+  if (entry.sessionId !== null) return entry.sessionId === conversation.sessionId;
+  return entry.draftId !== null && entry.draftId === conversation.draftId;
+}
+
+// ============================================================================
+// Chat Outbox
+// ============================================================================
+
+export class ChatOutbox {
+  private listeners: Set<OutboxListener> = new Set();
+  private readonly ownerId: string;
+  private readonly store: OutboxStore;
+
+  constructor(ownerId: string, store: OutboxStore = getStore()) {
+    this.ownerId = ownerId;
+    this.store = store;
+  }
+
+  /**
+   * All entries, oldest first
+   */
+  async list(): Promise<OutboxEntry[]> {
+    const entries = await this.store.getAll(this.ownerId);
+    return entries.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Entries left `sending` by a closed tab never finished; make them pending
+   */
+  async recover(): Promise<void> {
+    const stuck = (await this.list()).filter((entry) => entry.status === 'sending');
+    if (stuck.length === 0) return;
+    await Promise.all(stuck.map((entry) => this.store.put({ ...entry, status: 'pending' })));
+    await this.notify();
+  }
+
+  async enqueue(text: string, conversation: OutboxConversation, lastError?: string): Promise<OutboxEntry> {
+    const entry: OutboxEntry = {
+      id: createEntryId(),
+      ownerId: this.ownerId,
+      text,
+      sessionId: conversation.sessionId,
+      draftId: conversation.sessionId === null ? conversation.draftId : null,
+      status: 'pending',
+      createdAt: Date.now(),
+      attempts: 0,
+      lastError,
+    };
+    await this.store.put(entry);
+    await this.notify();
+    return entry;
+  }
+
+  async update(id: string, patch: Partial<Pick<OutboxEntry, 'status' | 'attempts' | 'lastError' | 'sessionId'>>): Promise<void> {
+    const entry = (await this.store.getAll(this.ownerId)).find((candidate) => candidate.id === id);
+    if (!entry) return;
+    await this.store.put({ ...entry, ...patch });
+    await this.notify();
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.store.delete(id);
+    await this.notify();
+  }
+
+  /**
+   * Drop every entry, e.g. when the user clears their local history
+   */
+  async clear(): Promise<void> {
+    const entries = await this.store.getAll(this.ownerId);
+    await Promise.all(entries.map((entry) => this.store.delete(entry.id)));
+    await this.notify();
+  }
+
+  /**
+   * Listen for changes; the listener receives the full list, oldest first
+   */
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async notify(): Promise<void> {
+    if (this.listeners.size === 0) return;
+    const entries = await this.list();
+    this.listeners.forEach((listener) => {
+      try {
+        listener(entries);
+      } catch (error) {
+        console.error('[ChatOutbox] Error in listener:', error);
+      }
+    });
+  }
+}
@@ -6,7 +6,7 @@
  * 
  * Key Design Principles:
  * 1. No WebSocket code anywhere
- * 2. Token-based authentication with Clerk JWT
+ * 2. Token-based authentication via a pluggable AuthProvider (guest or JWT)
  * 3. Proper TypeScript types for all requests/responses
  * 4. Production-ready error handling
  * 5. SSE streaming for chat responses
@@ -16,7 +16,28 @@
 // Configuration
 // ============================================================================
 
-const API_BASE_URL = import.meta.env.VITE_ASTRO_API_URL || 'http://localhost:3000/api/v1';
+import { SSEParser, readSSEStream, extractTextDelta, DONE_MARKER, type SSEMessage } from '@/lib/sse';
+import { ResponseCache, type CacheListener, type CachePolicy } from './responseCache';
+import { HttpApiError, NetworkError, TimeoutError } from './httpErrors';
+import {
+  resolveRetryPolicy,
+  retryDelayFor,
+  parseRetryAfter,
+  createIdempotencyKey,
+  IDEMPOTENCY_KEY_HEADER,
+  type RetryPolicy,
+  type RetryRule,
+} from './retryPolicy';
+import {
+  InterceptorChain,
+  authInterceptor,
+  requestIdInterceptor,
+  errorMappingInterceptor,
+  type HttpInterceptor,
+  type HttpRequest,
+} from './interceptors';
+
+export const API_BASE_URL = import.meta.env.VITE_ASTRO_API_URL || 'http://localhost:3000/api/v1';
 
 // ============================================================================
 // Types & Interfaces
@@ -26,6 +47,7 @@ export interface ApiError {
   code: string;
   message: string;
   details?: Record<string, unknown>;
+  retryable?: boolean;
 }
 
 export interface ApiResponse<T> {
@@ -35,36 +57,88 @@ export interface ApiResponse<T> {
   meta?: {
     timestamp: string;
     requestId?: string;
+    responseTime?: number;
   };
 }
 
-export interface OnboardingData {
-  name: string;
-  dateOfBirth: string; // YYYY-MM-DD
+export interface BirthDetails {
+  dateOfBirth: string; // Local birth date as ISO 8601 midnight UTC (1990-01-01T00:00:00.000Z)
   timeOfBirth: string; // HH:MM
   place: string;
   latitude?: number;
   longitude?: number;
   timezone?: string;
+  birthInstant?: string; // Exact UTC instant of birth, ISO 8601
+  utcOffset?: string; // ±HH:MM in effect at birth (historical DST applied)
 }
 
+export interface OnboardingData extends BirthDetails {
+  name: string;
+}
+
+export type ProfileStatus = 'processing' | 'completed' | 'failed';
+
 export interface OnboardingResult {
   uid: string;
-  status: 'processing' | 'completed' | 'failed';
+  status: ProfileStatus;
 }
 
-export interface UserProfile {
+/** A body's position as the backend reports it; signs, houses and nakshatras are derived */
+export interface ChartBodyPayload {
+  /** Navagraha name: Sun, Moon, Mars, Mercury, Jupiter, Venus, Saturn, Rahu or Ketu */
+  name: string;
+  /** Sidereal ecliptic longitude in degrees, 0-360 */
+  longitude: number;
+  retrograde?: boolean;
+  /** Degrees per day; negative when retrograde */
+  speed?: number;
+}
+
+export interface BirthChartPayload {
+  /** Ayanamsa used for the sidereal positions, e.g. "lahiri" */
+  ayanamsa?: string;
+  /** Ayanamsa value in degrees at birth */
+  ayanamsaValue?: number;
+  /** Sidereal longitude of the ascendant */
+  ascendant: number;
+  /** Twelve house cusp longitudes from house 1; whole-sign houses when absent */
+  houses?: number[];
+  planets: ChartBodyPayload[];
+}
+
+export interface AstroProfile {
+  astroSummary?: string;
+  ascendant?: string;
+  moonSign?: string;
+  /** Full birth chart data; read it with parseBirthChart, which validates it */
+  chart?: BirthChartPayload;
+}
+
+/** Birth details are returned once onboarding has stored them */
+export interface UserProfile extends Partial<BirthDetails> {
   id: string;
   name: string;
   email?: string;
-  status: 'processing' | 'completed' | 'failed';
+  status: ProfileStatus;
   failureReason?: string;
-  astroProfile?: {
-    astroSummary?: string;
-  };
+  astroProfile?: AstroProfile;
   createdAt: string;
 }
 
+/** Sending any birth detail makes the backend recalculate the chart */
+export interface ProfileUpdate extends Partial<BirthDetails> {
+  name?: string;
+  email?: string;
+}
+
+export interface ProfileUpdateResult {
+  name?: string;
+  email?: string;
+  /** `processing` when the update started a chart recalculation */
+  status?: ProfileStatus;
+  updatedAt: string;
+}
+
 export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
@@ -78,17 +152,88 @@ export interface ChatSession {
   updatedAt: string;
 }
 
+export interface ChatSessionSummary {
+  id: string;
+  createdAt: string;
+  lastMessageAt?: string;
+  messageCount: number;
+  summary?: string;
+}
+
+export interface ChatSessionList {
+  sessions: ChatSessionSummary[];
+  total: number;
+  hasMore: boolean;
+}
+
+export interface PaginationParams {
+  /** 1-100 (server default: 20) */
+  limit?: number;
+  /** Server default: 0 */
+  offset?: number;
+}
+
 export interface SendMessageResult {
   response: string;
   sessionId: string;
 }
 
+/** A source the answer draws on, or a part of the user's chart it refers to */
+export interface ChatCitation {
+  kind: 'source' | 'chart';
+  label: string;
+  url?: string;
+  /** Chart element for `chart` citations, e.g. "D10", "house:7", "planet:Saturn" */
+  ref?: string;
+}
+
+export interface ChatUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+}
+
+export interface ChatStreamMetadata {
+  sessionId?: string;
+  messageId?: string;
+}
+
+export type ChatStreamEvent =
+  | { type: 'text'; delta: string }
+  | ({ type: 'metadata' } & ChatStreamMetadata)
+  | { type: 'citations'; citations: ChatCitation[] }
+  | { type: 'usage'; usage: ChatUsage }
+  | { type: 'error'; error: ApiError }
+  | { type: 'done'; fullResponse: string };
+
 export interface StreamChatOptions {
+  /** Text deltas */
   onMessage?: (chunk: string) => void;
+  /** Session and message ids, as soon as the server assigns them */
+  onMetadata?: (metadata: ChatStreamMetadata) => void;
+  onCitations?: (citations: ChatCitation[]) => void;
+  onUsage?: (usage: ChatUsage) => void;
   onComplete?: (fullResponse: string) => void;
   onError?: (error: ApiError) => void;
   onStart?: () => void;
+  /** Every typed event in arrival order, including the ones above */
+  onStreamEvent?: (event: ChatStreamEvent) => void;
+  /** Every raw SSE event as received, including unrecognized types (progress, tool-call, ...) */
+  onEvent?: (event: SSEMessage) => void;
   signal?: AbortSignal;
+  /** Reconnect attempts after a dropped connection (default: 3) */
+  maxReconnects?: number;
+  /** Earlier turns to seed a new session with (see SendMessageOptions.history) */
+  history?: ChatMessage[];
+}
+
+export interface SendMessageOptions {
+  /**
+   * Earlier turns of the conversation, for a message that starts a new
+   * session branched off another one. Ignored with a sessionId: the server
+   * has that session's history already.
+   */
+  history?: ChatMessage[];
 }
 
 export interface JobStatus {
@@ -101,186 +246,349 @@ export interface JobStatus {
   updatedAt: string;
 }
 
+export interface HealthStatus {
+  status: string;
+  version?: string;
+  timestamp?: string;
+  environment?: string;
+  dependencies?: Record<string, { status: string; latency?: number }>;
+}
+
 // ============================================================================
 // Custom Error Classes
 // ============================================================================
 
-export class HttpApiError extends Error {
-  readonly code: string;
-  readonly statusCode: number;
-  readonly details?: Record<string, unknown>;
+export {
+  HttpApiError,
+  NetworkError,
+  TimeoutError,
+  AuthenticationError,
+  ForbiddenError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+} from './httpErrors';
 
-  constructor(
-    message: string,
-    code: string,
-    statusCode: number = 500,
-    details?: Record<string, unknown>
-  ) {
-    super(message);
-    this.name = 'HttpApiError';
-    this.code = code;
-    this.statusCode = statusCode;
-    this.details = details;
-    Object.setPrototypeOf(this, HttpApiError.prototype);
-  }
-}
+// ============================================================================
+// HTTP Client Configuration
+// ============================================================================
 
-export class AuthenticationError extends HttpApiError {
-  constructor(message: string = 'Authentication failed') {
-    super(message, 'AUTHENTICATION_ERROR', 401);
-    this.name = 'AuthenticationError';
-  }
-}
+export type { HttpInterceptor, HttpRequest } from './interceptors';
+export type { RetryPolicy, RetryRule } from './retryPolicy';
 
-export class NetworkError extends HttpApiError {
-  constructor(message: string = 'Network request failed') {
-    super(message, 'NETWORK_ERROR', 0);
-    this.name = 'NetworkError';
-  }
+export interface RequestConfig extends RequestInit {
+  /** Abort after this many ms; 0 disables the timeout (default: 30s) */
+  timeout?: number;
+  /** Shorthand for `retry: { maxRetries }` */
+  retries?: number;
+  /** Override the resolved retry policy for this request */
+  retry?: Partial<RetryPolicy>;
+  /** How to read a successful body (default: json) */
+  responseType?: 'json' | 'text';
 }
 
-export class TimeoutError extends HttpApiError {
-  constructor(message: string = 'Request timed out') {
-    super(message, 'TIMEOUT_ERROR', 408);
-    this.name = 'TimeoutError';
-  }
+export interface GetConfig<T> extends RequestConfig {
+  /** Cache successful responses under this policy (default: not cached) */
+  cachePolicy?: CachePolicy<ApiResponse<T>>;
+  /** Ignore a cached response and fetch, still storing the result */
+  revalidate?: boolean;
 }
 
-// ============================================================================
-// HTTP Client Configuration
-// ============================================================================
+/**
+ * A static token, or anything that can hand out a fresh one (see AuthProvider)
+ */
+export type TokenSource =
+  | string
+  | null
+  | { getToken(options?: { forceRefresh?: boolean }): Promise<string | null> };
 
-interface RequestConfig extends RequestInit {
-  timeout?: number;
-  retries?: number;
+/**
+ * A GET shared by concurrent callers. It runs under its own controller,
+ * aborted only once every caller that could abort has done so.
+ */
+interface SharedRequest {
+  promise: Promise<ApiResponse<unknown>>;
+  controller: AbortController;
+  /** Callers still waiting; one without a signal keeps it alive for good */
+  subscribers: number;
 }
 
 const DEFAULT_TIMEOUT = 30000; // 30 seconds
-const DEFAULT_RETRIES = 3;
+const DEFAULT_STREAM_RECONNECTS = 3;
+const DEFAULT_STREAM_RETRY_DELAY = 1000; // until the server sends `retry:`
 
 // ============================================================================
 // Core HTTP Client
 // ============================================================================
 
-class HttpClient {
-  private token: string | null = null;
+/**
+ * Low-level transport: base URL, timeouts and retries. Auth headers,
+ * request ids and error mapping are interceptors (see interceptors.ts)
+ * that apps can extend or replace.
+ * Concurrent identical GETs share one request (one caller aborting
+ * only gives up its own wait), and GETs with a cache policy are served
+ * from the response cache.
+ * Endpoint knowledge lives in AstroShivaAPI.
+ */
+export class HttpClient {
+  private tokenSource: TokenSource = null;
+  private inFlight = new Map<string, SharedRequest>();
+  readonly baseUrl: string;
+  readonly cache = new ResponseCache();
+  readonly interceptors = new InterceptorChain();
+  private retryRules: RetryRule[] = [];
+
+  constructor(baseUrl: string = API_BASE_URL) {
+    this.baseUrl = baseUrl;
+    this.interceptors.use(authInterceptor((options) => this.getToken(options)));
+    this.interceptors.use(requestIdInterceptor());
+    this.interceptors.use(errorMappingInterceptor());
+  }
+
+  /**
+   * Set where tokens come from: a static string, or a provider asked for
+   * a fresh token on every request
+   */
+  setAuth(source: TokenSource): void {
+    this.tokenSource = source;
+  }
 
   setToken(token: string | null): void {
-    this.token = token;
+    this.setAuth(token);
   }
 
-  getToken(): string | null {
-    return this.token;
+  async getToken(options?: { forceRefresh?: boolean }): Promise<string | null> {
+    if (this.tokenSource === null || typeof this.tokenSource === 'string') {
+      return this.tokenSource;
+    }
+    return this.tokenSource.getToken(options);
   }
 
-  private async fetchWithTimeout(
-    url: string,
-    config: RequestConfig
-  ): Promise<Response> {
-    const { timeout = DEFAULT_TIMEOUT, ...fetchConfig } = config;
+  /**
+   * Add a retry rule for matching methods/endpoints; later rules win.
+   * Returns a function that removes it.
+   */
+  addRetryRule(rule: RetryRule): () => void {
+    this.retryRules.push(rule);
+    return () => {
+      this.retryRules = this.retryRules.filter((entry) => entry !== rule);
+    };
+  }
 
+  /**
+   * A request as interceptors see it, before they run. Every request is JSON
+   * unless the caller says otherwise.
+   */
+  createRequest(endpoint: string, init: RequestInit = {}): HttpRequest {
+    const { method = 'GET', headers, ...rest } = init;
+    return {
+      method: method.toUpperCase(),
+      endpoint,
+      url: `${this.baseUrl}${endpoint}`,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(headers as Record<string, string> | undefined),
+      },
+      init: rest,
+      attempt: 0,
+      meta: {},
+    };
+  }
+
+  /**
+   * One pass through the pipeline: request interceptors, fetch, response
+   * interceptors. Resolves with the raw Response whatever its status; used
+   * directly for streaming.
+   */
+  async send(request: HttpRequest, timeout: number = DEFAULT_TIMEOUT): Promise<Response> {
+    const prepared = await this.interceptors.runRequest(request);
+    const response = await this.fetchWithTimeout(prepared, timeout);
+    return this.interceptors.runResponse(response, prepared, (next) => this.send(next, timeout));
+  }
+
+  private async fetchWithTimeout(request: HttpRequest, timeout: number): Promise<Response> {
+    const callerSignal = request.init.signal;
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const abort = () => controller.abort();
+    const timeoutId = timeout > 0 ? setTimeout(abort, timeout) : undefined;
+    if (callerSignal?.aborted) abort();
+    callerSignal?.addEventListener('abort', abort);
 
     try {
-      const response = await fetch(url, {
-        ...fetchConfig,
+      return await fetch(request.url, {
+        ...request.init,
+        method: request.method,
+        headers: request.headers,
         signal: controller.signal,
       });
-      clearTimeout(timeoutId);
-      return response;
     } catch (error) {
-      clearTimeout(timeoutId);
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          throw new TimeoutError();
-        }
+      if (error instanceof Error && error.name === 'AbortError') {
+        // The caller's own abort is not a timeout
+        if (callerSignal?.aborted) throw error;
+        throw new TimeoutError();
       }
       throw new NetworkError(error instanceof Error ? error.message : undefined);
+    } finally {
+      clearTimeout(timeoutId);
+      callerSignal?.removeEventListener('abort', abort);
     }
   }
 
-  private async request<T>(
-    endpoint: string,
-    config: RequestConfig = {}
-  ): Promise<ApiResponse<T>> {
-    const url = `${API_BASE_URL}${endpoint}`;
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      ...((config.headers as Record<string, string>) || {}),
-    };
+  /**
+   * Read a response into an ApiResponse, throwing HttpApiError for error statuses
+   */
+  private async parseResponse<T>(response: Response, responseType: 'json' | 'text'): Promise<ApiResponse<T>> {
+    if (response.ok && responseType === 'text') {
+      return { success: true, data: (await response.text()) as T };
+    }
 
-    // Add auth token if available
-    if (this.token) {
-      headers['Authorization'] = `Bearer ${this.token}`;
-      headers['X-Guest-ID'] = this.token; // Send token as guest ID for backend auth
+    // Handle non-JSON responses
+    const contentType = response.headers.get('content-type');
+    if (!contentType?.includes('application/json')) {
+      if (!response.ok) {
+        throw this.withRetryAfter(new HttpApiError(
+          `HTTP ${response.status}: ${response.statusText}`,
+          'HTTP_ERROR',
+          response.status
+        ), response);
+      }
+      return { success: true, data: undefined as T };
     }
 
-    const retries = config.retries ?? DEFAULT_RETRIES;
-    let lastError: Error | null = null;
+    const data: ApiResponse<T> = await response.json();
 
-    for (let attempt = 0; attempt <= retries; attempt++) {
-      try {
-        const response = await this.fetchWithTimeout(url, {
-          ...config,
-          headers,
-        });
+    if (!response.ok) {
+      const error = data.error || {
+        code: 'UNKNOWN_ERROR',
+        message: 'An unknown error occurred',
+      };
+      throw this.withRetryAfter(new HttpApiError(
+        error.message,
+        error.code,
+        response.status,
+        error.details
+      ), response);
+    }
 
-        // Handle non-JSON responses
-        const contentType = response.headers.get('content-type');
-        if (!contentType?.includes('application/json')) {
-          if (!response.ok) {
-            throw new HttpApiError(
-              `HTTP ${response.status}: ${response.statusText}`,
-              'HTTP_ERROR',
-              response.status
-            );
-          }
-          return { success: true, data: undefined as T };
-        }
+    return data;
+  }
 
-        const data: ApiResponse<T> = await response.json();
+  private withRetryAfter(error: HttpApiError, response: Response): HttpApiError {
+    error.retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+    return error;
+  }
 
-        if (!response.ok) {
-          const error = data.error || {
-            code: 'UNKNOWN_ERROR',
-            message: 'An unknown error occurred',
-          };
-          throw new HttpApiError(
-            error.message,
-            error.code,
-            response.status,
-            error.details
-          );
-        }
+  private async request<T>(
+    endpoint: string,
+    config: RequestConfig = {}
+  ): Promise<ApiResponse<T>> {
+    const { responseType = 'json', retries, retry, timeout = DEFAULT_TIMEOUT, ...init } = config;
+    const base = this.createRequest(endpoint, init);
+    const policy = resolveRetryPolicy(base.method, endpoint, base.headers, this.retryRules, {
+      ...(retries !== undefined ? { maxRetries: retries } : {}),
+      ...retry,
+    });
+
+    for (let attempt = 0; ; attempt++) {
+      // Fresh headers per attempt; meta (e.g. the request id) carries over
+      const request: HttpRequest = { ...base, headers: { ...base.headers }, attempt };
 
-        return data;
+      try {
+        const response = await this.send(request, timeout);
+        return await this.parseResponse<T>(response, responseType);
       } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
+        const mapped = await this.interceptors.runError(
+          error instanceof Error ? error : new Error(String(error)),
+          request
+        );
 
-        // Don't retry on authentication errors
-        if (error instanceof AuthenticationError) {
-          throw error;
-        }
+        // Don't retry what the caller aborted
+        const delay = init.signal?.aborted ? null : retryDelayFor(mapped, policy, attempt + 1);
+        if (delay === null) throw mapped;
 
-        // Don't retry on client errors (4xx)
-        if (error instanceof HttpApiError && error.statusCode >= 400 && error.statusCode < 500) {
-          throw error;
-        }
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
 
-        // Exponential backoff for retries
-        if (attempt < retries) {
-          const delay = Math.min(1000 * Math.pow(2, attempt), 10000);
-          await new Promise((resolve) => setTimeout(resolve, delay));
-        }
+  /**
+   * GET with in-flight deduplication. With a cache policy, a fresh entry is
+   * returned as is; a stale one is returned immediately while a background
+   * refresh updates the cache (and its subscribers).
+   */
+  async get<T>(endpoint: string, config: GetConfig<T> = {}): Promise<ApiResponse<T>> {
+    const { cachePolicy: policy, revalidate = false, ...requestConfig } = config;
+    const key = this.cache.key(endpoint, await this.getToken());
+
+    if (policy && !revalidate) {
+      const cached = this.cache.lookup<ApiResponse<T>>(key);
+      if (cached.state === 'fresh') return cached.entry.data;
+      if (cached.state === 'stale') {
+        this.fetchShared<T>(key, endpoint, requestConfig, policy).catch((error) => {
+          console.warn(`[HttpClient] Background revalidation of ${endpoint} failed:`, error);
+        });
+        return cached.entry.data;
       }
     }
 
-    throw lastError || new HttpApiError('Request failed after retries', 'RETRY_EXHAUSTED');
+    return this.fetchShared<T>(key, endpoint, requestConfig, policy);
   }
 
-  async get<T>(endpoint: string, config?: RequestConfig): Promise<ApiResponse<T>> {
-    return this.request<T>(endpoint, { ...config, method: 'GET' });
+  private fetchShared<T>(
+    key: string,
+    endpoint: string,
+    config: RequestConfig,
+    policy?: CachePolicy<ApiResponse<T>>
+  ): Promise<ApiResponse<T>> {
+    const { signal, ...shared } = config;
+    const flightKey = `${shared.responseType ?? 'json'} ${key}`;
+    let flight = this.inFlight.get(flightKey);
+
+    // An abandoned request may not have settled yet; start afresh
+    if (!flight || flight.controller.signal.aborted) {
+      const controller = new AbortController();
+      const promise = this.request<T>(endpoint, { ...shared, method: 'GET', signal: controller.signal })
+        .then((response) => {
+          if (policy) {
+            this.cache.set(key, endpoint, response, {
+              ...policy,
+              shouldCache: (res) => res.success && (policy.shouldCache?.(res) ?? true),
+            });
+          }
+          return response;
+        })
+        .finally(() => {
+          if (this.inFlight.get(flightKey)?.controller === controller) this.inFlight.delete(flightKey);
+        });
+      flight = { promise, controller, subscribers: 0 };
+      this.inFlight.set(flightKey, flight);
+    }
+
+    return this.subscribe(flight, signal) as Promise<ApiResponse<T>>;
+  }
+
+  /**
+   * Wait on a shared request until it settles or `signal` aborts. The
+   * request itself is aborted when its last subscriber leaves.
+   */
+  private subscribe(flight: SharedRequest, signal?: AbortSignal | null): Promise<ApiResponse<unknown>> {
+    if (!signal) {
+      // Nobody can abort on this caller's behalf, so the request must finish
+      flight.subscribers = Infinity;
+      return flight.promise;
+    }
+    if (signal.aborted) return Promise.reject(signal.reason);
+
+    flight.subscribers++;
+    return new Promise((resolve, reject) => {
+      const leave = () => {
+        signal.removeEventListener('abort', leave);
+        reject(signal.reason);
+        if (--flight.subscribers === 0) flight.controller.abort();
+      };
+      signal.addEventListener('abort', leave);
+      flight.promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', leave));
+    });
   }
 
   async post<T>(
@@ -313,238 +621,521 @@ class HttpClient {
 }
 
 // ============================================================================
-// API Client Instance
-// ============================================================================
-
-const httpClient = new HttpClient();
-
-// ============================================================================
-// API Methods
+// Streaming Helpers
 // ============================================================================
 
 /**
- * Set the authentication token for all subsequent requests
+ * Read the payload of an `error` SSE event, which may be JSON or plain text
  */
-export function setAuthToken(token: string | null): void {
-  httpClient.setToken(token);
+function parseStreamError(data: string): ApiError {
+  try {
+    const parsed = JSON.parse(data);
+    const error = parsed.error ?? parsed;
+    if (error && typeof error.message === 'string') {
+      return {
+        code: typeof error.code === 'string' ? error.code : 'STREAM_ERROR',
+        message: error.message,
+        retryable: error.retryable,
+      };
+    }
+  } catch {
+    // Plain-text error message
+  }
+  return { code: 'STREAM_ERROR', message: data || 'The stream reported an error' };
 }
 
-/**
- * Get the current authentication token
- */
-export function getAuthToken(): string | null {
-  return httpClient.getToken();
+type JsonObject = Record<string, unknown>;
+
+function parseJsonObject(data: string): JsonObject | null {
+  try {
+    const parsed = JSON.parse(data);
+    return typeof parsed === 'object' && parsed !== null ? parsed : null;
+  } catch {
+    return null;
+  }
 }
 
-/**
- * Onboard a new user
- * Initiates the onboarding process which runs asynchronously
- */
-export async function onboard(data: OnboardingData): Promise<ApiResponse<OnboardingResult>> {
-  return httpClient.post<OnboardingResult>('/users/onboard', data);
+function stringField(source: JsonObject, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    if (typeof source[key] === 'string') return source[key] as string;
+  }
+  return undefined;
 }
 
-/**
- * Get the current user's profile
- */
-export async function getProfile(): Promise<ApiResponse<UserProfile>> {
-  return httpClient.get<UserProfile>('/users/profile');
+function numberField(source: JsonObject, ...keys: string[]): number | undefined {
+  for (const key of keys) {
+    if (typeof source[key] === 'number') return source[key] as number;
+  }
+  return undefined;
+}
+
+function toMetadata(source: JsonObject): ChatStreamEvent[] {
+  const sessionId = stringField(source, 'sessionId', 'session_id');
+  const messageId = stringField(source, 'messageId', 'message_id');
+  return sessionId || messageId ? [{ type: 'metadata', sessionId, messageId }] : [];
+}
+
+function toCitations(source: unknown): ChatStreamEvent[] {
+  const items = Array.isArray(source)
+    ? source
+    : Array.isArray((source as JsonObject | null)?.citations)
+      ? ((source as JsonObject).citations as unknown[])
+      : [];
+
+  const citations: ChatCitation[] = [];
+  for (const item of items) {
+    if (typeof item !== 'object' || item === null) continue;
+    const entry = item as JsonObject;
+    const label = stringField(entry, 'label', 'title', 'name');
+    if (!label) continue;
+    const ref = stringField(entry, 'ref', 'chart');
+    citations.push({
+      kind: entry.kind === 'chart' || entry.type === 'chart' || ref ? 'chart' : 'source',
+      label,
+      url: stringField(entry, 'url'),
+      ref,
+    });
+  }
+  return citations.length ? [{ type: 'citations', citations }] : [];
+}
+
+function toUsage(source: JsonObject): ChatStreamEvent[] {
+  const usage: ChatUsage = {
+    promptTokens: numberField(source, 'promptTokens', 'prompt_tokens', 'input_tokens'),
+    completionTokens: numberField(source, 'completionTokens', 'completion_tokens', 'output_tokens'),
+    totalTokens: numberField(source, 'totalTokens', 'total_tokens'),
+  };
+  return Object.values(usage).some((value) => value !== undefined) ? [{ type: 'usage', usage }] : [];
 }
 
 /**
- * Send a chat message (non-streaming)
+ * Map one SSE event to typed chat events. The kind comes from the SSE
+ * `event` field, or from a `type` field inside default `message` payloads;
+ * a text chunk may also carry ids, usage or citations alongside it.
+ * Unrecognized event types (progress, tool-call, ...) map to nothing and
+ * are only visible through `onEvent`.
  */
-export async function sendMessage(
-  message: string,
-  sessionId?: string
-): Promise<ApiResponse<SendMessageResult>> {
-  return httpClient.post<SendMessageResult>('/chat/send', {
-    message,
-    sessionId,
-  });
+function toChatStreamEvents(message: SSEMessage): ChatStreamEvent[] {
+  const { data } = message;
+  if (data === DONE_MARKER) return [{ type: 'done', fullResponse: '' }];
+
+  const payload = parseJsonObject(data);
+  const kind = message.event !== 'message' ? message.event : stringField(payload ?? {}, 'type') ?? 'text';
+
+  switch (kind) {
+    case 'done':
+      return [{ type: 'done', fullResponse: '' }];
+    case 'error':
+      return [{ type: 'error', error: parseStreamError(data) }];
+    case 'metadata':
+    case 'meta':
+      return payload ? toMetadata(payload) : [];
+    case 'citations':
+      return toCitations(payload ?? parseJsonArray(data));
+    case 'usage':
+      return payload ? toUsage((payload.usage as JsonObject | undefined) ?? payload) : [];
+    case 'text':
+    case 'delta': {
+      const events: ChatStreamEvent[] = [];
+      const delta = extractTextDelta(data);
+      if (delta) events.push({ type: 'text', delta });
+      if (payload) {
+        events.push(...toMetadata(payload));
+        if (payload.citations) events.push(...toCitations(payload.citations));
+        if (typeof payload.usage === 'object' && payload.usage !== null) {
+          events.push(...toUsage(payload.usage as JsonObject));
+        }
+      }
+      return events;
+    }
+    default:
+      return [];
+  }
+}
+
+function parseJsonArray(data: string): unknown[] {
+  try {
+    const parsed = JSON.parse(data);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
 }
 
+// ============================================================================
+// Astro Shiva API Client
+// ============================================================================
+
+/** Completed profiles only: processing/failed ones must be re-read while polling */
+const PROFILE_CACHE: CachePolicy<ApiResponse<UserProfile>> = {
+  ttl: 60 * 1000,
+  staleWhileRevalidate: 5 * 60 * 1000,
+  shouldCache: (res) => res.data?.status === 'completed',
+};
+
+const SESSIONS_CACHE: CachePolicy = {
+  ttl: 30 * 1000,
+  staleWhileRevalidate: 5 * 60 * 1000,
+};
+
 /**
- * Get all chat sessions for the current user
+ * Writes carry a key so HttpClient may retry them and the server can
+ * ignore the duplicates
  */
-export async function getChatSessions(): Promise<ApiResponse<ChatSession[]>> {
-  return httpClient.get<ChatSession[]>('/chat/sessions');
+function idempotent(): RequestConfig {
+  return { headers: { [IDEMPOTENCY_KEY_HEADER]: createIdempotencyKey() } };
 }
 
 /**
- * Stream a chat response using Server-Sent Events (SSE)
- * 
- * This is the primary method for chat interactions, providing real-time
- * streaming responses without WebSocket connections.
+ * Typed client for every Astro Shiva endpoint
+ *
+ * @example
+ * ```ts
+ * const api = new AstroShivaAPI(getAuthProvider());
+ * const profile = await api.getProfile();
+ * ```
  */
-export async function streamChat(
-  message: string,
-  sessionId: string | undefined,
-  options: StreamChatOptions
-): Promise<void> {
-  const { onMessage, onComplete, onError, onStart, signal } = options;
-  const url = `${API_BASE_URL}/chat/stream`;
-
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-  };
+export class AstroShivaAPI {
+  private readonly http: HttpClient;
 
-  const token = httpClient.getToken();
-  if (token) {
-    headers['Authorization'] = `Bearer ${token}`;
+  constructor(auth: TokenSource = null, baseUrl: string = API_BASE_URL) {
+    this.http = new HttpClient(baseUrl);
+    this.http.setAuth(auth);
   }
 
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({ message, sessionId }),
-      signal,
-    });
+  get baseUrl(): string {
+    return this.http.baseUrl;
+  }
 
-    if (!response.ok) {
-      let errorData: ApiError;
-      try {
-        const json = await response.json();
-        errorData = json.error || { code: 'UNKNOWN_ERROR', message: 'Unknown error' };
-      } catch {
-        errorData = {
-          code: 'HTTP_ERROR',
-          message: `HTTP ${response.status}: ${response.statusText}`,
-        };
+  /**
+   * Set the token source for all subsequent requests
+   */
+  setAuth(auth: TokenSource): void {
+    this.http.setAuth(auth);
+  }
+
+  /**
+   * Get a current authentication token
+   */
+  async getToken(): Promise<string | null> {
+    return this.http.getToken();
+  }
+
+  /**
+   * Add a request/response interceptor (logging, timing, custom headers, ...);
+   * returns a function that removes it
+   */
+  use(interceptor: HttpInterceptor): () => void {
+    return this.http.interceptors.use(interceptor);
+  }
+
+  /**
+   * Tune retries for matching methods/endpoints, e.g.
+   * `{ endpoint: '/chat/*', policy: { maxRetries: 1 } }`; returns a remover
+   */
+  addRetryRule(rule: RetryRule): () => void {
+    return this.http.addRetryRule(rule);
+  }
+
+  /**
+   * Listen for cache changes to an endpoint (refreshed or invalidated)
+   */
+  subscribe(endpoint: string, listener: CacheListener): () => void {
+    return this.http.cache.subscribe(endpoint, listener);
+  }
+
+  /**
+   * Drop cached responses for an endpoint; a trailing `*` matches by prefix
+   */
+  invalidate(pattern: string): void {
+    this.http.cache.invalidate(pattern);
+  }
+
+  /**
+   * Drop every cached response, e.g. on sign-out
+   */
+  clearCache(): void {
+    this.http.cache.clear();
+  }
+
+  /**
+   * Onboard a new user
+   * Initiates the onboarding process which runs asynchronously
+   */
+  async onboard(data: OnboardingData): Promise<ApiResponse<OnboardingResult>> {
+    try {
+      return await this.http.post<OnboardingResult>('/users/onboard', data, idempotent());
+    } finally {
+      this.invalidate('/users/profile');
+    }
+  }
+
+  /**
+   * Get the current user's profile
+   */
+  async getProfile(options: { revalidate?: boolean } = {}): Promise<ApiResponse<UserProfile>> {
+    return this.http.get<UserProfile>('/users/profile', { cachePolicy: PROFILE_CACHE, ...options });
+  }
+
+  /**
+   * Update the current user's profile. Changed birth details restart chart
+   * calculation; poll getProfile() until the status leaves `processing`.
+   */
+  async updateProfile(update: ProfileUpdate): Promise<ApiResponse<ProfileUpdateResult>> {
+    try {
+      return await this.http.put<ProfileUpdateResult>('/users/profile', update, idempotent());
+    } finally {
+      this.invalidate('/users/profile');
+    }
+  }
+
+  /**
+   * Verify that astrological data exists and is complete
+   * Used before transitioning to chat interface
+   */
+  async verifyAstroData(): Promise<{ exists: boolean; data?: UserProfile }> {
+    try {
+      const profile = await this.getProfile();
+
+      if (!profile.success || !profile.data) {
+        return { exists: false };
       }
-      onError?.(errorData);
-      return;
+
+      const userData = profile.data;
+
+      // Check if user has completed onboarding and has astrological data
+      if (userData.status === 'completed' && userData.astroProfile) {
+        return { exists: true, data: userData };
+      }
+
+      return { exists: false };
+    } catch (error) {
+      console.error('[AstroShivaAPI] Error verifying astro data:', error);
+      return { exists: false };
     }
+  }
 
-    if (!response.body) {
-      onError?.({ code: 'NO_BODY', message: 'Response body is null' });
-      return;
+  /**
+   * Send a chat message (non-streaming)
+   */
+  async sendMessage(
+    message: string,
+    sessionId?: string,
+    options: SendMessageOptions = {}
+  ): Promise<ApiResponse<SendMessageResult>> {
+    try {
+      return await this.http.post<SendMessageResult>('/chat/send', {
+        message,
+        sessionId,
+        history: sessionId ? undefined : options.history,
+      }, idempotent());
+    } finally {
+      this.invalidate('/chat/sessions*');
     }
+  }
 
-    onStart?.();
+  /**
+   * Get a page of chat sessions for the current user
+   */
+  async getChatSessions(
+    params: PaginationParams = {},
+    options: { revalidate?: boolean } = {}
+  ): Promise<ApiResponse<ChatSessionList>> {
+    const query = new URLSearchParams();
+    if (params.limit !== undefined) query.set('limit', String(params.limit));
+    if (params.offset !== undefined) query.set('offset', String(params.offset));
+    const qs = query.toString();
+
+    return this.http.get<ChatSessionList>(`/chat/sessions${qs ? `?${qs}` : ''}`, {
+      cachePolicy: SESSIONS_CACHE,
+      ...options,
+    });
+  }
+
+  /**
+   * Get a single chat session with its messages
+   */
+  async getChatSession(sessionId: string): Promise<ApiResponse<ChatSession>> {
+    return this.http.get<ChatSession>(`/chat/sessions/${encodeURIComponent(sessionId)}`, {
+      cachePolicy: SESSIONS_CACHE,
+    });
+  }
+
+  /**
+   * Stream a chat response using Server-Sent Events (SSE)
+   *
+   * This is the primary method for chat interactions, providing real-time
+   * streaming responses without WebSocket connections. If the connection
+   * drops after the server has sent an event id, it reconnects with
+   * `Last-Event-ID` so the same answer continues instead of restarting.
+   */
+  async streamChat(
+    message: string,
+    sessionId: string | undefined,
+    options: StreamChatOptions
+  ): Promise<void> {
+    const {
+      onMessage,
+      onMetadata,
+      onCitations,
+      onUsage,
+      onComplete,
+      onError,
+      onStart,
+      onStreamEvent,
+      onEvent,
+      signal,
+      maxReconnects = DEFAULT_STREAM_RECONNECTS,
+      history,
+    } = options;
 
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
     let fullResponse = '';
-    let buffer = '';
+    let finished = false;
+    let streamError: ApiError | null = null;
+    let retryDelay = DEFAULT_STREAM_RETRY_DELAY;
+    let connected = false;
+
+    const emit = (event: ChatStreamEvent) => {
+      // `done` is reported once, with the full text, after the stream ends
+      if (event.type === 'done') {
+        finished = true;
+        return;
+      }
 
-    try {
-      while (true) {
-        // Check if aborted
-        if (signal?.aborted) {
-          reader.cancel();
-          onError?.({ code: 'ABORTED', message: 'Request was aborted' });
-          return;
+      onStreamEvent?.(event);
+      switch (event.type) {
+        case 'text':
+          fullResponse += event.delta;
+          onMessage?.(event.delta);
+          break;
+        case 'metadata':
+          onMetadata?.({ sessionId: event.sessionId, messageId: event.messageId });
+          break;
+        case 'citations':
+          onCitations?.(event.citations);
+          break;
+        case 'usage':
+          onUsage?.(event.usage);
+          break;
+        case 'error':
+          finished = true;
+          streamError = event.error;
+          break;
+      }
+    };
+
+    const parser = new SSEParser({
+      onEvent: (event) => {
+        if (finished) return;
+        onEvent?.(event);
+        for (const chatEvent of toChatStreamEvents(event)) {
+          if (finished) break;
+          emit(chatEvent);
         }
+      },
+      onRetry: (delayMs) => {
+        retryDelay = delayMs;
+      },
+    });
 
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-
-        // Process SSE events
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || ''; // Keep incomplete line in buffer
-
-        for (const line of lines) {
-          const trimmed = line.trim();
-          if (trimmed.startsWith('data: ')) {
-            const data = trimmed.slice(6); // Remove 'data: ' prefix
-
-            // Handle SSE end marker
-            if (data === '[DONE]') {
-              onComplete?.(fullResponse);
-              return;
-            }
-
-            try {
-              // Try to parse as JSON (for structured SSE events)
-              const parsed = JSON.parse(data);
-              if (parsed.choices?.[0]?.delta?.content) {
-                const content = parsed.choices[0].delta.content;
-                fullResponse += content;
-                onMessage?.(content);
-              } else if (parsed.content) {
-                fullResponse += parsed.content;
-                onMessage?.(parsed.content);
-              }
-            } catch {
-              // Not JSON, treat as raw text
-              fullResponse += data;
-              onMessage?.(data);
-            }
+    for (let attempt = 0; ; attempt++) {
+      const resuming = attempt > 0;
+
+      try {
+        const request = this.http.createRequest('/chat/stream', {
+          method: 'POST',
+          headers: {
+            Accept: 'text/event-stream',
+            ...(resuming ? { 'Last-Event-ID': parser.lastEventId } : {}),
+          },
+          body: JSON.stringify({ message, sessionId, history: sessionId ? undefined : history }),
+          signal,
+        });
+        // No timeout: answers stream for as long as they take
+        const response = await this.http.send(request, 0);
+
+        if (!response.ok) {
+          let errorData: ApiError;
+          try {
+            const json = await response.json();
+            errorData = json.error || { code: 'UNKNOWN_ERROR', message: 'Unknown error' };
+          } catch {
+            errorData = {
+              code: 'HTTP_ERROR',
+              message: `HTTP ${response.status}: ${response.statusText}`,
+            };
           }
+          onError?.(errorData);
+          return;
         }
-      }
 
-      // Process any remaining buffer
-      if (buffer.trim()) {
-        const trimmed = buffer.trim();
-        if (trimmed.startsWith('data: ')) {
-          const data = trimmed.slice(6);
-          fullResponse += data;
-          onMessage?.(data);
+        if (!response.body) {
+          onError?.({ code: 'NO_BODY', message: 'Response body is null' });
+          return;
+        }
+
+        if (!connected) onStart?.();
+        connected = true;
+
+        await readSSEStream(response.body, parser);
+        break;
+      } catch (error) {
+        if (signal?.aborted || (error instanceof Error && error.name === 'AbortError')) {
+          onError?.({ code: 'ABORTED', message: 'Request was aborted' });
+          return;
+        }
+
+        // Without an event id the server cannot resume, so only retry then
+        if (!finished && parser.lastEventId && attempt < maxReconnects) {
+          console.warn(`[streamChat] Connection dropped, resuming from event ${parser.lastEventId}`);
+          parser.reset();
+          await new Promise((resolve) => setTimeout(resolve, retryDelay));
+          if (signal?.aborted) {
+            onError?.({ code: 'ABORTED', message: 'Request was aborted' });
+            return;
+          }
+          continue;
         }
-      }
 
-      onComplete?.(fullResponse);
-    } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
-        onError?.({ code: 'ABORTED', message: 'Request was aborted' });
-      } else {
         onError?.({
-          code: 'STREAM_ERROR',
+          code: connected ? 'STREAM_ERROR' : 'REQUEST_ERROR',
           message: error instanceof Error ? error.message : 'Stream reading failed',
         });
+        return;
       }
-    } finally {
-      reader.releaseLock();
-    }
-  } catch (error) {
-    if (error instanceof Error && error.name === 'AbortError') {
-      onError?.({ code: 'ABORTED', message: 'Request was aborted' });
-    } else {
-      onError?.({
-        code: 'REQUEST_ERROR',
-        message: error instanceof Error ? error.message : 'Request failed',
-      });
     }
-  }
-}
 
-/**
- * Check job status (for polling long-running operations)
- */
-export async function getJobStatus(jobId: string): Promise<ApiResponse<JobStatus>> {
-  return httpClient.get<JobStatus>(`/jobs/status?jobId=${encodeURIComponent(jobId)}`);
-}
+    // The exchange (or at least the question) is now part of the session
+    this.invalidate('/chat/sessions*');
 
-/**
- * Health check endpoint
- */
-export async function healthCheck(): Promise<ApiResponse<{ status: string; version: string }>> {
-  return httpClient.get<{ status: string; version: string }>('/health');
-}
+    if (streamError) {
+      onError?.(streamError);
+      return;
+    }
+    onStreamEvent?.({ type: 'done', fullResponse });
+    onComplete?.(fullResponse);
+  }
 
-// ============================================================================
-// Export HTTP Client for Advanced Use Cases
-// ============================================================================
+  /**
+   * Check job status (for polling long-running operations)
+   */
+  async getJobStatus(jobId: string): Promise<ApiResponse<JobStatus>> {
+    return this.http.get<JobStatus>(`/jobs/status?jobId=${encodeURIComponent(jobId)}`);
+  }
 
-export { httpClient as HttpClient };
+  /**
+   * Health check endpoint
+   */
+  async healthCheck(): Promise<ApiResponse<HealthStatus>> {
+    return this.http.get<HealthStatus>('/health');
+  }
 
-// ============================================================================
-// Default Export
-// ============================================================================
+  /**
+   * Prometheus metrics, returned as the raw exposition text
+   */
+  async getMetrics(): Promise<ApiResponse<string>> {
+    return this.http.get<string>('/metrics', { responseType: 'text' });
+  }
+}
 
-export default {
-  setAuthToken,
-  getAuthToken,
-  onboard,
-  getProfile,
-  sendMessage,
-  getChatSessions,
-  streamChat,
-  getJobStatus,
-  healthCheck,
-};
+export default AstroShivaAPI;
@@ -0,0 +1,139 @@
+/**
+ * HTTP Errors
+ *
+ * Error hierarchy thrown by HttpClient. Every error is an HttpApiError
+ * carrying the server's error code and HTTP status (0 for network
+ * failures); subclasses let callers branch with `instanceof` instead of
+ * comparing status codes.
+ */
+
+// ============================================================================
+// Base Error
+// ============================================================================
+
+export class HttpApiError extends Error {
+  readonly code: string;
+  readonly statusCode: number;
+  readonly details?: Record<string, unknown>;
+  /** From the response's `Retry-After` header, in ms */
+  retryAfter?: number;
+
+  constructor(
+    message: string,
+    code: string,
+    statusCode: number = 500,
+    details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'HttpApiError';
+    this.code = code;
+    this.statusCode = statusCode;
+    this.details = details;
+    // new.target keeps subclasses' prototypes intact
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+// ============================================================================
+// Transport Errors
+// ============================================================================
+
+export class NetworkError extends HttpApiError {
+  constructor(message: string = 'Network request failed') {
+    super(message, 'NETWORK_ERROR', 0);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends HttpApiError {
+  constructor(message: string = 'Request timed out') {
+    super(message, 'TIMEOUT_ERROR', 408);
+    this.name = 'TimeoutError';
+  }
+}
+
+// ============================================================================
+// Status Errors
+// ============================================================================
+
+export class AuthenticationError extends HttpApiError {
+  constructor(
+    message: string = 'Authentication failed',
+    code: string = 'AUTHENTICATION_ERROR',
+    details?: Record<string, unknown>
+  ) {
+    super(message, code, 401, details);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class ForbiddenError extends HttpApiError {
+  constructor(
+    message: string = 'Access denied',
+    code: string = 'FORBIDDEN',
+    details?: Record<string, unknown>
+  ) {
+    super(message, code, 403, details);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends HttpApiError {
+  constructor(
+    message: string = 'Resource not found',
+    code: string = 'NOT_FOUND',
+    details?: Record<string, unknown>
+  ) {
+    super(message, code, 404, details);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class RateLimitError extends HttpApiError {
+  constructor(
+    message: string = 'Too many requests',
+    code: string = 'RATE_LIMITED',
+    details?: Record<string, unknown>
+  ) {
+    super(message, code, 429, details);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class ServerError extends HttpApiError {
+  constructor(
+    message: string = 'Server error',
+    code: string = 'SERVER_ERROR',
+    statusCode: number = 500,
+    details?: Record<string, unknown>
+  ) {
+    super(message, code, statusCode, details);
+    this.name = 'ServerError';
+  }
+}
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+/**
+ * Narrow a plain HttpApiError to the subclass for its status. Errors that
+ * are already specific (or not HTTP errors at all) are returned as is.
+ */
+export function toSpecificHttpError(error: Error): Error {
+  if (!(error instanceof HttpApiError) || Object.getPrototypeOf(error) !== HttpApiError.prototype) {
+    return error;
+  }
+
+  const { message, code, statusCode, details } = error;
+  let mapped: HttpApiError;
+  if (statusCode === 401) mapped = new AuthenticationError(message, code, details);
+  else if (statusCode === 403) mapped = new ForbiddenError(message, code, details);
+  else if (statusCode === 404) mapped = new NotFoundError(message, code, details);
+  else if (statusCode === 429) mapped = new RateLimitError(message, code, details);
+  else if (statusCode >= 500) mapped = new ServerError(message, code, statusCode, details);
+  else return error;
+
+  mapped.retryAfter = error.retryAfter;
+  return mapped;
+}
@@ -0,0 +1,257 @@
+/**
+ * HTTP Interceptors
+ *
+ * Middleware chain for HttpClient. Each interceptor may hook three stages,
+ * all run in registration order:
+ * - onRequest: before every attempt, to adjust headers, url or metadata
+ * - onResponse: on the raw Response, with `replay` to send the request again
+ * - onError: on transport and HTTP errors, to log or map them
+ *
+ * Built-ins cover auth headers with refresh on 401, request ids, timing,
+ * logging and mapping errors to HttpApiError subclasses.
+ */
+
+import { toSpecificHttpError } from './httpErrors';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export interface HttpRequest {
+  method: string;
+  /** Path relative to the client's base URL, including the query */
+  endpoint: string;
+  url: string;
+  headers: Record<string, string>;
+  /** Everything else passed to fetch (body, signal, credentials, ...) */
+  init: Omit<RequestInit, 'method' | 'headers'>;
+  /** 0 for the first attempt, incremented by retries */
+  attempt: number;
+  /** Scratch space shared by interceptors across the attempts of one request */
+  meta: Record<string, unknown>;
+}
+
+/** Send a (modified) request through the whole pipeline again */
+export type ReplayRequest = (request: HttpRequest) => Promise<Response>;
+
+export interface HttpInterceptor {
+  /** Shown in logs; also lets apps find and replace built-ins */
+  name: string;
+  /** Return a new request, or mutate this one and return nothing */
+  onRequest?: (request: HttpRequest) => HttpRequest | void | Promise<HttpRequest | void>;
+  /** Return a replacement response, or nothing to keep this one */
+  onResponse?: (
+    response: Response,
+    request: HttpRequest,
+    replay: ReplayRequest
+  ) => Response | void | Promise<Response | void>;
+  /** Return a replacement error, or nothing to keep this one */
+  onError?: (error: Error, request: HttpRequest) => Error | void | Promise<Error | void>;
+}
+
+export interface RequestTiming {
+  method: string;
+  endpoint: string;
+  /** HTTP status, or 0 when no response arrived */
+  status: number;
+  durationMs: number;
+  attempt: number;
+}
+
+export interface Logger {
+  debug: (...args: unknown[]) => void;
+  warn: (...args: unknown[]) => void;
+}
+
+/** Anything that can hand out a token, optionally a forcibly refreshed one */
+export type TokenGetter = (options?: { forceRefresh?: boolean }) => Promise<string | null>;
+
+// ============================================================================
+// Interceptor Chain
+// ============================================================================
+
+export class InterceptorChain {
+  private interceptors: HttpInterceptor[] = [];
+
+  /**
+   * Register an interceptor; returns a function that removes it
+   */
+  use(interceptor: HttpInterceptor): () => void {
+    this.interceptors.push(interceptor);
+    return () => {
+      this.interceptors = this.interceptors.filter((entry) => entry !== interceptor);
+    };
+  }
+
+  /**
+   * Remove every interceptor with this name (e.g. to replace a built-in)
+   */
+  remove(name: string): void {
+    this.interceptors = this.interceptors.filter((entry) => entry.name !== name);
+  }
+
+  list(): readonly HttpInterceptor[] {
+    return this.interceptors;
+  }
+
+  async runRequest(request: HttpRequest): Promise<HttpRequest> {
+    let current = request;
+    for (const interceptor of this.interceptors) {
+      if (interceptor.onRequest) current = (await interceptor.onRequest(current)) ?? current;
+    }
+    return current;
+  }
+
+  async runResponse(response: Response, request: HttpRequest, replay: ReplayRequest): Promise<Response> {
+    let current = response;
+    for (const interceptor of this.interceptors) {
+      if (interceptor.onResponse) current = (await interceptor.onResponse(current, request, replay)) ?? current;
+    }
+    return current;
+  }
+
+  async runError(error: Error, request: HttpRequest): Promise<Error> {
+    let current = error;
+    for (const interceptor of this.interceptors) {
+      if (!interceptor.onError) continue;
+      try {
+        current = (await interceptor.onError(current, request)) ?? current;
+      } catch (thrown) {
+        // An interceptor that throws is treated as mapping the error
+        current = thrown instanceof Error ? thrown : new Error(String(thrown));
+      }
+    }
+    return current;
+  }
+}
+
+// ============================================================================
+// Built-in Interceptors
+// ============================================================================
+
+const AUTH_RETRIED = 'authRetried';
+
+/**
+ * Authorization (and X-Guest-ID for the guest backend) on every request.
+ * A 401 forces a token refresh and replays the request once, provided the
+ * refresh produced a different token.
+ */
+export function authInterceptor(getToken: TokenGetter): HttpInterceptor {
+  return {
+    name: 'auth',
+    async onRequest(request) {
+      const token = await getToken();
+      if (token) {
+        request.headers['Authorization'] = `Bearer ${token}`;
+        request.headers['X-Guest-ID'] = token; // Send token as guest ID for backend auth
+      }
+    },
+    async onResponse(response, request, replay) {
+      if (response.status !== 401 || request.meta[AUTH_RETRIED]) return;
+
+      const previous = request.headers['Authorization'];
+      let fresh: string | null;
+      try {
+        fresh = await getToken({ forceRefresh: true });
+      } catch (error) {
+        console.warn('[auth interceptor] Token refresh failed:', error);
+        return;
+      }
+      if (!fresh || `Bearer ${fresh}` === previous) return;
+
+      return replay({ ...request, meta: { ...request.meta, [AUTH_RETRIED]: true } });
+    },
+  };
+}
+
+/**
+ * Tags each request with an X-Request-ID, kept across retries so the server
+ * can correlate them. A caller-supplied header wins.
+ */
+export function requestIdInterceptor(header: string = 'X-Request-ID'): HttpInterceptor {
+  return {
+    name: 'request-id',
+    onRequest(request) {
+      const existing = request.meta.requestId;
+      const id = request.headers[header] ?? (typeof existing === 'string' ? existing : createRequestId());
+      request.headers[header] = id;
+      request.meta.requestId = id;
+    },
+  };
+}
+
+/**
+ * Measures each attempt from request to response headers (or failure)
+ */
+export function timingInterceptor(onTiming: (timing: RequestTiming) => void): HttpInterceptor {
+  const report = (request: HttpRequest, status: number) => {
+    const startedAt = request.meta.startedAt;
+    if (typeof startedAt !== 'number') return;
+    // Reported once per attempt: an HTTP error also reaches onError
+    delete request.meta.startedAt;
+    onTiming({
+      method: request.method,
+      endpoint: request.endpoint,
+      status,
+      durationMs: Math.round(performance.now() - startedAt),
+      attempt: request.attempt,
+    });
+  };
+
+  return {
+    name: 'timing',
+    onRequest(request) {
+      request.meta.startedAt = performance.now();
+    },
+    onResponse(response, request) {
+      report(request, response.status);
+    },
+    onError(error, request) {
+      report(request, 0);
+      return error;
+    },
+  };
+}
+
+/**
+ * Logs requests, responses and errors (debug level; failures as warnings)
+ */
+export function loggingInterceptor(logger: Logger = console): HttpInterceptor {
+  const label = (request: HttpRequest) =>
+    `${request.method} ${request.endpoint}${request.attempt > 0 ? ` (retry ${request.attempt})` : ''}`;
+
+  return {
+    name: 'logging',
+    onRequest(request) {
+      logger.debug(`[HttpClient] → ${label(request)}`);
+    },
+    onResponse(response, request) {
+      logger.debug(`[HttpClient] ← ${response.status} ${label(request)}`);
+    },
+    onError(error, request) {
+      logger.warn(`[HttpClient] ✕ ${label(request)}: ${error.message}`);
+    },
+  };
+}
+
+/**
+ * Turns generic HttpApiErrors into AuthenticationError, NotFoundError,
+ * RateLimitError, ServerError, ... based on the status code
+ */
+export function errorMappingInterceptor(): HttpInterceptor {
+  return {
+    name: 'error-mapping',
+    onError: (error) => toSpecificHttpError(error),
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function createRequestId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -0,0 +1,168 @@
+/**
+ * Response Cache
+ *
+ * In-memory store behind HttpClient's GET caching:
+ * - Entries keyed per endpoint and per auth token
+ * - Fresh for `ttl`, then served stale while revalidating until `staleWhileRevalidate`
+ * - Endpoint-level invalidation (exact or prefix) after mutations
+ * - Per-endpoint subscriptions so React hooks re-read on change
+ */
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export interface CachePolicy<T = unknown> {
+  /** How long a response is served without revalidating, in ms */
+  ttl: number;
+  /** Extra time a stale response is still served while it revalidates, in ms (default: 0) */
+  staleWhileRevalidate?: number;
+  /** Only store responses this accepts (default: successful ones) */
+  shouldCache?: (data: T) => boolean;
+}
+
+export interface CacheEntry<T = unknown> {
+  data: T;
+  endpoint: string;
+  storedAt: number;
+  freshUntil: number;
+  staleUntil: number;
+}
+
+export type CacheLookup<T> =
+  | { state: 'fresh'; entry: CacheEntry<T> }
+  | { state: 'stale'; entry: CacheEntry<T> }
+  | { state: 'miss' };
+
+export type CacheListener = (endpoint: string) => void;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Short, non-reversible fingerprint so raw tokens never become map keys
+ * (FNV-1a)
+ */
+export function fingerprint(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Path without the query string, used for invalidation and subscriptions
+ */
+export function endpointPath(endpoint: string): string {
+  const query = endpoint.indexOf('?');
+  return query === -1 ? endpoint : endpoint.slice(0, query);
+}
+
+// ============================================================================
+// Response Cache
+// ============================================================================
+
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private listeners = new Map<string, Set<CacheListener>>();
+
+  /**
+   * Key for an endpoint (including its query) as seen by a given token
+   */
+  key(endpoint: string, token: string | null): string {
+    return `${token ? fingerprint(token) : 'anon'} ${endpoint}`;
+  }
+
+  lookup<T>(key: string, now: number = Date.now()): CacheLookup<T> {
+    const entry = this.entries.get(key) as CacheEntry<T> | undefined;
+    if (!entry) return { state: 'miss' };
+
+    if (now < entry.freshUntil) return { state: 'fresh', entry };
+    if (now < entry.staleUntil) return { state: 'stale', entry };
+
+    this.entries.delete(key);
+    return { state: 'miss' };
+  }
+
+  set<T>(key: string, endpoint: string, data: T, policy: CachePolicy<T>, now: number = Date.now()): void {
+    if (policy.shouldCache && !policy.shouldCache(data)) {
+      // A response that must not be cached also supersedes an older one
+      if (this.entries.delete(key)) this.notify(endpoint);
+      return;
+    }
+
+    const freshUntil = now + policy.ttl;
+    this.entries.set(key, {
+      data,
+      endpoint,
+      storedAt: now,
+      freshUntil,
+      staleUntil: freshUntil + (policy.staleWhileRevalidate ?? 0),
+    });
+    this.notify(endpoint);
+  }
+
+  /**
+   * Drop entries for an endpoint across all tokens and queries. A trailing
+   * `*` matches by prefix, e.g. `/chat/sessions*`.
+   */
+  invalidate(pattern: string): void {
+    const prefix = pattern.endsWith('*') ? pattern.slice(0, -1) : null;
+    const touched = new Set<string>();
+
+    for (const [key, entry] of this.entries) {
+      const path = endpointPath(entry.endpoint);
+      if (prefix !== null ? path.startsWith(prefix) : path === pattern) {
+        this.entries.delete(key);
+        touched.add(entry.endpoint);
+      }
+    }
+
+    // Subscribers are told even when nothing was cached, so mounted views
+    // refetch after a mutation they could not have cached yet
+    if (prefix === null) touched.add(pattern);
+    for (const endpoint of touched) this.notify(endpoint);
+    if (prefix !== null) this.notifyPrefix(prefix, touched);
+  }
+
+  clear(): void {
+    const endpoints = new Set(Array.from(this.entries.values(), (entry) => entry.endpoint));
+    this.entries.clear();
+    for (const endpoint of endpoints) this.notify(endpoint);
+  }
+
+  /**
+   * Listen for changes to an endpoint path (query strings ignored)
+   */
+  subscribe(endpoint: string, listener: CacheListener): () => void {
+    const path = endpointPath(endpoint);
+    let set = this.listeners.get(path);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(path, set);
+    }
+    set.add(listener);
+
+    return () => {
+      set.delete(listener);
+      if (set.size === 0) this.listeners.delete(path);
+    };
+  }
+
+  private notify(endpoint: string): void {
+    const path = endpointPath(endpoint);
+    this.listeners.get(path)?.forEach((listener) => listener(endpoint));
+  }
+
+  private notifyPrefix(prefix: string, alreadyNotified: Set<string>): void {
+    const notifiedPaths = new Set(Array.from(alreadyNotified, endpointPath));
+    for (const [path, set] of this.listeners) {
+      if (path.startsWith(prefix) && !notifiedPaths.has(path)) {
+        set.forEach((listener) => listener(path));
+      }
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_RETRY_POLICY,
+  IDEMPOTENCY_KEY_HEADER,
+  backoffDelay,
+  isRetrySafe,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  retryDelayFor,
+  type RetryPolicy,
+  type RetryRule,
+} from './retryPolicy';
+import { HttpApiError, NetworkError, TimeoutError } from './httpErrors';
+
+const RETRY_EVERYTHING: RetryRule[] = [{ policy: { maxRetries: 5 } }];
+
+function statusError(status: number, retryAfter?: number): HttpApiError {
+  const error = new HttpApiError(`HTTP ${status}`, 'HTTP_ERROR', status);
+  error.retryAfter = retryAfter;
+  return error;
+}
+
+describe('resolveRetryPolicy', () => {
+  it('starts from the default policy', () => {
+    expect(resolveRetryPolicy('GET', '/users/profile', {})).toEqual(DEFAULT_RETRY_POLICY);
+  });
+
+  it('never retries a POST without an idempotency key, whatever the rules say', () => {
+    const policy = resolveRetryPolicy('POST', '/chat/send', {}, RETRY_EVERYTHING, { maxRetries: 9 });
+    expect(policy.maxRetries).toBe(0);
+  });
+
+  it('retries writes that carry an idempotency key', () => {
+    const headers = { [IDEMPOTENCY_KEY_HEADER]: 'key-1' };
+    expect(resolveRetryPolicy('POST', '/chat/send', headers, RETRY_EVERYTHING).maxRetries).toBe(5);
+    expect(resolveRetryPolicy('PUT', '/users/profile', { 'idempotency-key': 'key-2' }).maxRetries).toBe(3);
+    expect(resolveRetryPolicy('DELETE', '/chat/sessions/1', { [IDEMPOTENCY_KEY_HEADER]: '' }).maxRetries).toBe(0);
+  });
+
+  it('matches rules by method and by exact or prefix endpoint, ignoring the query string', () => {
+    const rules: RetryRule[] = [
+      { endpoint: '/chat/*', policy: { maxRetries: 1 } },
+      { endpoint: '/users/profile', policy: { maxRetries: 2 } },
+      { methods: ['post'], endpoint: '/chat/*', policy: { baseDelay: 50 } },
+    ];
+    expect(resolveRetryPolicy('GET', '/chat/sessions?limit=20', {}, rules).maxRetries).toBe(1);
+    expect(resolveRetryPolicy('GET', '/users/profile?fields=all', {}, rules).maxRetries).toBe(2);
+    expect(resolveRetryPolicy('GET', '/users/profile/photo', {}, rules).maxRetries).toBe(3);
+    expect(resolveRetryPolicy('GET', '/chat/sessions', {}, rules).baseDelay).toBe(DEFAULT_RETRY_POLICY.baseDelay);
+  });
+
+  it('lets later rules and then overrides win', () => {
+    const rules: RetryRule[] = [{ policy: { maxRetries: 1, jitter: 0 } }, { policy: { maxRetries: 2 } }];
+    const policy = resolveRetryPolicy('GET', '/health', {}, rules, { maxRetries: 4 });
+    expect(policy).toMatchObject({ maxRetries: 4, jitter: 0 });
+  });
+});
+
+describe('isRetrySafe', () => {
+  it('treats reads as safe and writes only with a key', () => {
+    expect(isRetrySafe('get', {})).toBe(true);
+    expect(isRetrySafe('HEAD', {})).toBe(true);
+    expect(isRetrySafe('POST', {})).toBe(false);
+    expect(isRetrySafe('POST', { 'IDEMPOTENCY-KEY': 'abc' })).toBe(true);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2024-05-01T12:00:00Z');
+
+  it('reads a delay in seconds', () => {
+    expect(parseRetryAfter('120', now)).toBe(120000);
+    expect(parseRetryAfter(' 0 ', now)).toBe(0);
+  });
+
+  it('reads an HTTP date relative to now, never negative', () => {
+    expect(parseRetryAfter('Wed, 01 May 2024 12:00:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter('Wed, 01 May 2024 11:00:00 GMT', now)).toBe(0);
+  });
+
+  it('ignores missing and malformed values', () => {
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+    expect(parseRetryAfter('', now)).toBeUndefined();
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter('-5', now)).toBeUndefined();
+  });
+});
+
+describe('backoffDelay', () => {
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, baseDelay: 1000, maxDelay: 10000, jitter: 0.5 };
+
+  it('doubles per attempt up to the maximum', () => {
+    const noJitter = { ...policy, jitter: 0 };
+    expect([1, 2, 3, 4, 5].map((attempt) => backoffDelay(noJitter, attempt))).toEqual([1000, 2000, 4000, 8000, 10000]);
+  });
+
+  it('keeps jitter within its fraction of the delay', () => {
+    expect(backoffDelay(policy, 2, () => 0)).toBe(1000);
+    expect(backoffDelay(policy, 2, () => 0.5)).toBe(1500);
+    expect(backoffDelay(policy, 2, () => 0.999999)).toBeLessThanOrEqual(2000);
+  });
+
+  it('clamps jitter outside 0-1', () => {
+    expect(backoffDelay({ ...policy, jitter: 3 }, 1, () => 0)).toBe(0);
+    expect(backoffDelay({ ...policy, jitter: -1 }, 1, () => 0.9)).toBe(1000);
+  });
+});
+
+describe('retryDelayFor', () => {
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, jitter: 0 };
+
+  it('retries the listed statuses, timeouts and network errors with backoff', () => {
+    expect(retryDelayFor(statusError(503), policy, 1)).toBe(1000);
+    expect(retryDelayFor(new TimeoutError(), policy, 2)).toBe(2000);
+    expect(retryDelayFor(new NetworkError(), policy, 3)).toBe(4000);
+  });
+
+  it('gives up on other statuses, other errors and after maxRetries', () => {
+    expect(retryDelayFor(statusError(400), policy, 1)).toBeNull();
+    expect(retryDelayFor(statusError(401), policy, 1)).toBeNull();
+    expect(retryDelayFor(new Error('boom'), policy, 1)).toBeNull();
+    expect(retryDelayFor(statusError(503), policy, policy.maxRetries + 1)).toBeNull();
+    expect(retryDelayFor(new NetworkError(), { ...policy, retryNetworkErrors: false }, 1)).toBeNull();
+  });
+
+  it('waits as long as Retry-After asks, up to maxRetryAfter', () => {
+    expect(retryDelayFor(statusError(429, 5000), policy, 1)).toBe(5000);
+    expect(retryDelayFor(statusError(503, policy.maxRetryAfter), policy, 1)).toBe(policy.maxRetryAfter);
+    expect(retryDelayFor(statusError(429, policy.maxRetryAfter + 1), policy, 1)).toBeNull();
+  });
+});
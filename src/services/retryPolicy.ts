@@ -0,0 +1,161 @@
+/**
+ * Retry Policy
+ *
+ * Decides whether and when HttpClient retries a failed request:
+ * - Policies per method and endpoint, resolved from an ordered rule list
+ * - Exponential backoff with jitter so clients don't retry in lockstep
+ * - `Retry-After` (seconds or HTTP date) honored, for 429 and 503 alike
+ * - Mutating requests retried only with an `Idempotency-Key` header, so
+ *   the server can recognize a repeat instead of acting twice
+ */
+
+import { HttpApiError } from './httpErrors';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export interface RetryPolicy {
+  /** Retries after the first attempt (0 disables retrying) */
+  maxRetries: number;
+  /** Backoff before the first retry, doubled each time, in ms */
+  baseDelay: number;
+  /** Upper bound for a backoff delay, in ms */
+  maxDelay: number;
+  /** Fraction of each backoff delay that is randomized, 0-1 */
+  jitter: number;
+  /** HTTP statuses worth retrying; a client-side timeout counts as 408 */
+  retryOn: readonly number[];
+  /** Retry when no response arrived at all (offline, DNS, reset) */
+  retryNetworkErrors: boolean;
+  /** Longest `Retry-After` worth waiting for; longer ones fail immediately, in ms */
+  maxRetryAfter: number;
+}
+
+export interface RetryRule {
+  /** Methods this rule applies to (default: all) */
+  methods?: readonly string[];
+  /** Endpoint path, exact or with a trailing `*` for a prefix (default: all) */
+  endpoint?: string;
+  policy: Partial<RetryPolicy>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelay: 1000,
+  maxDelay: 10000,
+  jitter: 0.5,
+  retryOn: [408, 429, 500, 502, 503, 504],
+  retryNetworkErrors: true,
+  maxRetryAfter: 60000,
+};
+
+// ============================================================================
+// Policy Resolution
+// ============================================================================
+
+/**
+ * A new key for one logical write; reuse it for every retry of that write
+ */
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`;
+}
+
+function matchesEndpoint(pattern: string, endpoint: string): boolean {
+  const query = endpoint.indexOf('?');
+  const path = query === -1 ? endpoint : endpoint.slice(0, query);
+  return pattern.endsWith('*') ? path.startsWith(pattern.slice(0, -1)) : path === pattern;
+}
+
+/**
+ * Whether repeating this request is safe: a read, or a write the server
+ * can deduplicate by its idempotency key
+ */
+export function isRetrySafe(method: string, headers: Record<string, string>): boolean {
+  if (SAFE_METHODS.has(method.toUpperCase())) return true;
+  const keyHeader = IDEMPOTENCY_KEY_HEADER.toLowerCase();
+  return Object.keys(headers).some((name) => name.toLowerCase() === keyHeader && headers[name] !== '');
+}
+
+/**
+ * Merge the default policy with every matching rule, later rules winning.
+ * Requests that are not retry-safe never retry, whatever the rules say.
+ */
+export function resolveRetryPolicy(
+  method: string,
+  endpoint: string,
+  headers: Record<string, string>,
+  rules: readonly RetryRule[] = [],
+  overrides: Partial<RetryPolicy> = {}
+): RetryPolicy {
+  const upper = method.toUpperCase();
+  let policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
+
+  for (const rule of rules) {
+    if (rule.methods && !rule.methods.some((m) => m.toUpperCase() === upper)) continue;
+    if (rule.endpoint && !matchesEndpoint(rule.endpoint, endpoint)) continue;
+    policy = { ...policy, ...rule.policy };
+  }
+  policy = { ...policy, ...overrides };
+
+  if (!isRetrySafe(upper, headers)) policy.maxRetries = 0;
+  return policy;
+}
+
+// ============================================================================
+// Delays
+// ============================================================================
+
+/**
+ * Parse a `Retry-After` value (delay in seconds, or an HTTP date) into ms
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+
+  // An HTTP date names its day and month; Date.parse would read "-5" as a year
+  if (!/[a-z]/i.test(trimmed)) return undefined;
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff for a retry (attempt 1 = first retry), the last
+ * `jitter` fraction of it randomized
+ */
+export function backoffDelay(policy: RetryPolicy, attempt: number, random: () => number = Math.random): number {
+  const exponential = Math.min(policy.baseDelay * Math.pow(2, attempt - 1), policy.maxDelay);
+  const jitter = Math.min(Math.max(policy.jitter, 0), 1);
+  return Math.round(exponential * (1 - jitter) + exponential * jitter * random());
+}
+
+/**
+ * How long to wait before retrying after this error, or null to give up.
+ * `attempt` is the retry about to be made (1 = first retry).
+ */
+export function retryDelayFor(error: Error, policy: RetryPolicy, attempt: number): number | null {
+  if (attempt > policy.maxRetries) return null;
+  if (!(error instanceof HttpApiError)) return null;
+
+  const retryable = error.statusCode === 0 ? policy.retryNetworkErrors : policy.retryOn.includes(error.statusCode);
+  if (!retryable) return null;
+
+  if (error.retryAfter !== undefined) {
+    return error.retryAfter <= policy.maxRetryAfter ? error.retryAfter : null;
+  }
+  return backoffDelay(policy, attempt);
+}
@@ -0,0 +1,316 @@
+/**
+ * Transcript Store
+ *
+ * Local copies of chat conversations so a reload picks up where the user
+ * left off:
+ * - One transcript per user and session; a new conversation is kept as a
+ *   draft until the server assigns its session id
+ * - IndexedDB, falling back to localStorage where IndexedDB is unavailable
+ *   or stops working
+ * - The conversation last on screen is remembered per user, with the id
+ *   of the draft it started as (queued messages refer to it)
+ * - Reconciliation against the server copy of a session
+ */
+
+import { isIndexedDBAvailable, withStore } from '@/lib/idb';
+import type { ChatCitation, ChatMessage, ChatUsage } from './httpApi';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export interface StoredMessage {
+  id?: string;
+  role: 'user' | 'assistant';
+  content: string;
+  /** Epoch ms */
+  timestamp?: number;
+  citations?: ChatCitation[];
+  usage?: ChatUsage;
+  /** Shown on this device only (welcome, error notices); never on the server */
+  local?: boolean;
+}
+
+export interface Transcript {
+  /** `${ownerId}:${sessionId}`, or `${ownerId}:draft` */
+  key: string;
+  ownerId: string;
+  sessionId: string | null;
+  messages: StoredMessage[];
+  updatedAt: number;
+}
+
+interface TranscriptBackend {
+  get(key: string): Promise<Transcript | null>;
+  put(transcript: Transcript): Promise<void>;
+  delete(key: string): Promise<void>;
+  listByOwner(ownerId: string): Promise<Transcript[]>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DRAFT_KEY = 'draft';
+const LOCAL_PREFIX = 'astroTranscript:';
+const ACTIVE_PREFIX = 'astroActiveSession:';
+const DRAFT_ID_PREFIX = 'astroDraftId:';
+
+// ============================================================================
+// Backends
+// ============================================================================
+
+class IndexedDBTranscriptBackend implements TranscriptBackend {
+  async get(key: string): Promise<Transcript | null> {
+    const transcript = await withStore('transcripts', 'readonly', (store) =>
+      store.get(key) as IDBRequest<Transcript | undefined>
+    );
+    return transcript ?? null;
+  }
+
+  async put(transcript: Transcript): Promise<void> {
+    await withStore('transcripts', 'readwrite', (store) => store.put(transcript));
+  }
+
+  async delete(key: string): Promise<void> {
+    await withStore('transcripts', 'readwrite', (store) => store.delete(key));
+  }
+
+  async listByOwner(ownerId: string): Promise<Transcript[]> {
+    return withStore('transcripts', 'readonly', (store) =>
+      store.index('ownerId').getAll(IDBKeyRange.only(ownerId)) as IDBRequest<Transcript[]>
+    );
+  }
+}
+
+class LocalStorageTranscriptBackend implements TranscriptBackend {
+  async get(key: string): Promise<Transcript | null> {
+    const raw = localStorage.getItem(LOCAL_PREFIX + key);
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw) as Transcript;
+    } catch {
+      localStorage.removeItem(LOCAL_PREFIX + key);
+      return null;
+    }
+  }
+
+  async put(transcript: Transcript): Promise<void> {
+    const value = JSON.stringify(transcript);
+    try {
+      localStorage.setItem(LOCAL_PREFIX + transcript.key, value);
+    } catch (error) {
+      // Out of quota: make room by dropping this user's oldest transcript, once
+      const oldest = (await this.listByOwner(transcript.ownerId))
+        .filter((candidate) => candidate.key !== transcript.key)
+        .sort((a, b) => a.updatedAt - b.updatedAt)[0];
+      if (!oldest) throw error;
+      localStorage.removeItem(LOCAL_PREFIX + oldest.key);
+      localStorage.setItem(LOCAL_PREFIX + transcript.key, value);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    localStorage.removeItem(LOCAL_PREFIX + key);
+  }
+
+  async listByOwner(ownerId: string): Promise<Transcript[]> {
+    const transcripts: Transcript[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const storageKey = localStorage.key(i);
+      if (!storageKey?.startsWith(`${LOCAL_PREFIX}${ownerId}:`)) continue;
+      const transcript = await this.get(storageKey.slice(LOCAL_PREFIX.length));
+      if (transcript) transcripts.push(transcript);
+    }
+    return transcripts;
+  }
+}
+
+/**
+ * IndexedDB until it fails (open rejected in private mode, quota, blocked
+ * upgrade), then localStorage for the rest of the page's life
+ */
+class FallbackTranscriptBackend implements TranscriptBackend {
+  private primary: TranscriptBackend;
+  private fallback: TranscriptBackend | null = null;
+
+  constructor(primary: TranscriptBackend) {
+    this.primary = primary;
+  }
+
+  private async run<T>(operation: (backend: TranscriptBackend) => Promise<T>): Promise<T> {
+    if (!this.fallback) {
+      try {
+        return await operation(this.primary);
+      } catch (error) {
+        console.warn('[TranscriptStore] IndexedDB failed, using localStorage:', error);
+        this.fallback = new LocalStorageTranscriptBackend();
+      }
+    }
+    return operation(this.fallback);
+  }
+
+  get(key: string): Promise<Transcript | null> {
+    return this.run((backend) => backend.get(key));
+  }
+
+  put(transcript: Transcript): Promise<void> {
+    return this.run((backend) => backend.put(transcript));
+  }
+
+  delete(key: string): Promise<void> {
+    return this.run((backend) => backend.delete(key));
+  }
+
+  listByOwner(ownerId: string): Promise<Transcript[]> {
+    return this.run((backend) => backend.listByOwner(ownerId));
+  }
+}
+
+let sharedBackend: TranscriptBackend | null = null;
+
+function getBackend(): TranscriptBackend {
+  if (!sharedBackend) {
+    sharedBackend = isIndexedDBAvailable()
+      ? new FallbackTranscriptBackend(new IndexedDBTranscriptBackend())
+      : new LocalStorageTranscriptBackend();
+  }
+  return sharedBackend;
+}
+
+// ============================================================================
+// Reconciliation
+// ============================================================================
+
+/**
+ * Merge the server copy of a session into the local one. The server wins
+ * once it has at least as many messages as were sent to it; local-only
+ * details (ids, citations, usage) are carried over to matching messages.
+ * A shorter server copy means it hasn't caught up yet, so the local one is
+ * kept.
+ */
+export function reconcileTranscript(local: StoredMessage[], server: ChatMessage[]): StoredMessage[] {
+  const sent = local.filter((message) => !message.local);
+  if (server.length < sent.length) return local;
+
+  return server.map((message, index) => {
+    const counterpart = sent[index];
+    const matches = counterpart && counterpart.role === message.role && counterpart.content === message.content;
+    return {
+      ...(matches ? counterpart : {}),
+      role: message.role,
+      content: message.content,
+      timestamp: message.timestamp ?? (matches ? counterpart.timestamp : undefined),
+    };
+  });
+}
+
+// ============================================================================
+// Transcript Store
+// ============================================================================
+
+export class TranscriptStore {
+  private readonly ownerId: string;
+  private readonly backend: TranscriptBackend;
+
+  constructor(ownerId: string, backend: TranscriptBackend = getBackend()) {
+    this.ownerId = ownerId;
+    this.backend = backend;
+  }
+
+  private key(sessionId: string | null): string {
+    return `${this.ownerId}:${sessionId ?? DRAFT_KEY}`;
+  }
+
+  async load(sessionId: string | null): Promise<Transcript | null> {
+    return this.backend.get(this.key(sessionId));
+  }
+
+  /**
+   * Save a conversation. Saving under a session id retires the draft, which
+   * was this same conversation before the server named it.
+   */
+  async save(sessionId: string | null, messages: StoredMessage[]): Promise<void> {
+    await this.backend.put({
+      key: this.key(sessionId),
+      ownerId: this.ownerId,
+      sessionId,
+      messages,
+      updatedAt: Date.now(),
+    });
+    if (sessionId !== null) await this.backend.delete(this.key(null));
+  }
+
+  /**
+   * Drop the unsaved-on-server conversation, e.g. when starting a new one
+   */
+  async discardDraft(): Promise<void> {
+    await this.backend.delete(this.key(null));
+  }
+
+  /**
+   * The conversation that was on screen last, if it was saved
+   */
+  async loadActive(): Promise<Transcript | null> {
+    const active = this.getActiveSessionId();
+    return active === undefined ? null : this.load(active);
+  }
+
+  /**
+   * Remember which conversation is on screen (null: a new one).
+   * Kept in localStorage: it is tiny and needed before anything else.
+   */
+  setActiveSessionId(sessionId: string | null): void {
+    try {
+      localStorage.setItem(ACTIVE_PREFIX + this.ownerId, JSON.stringify(sessionId));
+    } catch (error) {
+      console.warn('[TranscriptStore] Could not remember the active session:', error);
+    }
+  }
+
+  private getActiveSessionId(): string | null | undefined {
+    try {
+      const raw = localStorage.getItem(ACTIVE_PREFIX + this.ownerId);
+      if (raw === null) return undefined;
+      const parsed: unknown = JSON.parse(raw);
+      return typeof parsed === 'string' || parsed === null ? parsed : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Remember the draft id of the conversation on screen (null: it is an
+   * existing session), so a reload can still match its queued messages
+   */
+  setActiveDraftId(draftId: string | null): void {
+    try {
+      if (draftId === null) localStorage.removeItem(DRAFT_ID_PREFIX + this.ownerId);
+      else localStorage.setItem(DRAFT_ID_PREFIX + this.ownerId, draftId);
+    } catch (error) {
+      console.warn('[TranscriptStore] Could not remember the draft id:', error);
+    }
+  }
+
+  getActiveDraftId(): string | null {
+    try {
+      return localStorage.getItem(DRAFT_ID_PREFIX + this.ownerId);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Forget every conversation stored for this user on this device
+   */
+  async clear(): Promise<void> {
+    const transcripts = await this.backend.listByOwner(this.ownerId);
+    await Promise.all(transcripts.map((transcript) => this.backend.delete(transcript.key)));
+    try {
+      localStorage.removeItem(ACTIVE_PREFIX + this.ownerId);
+      localStorage.removeItem(DRAFT_ID_PREFIX + this.ownerId);
+    } catch {
+      // Storage disabled: nothing was remembered either
+    }
+  }
+}